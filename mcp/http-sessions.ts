@@ -0,0 +1,168 @@
+import { randomUUID } from 'node:crypto';
+import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+import { createSarServer } from './sar-server';
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const SWEEP_INTERVAL_MS = 60_000;
+
+export interface McpHttpOptions {
+  /** Require `Authorization: Bearer <token>` when set. */
+  authToken?: string;
+  /** Close sessions with no request and no open stream for this long. */
+  idleMs: number;
+  /** Reject other `Host` headers (DNS rebinding protection) when set. */
+  allowedHosts?: string[];
+}
+
+interface Session {
+  transport: WebStandardStreamableHTTPServerTransport;
+  lastSeen: number;
+  openStreams: number;
+}
+
+export interface McpHttpHandler {
+  handle(request: Request): Promise<Response>;
+  close(): Promise<void>;
+}
+
+function jsonRpcError(status: number, message: string) {
+  return Response.json({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }, { status });
+}
+
+// Streamable HTTP on Web Request/Response, so the same sessions serve the standalone
+// `--http` server and the Next.js `/api/mcp` route. Every session gets its own McpServer
+// so subscriptions and in-flight requests stay isolated.
+export function createMcpHttpHandler({ authToken, idleMs, allowedHosts }: McpHttpOptions): McpHttpHandler {
+  const sessions = new Map<string, Session>();
+
+  const openSession = async () => {
+    const transport = new WebStandardStreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, { transport, lastSeen: Date.now(), openStreams: 0 });
+      },
+      // Browsers on other origins must not be able to drive a server bound to this machine.
+      enableDnsRebindingProtection: Boolean(allowedHosts),
+      allowedHosts,
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+    await createSarServer().connect(transport);
+    return transport;
+  };
+
+  const handle = async (request: Request) => {
+    if (authToken && request.headers.get('authorization') !== `Bearer ${authToken}`) {
+      return new Response(null, { status: 401, headers: { 'www-authenticate': 'Bearer' } });
+    }
+
+    try {
+      const sessionId = request.headers.get('mcp-session-id');
+      const session = sessionId ? sessions.get(sessionId) : undefined;
+      const missingSession = () =>
+        jsonRpcError(sessionId ? 404 : 400, sessionId ? 'Session not found' : 'Missing mcp-session-id header');
+
+      if (request.method === 'POST') {
+        const declaredBytes = Number(request.headers.get('content-length') ?? 0);
+        const text = declaredBytes > MAX_BODY_BYTES ? '' : await request.text();
+        if (declaredBytes > MAX_BODY_BYTES || Buffer.byteLength(text) > MAX_BODY_BYTES) {
+          return jsonRpcError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+        }
+        const body = JSON.parse(text) as unknown;
+        if (session) {
+          session.lastSeen = Date.now();
+          return await session.transport.handleRequest(request, { parsedBody: body });
+        }
+        if (!sessionId && isInitializeRequest(body)) {
+          const transport = await openSession();
+          const response = await transport.handleRequest(request, { parsedBody: body });
+          if (!transport.sessionId) {
+            // Rejected before a session was assigned (bad host, bad accept header); nothing will reuse it.
+            await transport.close();
+          }
+          return response;
+        }
+        return missingSession();
+      }
+
+      if (request.method === 'GET' || request.method === 'DELETE') {
+        if (!session) {
+          return missingSession();
+        }
+        session.lastSeen = Date.now();
+        const response = await session.transport.handleRequest(request);
+        return request.method === 'GET' ? trackOpenStream(response, session) : response;
+      }
+
+      return new Response(null, { status: 405, headers: { allow: 'GET, POST, DELETE' } });
+    } catch (error) {
+      console.error('[mcp-http] request failed', error);
+      return jsonRpcError(error instanceof SyntaxError ? 400 : 500, error instanceof Error ? error.message : 'Internal error');
+    }
+  };
+
+  // Clients that vanish without sending DELETE would otherwise keep their pollers running.
+  // A client holding the GET notification stream open is still there, however quiet.
+  const sweeper = setInterval(() => {
+    const cutoff = Date.now() - idleMs;
+    for (const { transport, lastSeen, openStreams } of sessions.values()) {
+      if (openStreams === 0 && lastSeen < cutoff) {
+        void transport.close();
+      }
+    }
+  }, SWEEP_INTERVAL_MS);
+  sweeper.unref?.();
+
+  const close = async () => {
+    clearInterval(sweeper);
+    await Promise.all([...sessions.values()].map(({ transport }) => transport.close()));
+  };
+
+  return { handle, close };
+}
+
+// Counts the SSE stream as activity until the client drops it or the server ends it.
+function trackOpenStream(response: Response, session: Session) {
+  const source = response.body;
+  if (!source || !response.ok) {
+    return response;
+  }
+
+  session.openStreams += 1;
+  let open = true;
+  const finish = () => {
+    if (open) {
+      open = false;
+      session.openStreams -= 1;
+      session.lastSeen = Date.now();
+    }
+  };
+
+  const reader = source.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          finish();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        finish();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      finish();
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
@@ -0,0 +1,1061 @@
+import 'dotenv/config';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type CallToolResult,
+  type GetPromptResult,
+  type ReadResourceResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { EVENT_EXPORT_FORMATS, MAX_EXPORT_EVENTS, getExportFilename, serializeEvents } from '@/lib/event-export';
+import { EventImportError, parseImport, runBulkImport, validateImportCandidates } from '@/lib/event-import';
+import {
+  BACKEND_EVENT_FILTERS,
+  EventQueryError,
+  MAX_EVENT_PAGE_SIZE,
+  parseListEventsParams,
+  queryEvents,
+} from '@/lib/event-query';
+import { type LatLon, boundingBoxAround, hasCoordinates, haversineKm } from '@/lib/geo';
+import { GeofenceInputError } from '@/lib/geofences';
+import { planMissionRoute } from '@/lib/mission-planning';
+import { OfflineRoutingError, isRoutingOutage } from '@/lib/road-routing';
+import { rankRoutesByHazard } from '@/lib/route-hazards';
+import { type RoutingBackend, loadHazardAreas, planRoute } from '@/lib/route-planning';
+import { INCIDENT_STATUSES, getIncidentStatus, isIncidentOpen } from '@/lib/incident-lifecycle';
+import { LOCAL_BACKEND_BASE_URL, handleLocalBackendRequest, isLocalBackendEnabled } from '@/lib/local-backend';
+import {
+  altRouteRequestSchema,
+  altRouteResponseSchema,
+  bulkImportRequestSchema,
+  bulkImportResponseSchema,
+  circleGeofenceRequestSchema,
+  createGeofenceRequestSchema,
+  deleteGeofenceResponseSchema,
+  explainEventRequestSchema,
+  explainEventResponseSchema,
+  geofenceResponseSchema,
+  incidentStatusSchema,
+  ingestEventRequestSchema,
+  ingestEventResponseSchema,
+  latitudeSchema,
+  listEventsResponseSchema,
+  listGeofenceAlertsResponseSchema,
+  listGeofencesResponseSchema,
+  longitudeSchema,
+  MAX_MISSION_STOPS,
+  missionRouteRequestSchema,
+  missionRouteResponseSchema,
+  sarEventSchema,
+  saveGeofenceResponseSchema,
+  simulateReplayResponseSchema,
+} from '@/lib/sar-contracts';
+import type { BulkImportResponse, SarEvent } from '@/types/sar';
+
+// Falls back to the dashboard's variable so the `/api/mcp` route needs no extra configuration.
+export const API_BASE = process.env.API_BASE ?? process.env.SAR_API_BASE;
+export const USE_LOCAL_BACKEND = isLocalBackendEnabled();
+const RESOURCE_POLL_MS = Number(process.env.SAR_STREAM_POLL_MS ?? 5_000);
+const EVENTS_URI = 'sar://events';
+const CRITICAL_SEVERITY = 80;
+
+// Tool arguments are the dashboard's request contracts, plus demo defaults where the old tools had them.
+const altRouteArgs = altRouteRequestSchema.extend({
+  originLat: altRouteRequestSchema.shape.originLat.default(3.043),
+  originLon: altRouteRequestSchema.shape.originLon.default(101.449),
+  destLat: altRouteRequestSchema.shape.destLat.default(3.155),
+  destLon: altRouteRequestSchema.shape.destLon.default(101.712),
+});
+
+const planMissionArgs = missionRouteRequestSchema.omit({ stops: true }).extend({
+  startLat: missionRouteRequestSchema.shape.startLat.default(3.043),
+  startLon: missionRouteRequestSchema.shape.startLon.default(101.449),
+  eventIds: z
+    .array(z.string().min(1, 'eventId is required'))
+    .min(1, 'Add at least one stop')
+    .max(MAX_MISSION_STOPS, `A mission can visit at most ${MAX_MISSION_STOPS} stops`)
+    .describe('Incidents to visit, in any order; each must have coordinates'),
+});
+
+const planMissionResultSchema = missionRouteResponseSchema.extend({
+  resolvedDuplicates: z
+    .array(z.object({ eventId: z.string(), canonicalEventId: z.string() }))
+    .optional()
+    .describe('Requested duplicate reports and the incident each one was replaced with'),
+});
+
+const geofenceArgs = circleGeofenceRequestSchema.extend({
+  lat: circleGeofenceRequestSchema.shape.lat.default(3.043),
+  lon: circleGeofenceRequestSchema.shape.lon.default(101.449),
+  radiusKm: circleGeofenceRequestSchema.shape.radiusKm.default(1),
+});
+
+const geofenceIdArgs = z.object({
+  geofenceId: z.string().min(1, 'geofenceId is required'),
+});
+
+const eventIdArgs = z.object({
+  eventId: z.string().min(1, 'eventId is required'),
+});
+
+const updateGeofenceArgs = createGeofenceRequestSchema.partial().extend(geofenceIdArgs.shape);
+
+const exportEventsArgs = z.object({
+  format: z.enum(['geojson', 'kml', 'csv', 'cap']).default('geojson'),
+  since: z.number().optional(),
+  until: z.number().optional(),
+  minSeverity: z.number().optional(),
+  maxSeverity: z.number().optional(),
+  minTrust: z.number().optional(),
+  bbox: z.string().optional().describe('minLon,minLat,maxLon,maxLat'),
+  status: z.array(incidentStatusSchema).optional(),
+  q: z.string().optional(),
+  includeDuplicates: z.boolean().optional(),
+});
+
+const exportEventsResult = z.object({
+  format: exportEventsArgs.shape.format.unwrap(),
+  count: z.number().describe('Events in the document'),
+  total: z.number().describe('Events matching the filters'),
+  truncated: z.boolean().describe(`True when more than ${MAX_EXPORT_EVENTS} events matched and the rest were left out`),
+  contentType: z.string(),
+  filename: z.string(),
+});
+
+const SEARCH_PAGE_SIZE = 20;
+const MAX_SEARCH_PAGE_SIZE = 100;
+const SUMMARY_TEXT_LENGTH = 160;
+
+const timestampArg = z
+  .union([z.number(), z.string()])
+  .optional()
+  .describe('Epoch milliseconds or an ISO 8601 timestamp');
+
+const searchEventsArgs = z.object({
+  bbox: z.string().optional().describe('minLon,minLat,maxLon,maxLat'),
+  near: z
+    .object({ lat: latitudeSchema, lon: longitudeSchema, radiusKm: z.number().positive('radiusKm must be greater than 0') })
+    .optional()
+    .describe('Only events within radiusKm of this point; each result then carries distanceKm'),
+  since: timestampArg,
+  until: timestampArg.describe('Exclusive; epoch milliseconds or an ISO 8601 timestamp'),
+  minSeverity: z.number().min(0).max(100).optional(),
+  maxSeverity: z.number().min(0).max(100).optional().describe('Exclusive, so adjacent bands do not overlap'),
+  minTrust: z.number().min(0).max(100).optional(),
+  q: z.string().optional().describe('Case-insensitive keyword matched against the report text'),
+  status: z.array(incidentStatusSchema).optional(),
+  includeDuplicates: z.boolean().optional(),
+  sort: z.enum(['createdAt', 'severity', 'trust']).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+  limit: z.number().int().min(1).max(MAX_SEARCH_PAGE_SIZE).default(SEARCH_PAGE_SIZE),
+  cursor: z.string().optional().describe('nextCursor from the previous page'),
+  detail: z
+    .enum(['summary', 'full'])
+    .default('summary')
+    .describe('summary returns one short line per event; full returns complete event records'),
+});
+
+const eventSummarySchema = z.object({
+  eventId: z.string(),
+  summary: z.string(),
+  status: incidentStatusSchema,
+  severity: z.number().optional(),
+  trust: z.number().optional(),
+  reportedAt: z.string().optional(),
+  lat: z.number().optional(),
+  lon: z.number().optional(),
+  distanceKm: z.number().optional(),
+  corroboratingReports: z.number().optional(),
+  duplicateOf: z.string().optional(),
+});
+
+const searchEventsResult = z.object({
+  events: z.array(z.union([eventSummarySchema, sarEventSchema.extend({ distanceKm: z.number().optional() })])),
+  returned: z.number(),
+  total: z.number().describe('Number of events matching the filters across all pages'),
+  nextCursor: z.string().optional().describe('Pass back as cursor to fetch the next page'),
+});
+
+type EventSummary = z.infer<typeof eventSummarySchema>;
+
+const BASE_URL = USE_LOCAL_BACKEND
+  ? LOCAL_BACKEND_BASE_URL
+  : API_BASE?.endsWith('/')
+    ? API_BASE
+    : `${API_BASE}/`;
+
+// Same request either way; local mode hands it to the in-process backend instead of the network.
+function backendFetch(url: URL, init: RequestInit) {
+  return USE_LOCAL_BACKEND ? handleLocalBackendRequest(new Request(url, init)) : fetch(url, init);
+}
+
+function toRelativePath(path: string) {
+  return path.startsWith('/') ? path.slice(1) : path;
+}
+
+interface HttpJsonOptions {
+  method?: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+type ToolErrorCode =
+  | 'backend_error'
+  | 'backend_unreachable'
+  | 'invalid_response'
+  | 'invalid_arguments'
+  | 'not_found'
+  | 'tool_error';
+
+interface ToolErrorDetails {
+  status?: number;
+  backendMessage?: string;
+  retryable?: boolean;
+}
+
+// Carries what an agent needs to decide between retrying, fixing its arguments and giving up.
+class ToolError extends Error {
+  readonly code: ToolErrorCode;
+  readonly status?: number;
+  readonly backendMessage?: string;
+  readonly retryable: boolean;
+
+  constructor(code: ToolErrorCode, message: string, { status, backendMessage, retryable = false }: ToolErrorDetails = {}) {
+    super(message);
+    this.code = code;
+    this.status = status;
+    this.backendMessage = backendMessage;
+    this.retryable = retryable;
+  }
+}
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 502, 503, 504]);
+
+function readBackendMessage(text: string) {
+  try {
+    const payload = JSON.parse(text) as Record<string, unknown>;
+    const message = payload?.message ?? payload?.error;
+    if (typeof message === 'string') {
+      return message;
+    }
+  } catch {
+    // Not JSON; fall back to the raw body.
+  }
+  return text.trim() || undefined;
+}
+
+async function httpJson<S extends z.ZodType>(
+  path: string,
+  schema: S,
+  { method = 'GET', body, headers = {} }: HttpJsonOptions = {}
+): Promise<z.infer<S>> {
+  const relativePath = toRelativePath(path);
+  const url = new URL(relativePath, BASE_URL);
+  let response: Response;
+  try {
+    response = await backendFetch(url, {
+      method,
+      headers: {
+        ...headers,
+        ...(body !== undefined ? { 'content-type': 'application/json' } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+  } catch (error) {
+    throw new ToolError('backend_unreachable', `${method} ${url.pathname} could not reach the backend`, {
+      backendMessage: error instanceof Error ? error.message : String(error),
+      retryable: true,
+    });
+  }
+
+  if (!response.ok) {
+    throw new ToolError('backend_error', `${method} ${url.pathname} failed with ${response.status}`, {
+      status: response.status,
+      backendMessage: readBackendMessage(await response.text()),
+      retryable: response.status >= 500 ? response.status !== 501 : RETRYABLE_STATUSES.has(response.status),
+    });
+  }
+
+  const parsed = schema.safeParse(await response.json().catch(() => undefined));
+  if (!parsed.success) {
+    throw new ToolError('invalid_response', `${method} ${url.pathname} returned a response outside the contract`, {
+      status: response.status,
+      backendMessage: z.prettifyError(parsed.error),
+    });
+  }
+  return parsed.data;
+}
+
+function jsonToolResult(payload: Record<string, unknown>) {
+  const text = JSON.stringify(payload, null, 2);
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text,
+      },
+    ],
+    structuredContent: payload,
+  };
+}
+
+function toToolError(error: unknown) {
+  if (error instanceof ToolError) {
+    return error;
+  }
+  if (error instanceof EventQueryError || error instanceof EventImportError || error instanceof GeofenceInputError) {
+    return new ToolError('invalid_arguments', error.message, { status: 400 });
+  }
+  if (error instanceof OfflineRoutingError) {
+    const code = error.status < 500 ? 'invalid_arguments' : 'tool_error';
+    return new ToolError(code, error.message, { status: error.status });
+  }
+  return new ToolError('tool_error', error instanceof Error ? error.message : String(error));
+}
+
+// The error travels as JSON text rather than `structuredContent`, which clients validate against the success schema.
+function errorToolResult(error: unknown): CallToolResult {
+  const { code, message, status, backendMessage, retryable } = toToolError(error);
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({ error: { code, message, status, backendMessage, retryable } }, null, 2),
+      },
+    ],
+  };
+}
+
+function withToolErrors<Args extends unknown[]>(handler: (...args: Args) => Promise<CallToolResult>) {
+  return async (...args: Args): Promise<CallToolResult> => {
+    try {
+      return await handler(...args);
+    } catch (error) {
+      return errorToolResult(error);
+    }
+  };
+}
+
+function toSearchParams(filters: Record<string, unknown>) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined) {
+      params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+    }
+  }
+  return params;
+}
+
+// Forwards the filters the backend applies natively; `queryEvents` re-applies them locally either way.
+function toBackendEventQuery(searchParams: URLSearchParams) {
+  const backendQuery = new URLSearchParams();
+  for (const key of BACKEND_EVENT_FILTERS) {
+    const value = searchParams.get(key);
+    if (value) {
+      backendQuery.set(key, value);
+    }
+  }
+  return backendQuery;
+}
+
+function toEpochMs(value: number | string | undefined, label: string) {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  const trimmed = value.trim();
+  const epochMs = /^\d+$/.test(trimmed) ? Number(trimmed) : Date.parse(trimmed);
+  if (!Number.isFinite(epochMs)) {
+    throw new EventQueryError(`${label} must be epoch milliseconds or an ISO 8601 timestamp`);
+  }
+  return epochMs;
+}
+
+function summarizeEvent(event: SarEvent, near?: LatLon): EventSummary {
+  const text = event.text.replace(/\s+/g, ' ').trim();
+  return {
+    eventId: event.eventId,
+    summary: text.length > SUMMARY_TEXT_LENGTH ? `${text.slice(0, SUMMARY_TEXT_LENGTH - 1)}…` : text,
+    status: getIncidentStatus(event),
+    severity: event.severity,
+    trust: event.trust,
+    reportedAt: event.createdAt !== undefined ? new Date(event.createdAt).toISOString() : undefined,
+    lat: event.lat,
+    lon: event.lon,
+    distanceKm: near && hasCoordinates(event) ? Math.round(haversineKm(near, event) * 10) / 10 : undefined,
+    corroboratingReports: event.corroboratingEventIds?.length || undefined,
+    duplicateOf: event.duplicateOf,
+  };
+}
+
+function formatSummaryLine(summary: EventSummary) {
+  return [
+    summary.eventId,
+    summary.status,
+    `sev ${summary.severity ?? '?'}`,
+    `trust ${summary.trust ?? '?'}`,
+    summary.reportedAt,
+    hasCoordinates(summary) ? `${summary.lat.toFixed(4)},${summary.lon.toFixed(4)}` : 'no location',
+    summary.distanceKm !== undefined ? `${summary.distanceKm} km away` : undefined,
+    summary.corroboratingReports ? `+${summary.corroboratingReports} corroborating` : undefined,
+    summary.summary,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+async function searchEvents({ near, detail, since, until, ...filters }: z.infer<typeof searchEventsArgs>) {
+  const searchParams = toSearchParams({
+    ...filters,
+    since: toEpochMs(since, 'since'),
+    until: toEpochMs(until, 'until'),
+  });
+  const params = parseListEventsParams(searchParams);
+  const backendQuery = toBackendEventQuery(searchParams);
+  const nearBox = near && !params.bbox ? boundingBoxAround(near, near.radiusKm) : null;
+  if (nearBox) {
+    backendQuery.set('bbox', nearBox.join(','));
+  }
+
+  const query = backendQuery.toString();
+  const data = await httpJson(query ? `/events?${query}` : '/events', listEventsResponseSchema);
+  const candidates = near
+    ? data.events.filter((event) => hasCoordinates(event) && haversineKm(near, event) <= near.radiusKm)
+    : data.events;
+  const page = queryEvents(candidates, params);
+  const events =
+    detail === 'full'
+      ? page.events.map((event) =>
+          near && hasCoordinates(event)
+            ? { ...event, distanceKm: Math.round(haversineKm(near, event) * 10) / 10 }
+            : event
+        )
+      : page.events.map((event) => summarizeEvent(event, near));
+
+  return { events, returned: events.length, total: page.total ?? events.length, nextCursor: page.nextCursor };
+}
+
+// Route planning is shared with the dashboard (`src/lib/route-planning.ts`); this is how it reaches the backend.
+const routingBackend: RoutingBackend = {
+  requestRoute: (request) => httpJson('/routes/alt', altRouteResponseSchema, { method: 'POST', body: request }),
+  isOutage: (error) =>
+    error instanceof ToolError && (error.code === 'backend_unreachable' || isRoutingOutage(error.status)),
+  listEvents: () => fetchEvents(),
+  listGeofences: async () => (await httpJson('/geofences', listGeofencesResponseSchema)).geofences,
+};
+
+const eventUri = (eventId: string) => `${EVENTS_URI}/${encodeURIComponent(eventId)}`;
+const explanationUri = (eventId: string) => `${eventUri(eventId)}/explanation`;
+
+async function fetchEvents({ includeDuplicates = false } = {}) {
+  const { events } = await httpJson(
+    includeDuplicates ? '/events?includeDuplicates=true' : '/events',
+    listEventsResponseSchema
+  );
+  return events;
+}
+
+// Duplicate reports are records too; they are only hidden from lists.
+async function fetchEvent(eventId: string) {
+  const event = (await fetchEvents({ includeDuplicates: true })).find((candidate) => candidate.eventId === eventId);
+  if (!event) {
+    throw new ToolError('not_found', `Event ${eventId} not found`, { status: 404 });
+  }
+  return event;
+}
+
+function jsonResource(uri: URL | string, payload: unknown): ReadResourceResult {
+  return {
+    contents: [{ uri: uri.toString(), mimeType: 'application/json', text: JSON.stringify(payload, null, 2) }],
+  };
+}
+
+function embeddedResource(uri: string, payload: unknown): GetPromptResult['messages'][number] {
+  const [resource] = jsonResource(uri, payload).contents;
+  return { role: 'user', content: { type: 'resource', resource } };
+}
+
+function readTemplateVariable(value: string | string[]) {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+const watchers = new Set<EventResourceWatcher>();
+
+// The backend has no push channel, so while any client is subscribed we poll `/events`
+// the way the dashboard's event stream does and notify for every URI whose contents moved.
+// One watcher per connected session; each tracks only that session's subscriptions.
+class EventResourceWatcher {
+  private readonly subscriptions = new Set<string>();
+  private snapshot: Map<string, string> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private polling: Promise<void> | null = null;
+  private stale = false;
+
+  constructor(private readonly server: McpServer) {
+    watchers.add(this);
+  }
+
+  close() {
+    watchers.delete(this);
+    this.subscriptions.clear();
+    this.clearTimer();
+  }
+
+  subscribe(uri: string) {
+    this.subscriptions.add(uri);
+    if (this.subscriptions.size === 1) {
+      void this.refresh();
+    }
+  }
+
+  unsubscribe(uri: string) {
+    this.subscriptions.delete(uri);
+    if (this.subscriptions.size === 0) {
+      this.clearTimer();
+      this.snapshot = null;
+    }
+  }
+
+  refresh(): Promise<void> {
+    if (this.subscriptions.size === 0) {
+      return Promise.resolve();
+    }
+    if (this.polling) {
+      this.stale = true;
+      return this.polling;
+    }
+    this.polling = this.poll().finally(() => {
+      this.polling = null;
+      if (this.stale) {
+        this.stale = false;
+        void this.refresh();
+      } else if (this.subscriptions.size > 0) {
+        this.clearTimer();
+        this.timer = setTimeout(() => void this.refresh(), RESOURCE_POLL_MS);
+      }
+    });
+    return this.polling;
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async poll() {
+    let events: SarEvent[];
+    try {
+      events = await fetchEvents();
+    } catch (error) {
+      console.error('[resources] failed to poll events', error);
+      return;
+    }
+
+    const next = new Map(events.map((event) => [event.eventId, JSON.stringify(event)]));
+    const previous = this.snapshot;
+    this.snapshot = next;
+    if (!previous) {
+      return;
+    }
+
+    const changed = [...next].filter(([eventId, body]) => previous.get(eventId) !== body).map(([eventId]) => eventId);
+    const removed = [...previous.keys()].filter((eventId) => !next.has(eventId));
+    if (changed.length === 0 && removed.length === 0) {
+      return;
+    }
+
+    const uris = [EVENTS_URI, ...[...changed, ...removed].flatMap((eventId) => [eventUri(eventId), explanationUri(eventId)])];
+    for (const uri of uris) {
+      if (this.subscriptions.has(uri)) {
+        await this.server.server.sendResourceUpdated({ uri });
+      }
+    }
+    if (removed.length > 0 || changed.some((eventId) => !previous.has(eventId))) {
+      this.server.sendResourceListChanged();
+    }
+  }
+}
+
+// Writes made through any session should reach every subscriber without waiting for the next poll.
+function refreshEventResources() {
+  for (const watcher of watchers) {
+    void watcher.refresh();
+  }
+}
+
+export function createSarServer() {
+  const server = new McpServer({
+    name: 'sar-mcp',
+    version: '0.3.0',
+  });
+  const eventWatcher = new EventResourceWatcher(server);
+  server.server.onclose = () => eventWatcher.close();
+
+  server.registerTool(
+    'ingest_event',
+    {
+      title: 'Ingest Event',
+      description: 'Create a new disaster event report in the SAR system.',
+      inputSchema: ingestEventRequestSchema,
+      outputSchema: ingestEventResponseSchema,
+    },
+    withToolErrors(async (input) => {
+      const result = await httpJson('/ingest', ingestEventResponseSchema, { method: 'POST', body: input });
+      refreshEventResources();
+      return jsonToolResult(result);
+    })
+  );
+
+  server.registerTool(
+    'import_events',
+    {
+      title: 'Import Events',
+      description:
+        'Bulk-ingest reports from a GeoJSON, CSV or CAP 1.2 XML document and report success or failure for every row.',
+      inputSchema: bulkImportRequestSchema,
+      outputSchema: bulkImportResponseSchema,
+    },
+    withToolErrors(async ({ format, content, mapping, dryRun }) => {
+      const rows = validateImportCandidates(parseImport(content, format, mapping));
+      const result: BulkImportResponse = await runBulkImport(
+        format,
+        rows,
+        dryRun ? null : (event) => httpJson('/ingest', ingestEventResponseSchema, { method: 'POST', body: event })
+      );
+      if (result.imported > 0) {
+        refreshEventResources();
+      }
+      return jsonToolResult(result);
+    })
+  );
+
+  server.registerTool(
+    'list_events',
+    {
+      title: 'List Events',
+      description:
+        'Retrieve the entire catalog of recent disaster events. Prefer search_events, which filters and pages results.',
+      outputSchema: listEventsResponseSchema,
+    },
+    withToolErrors(async () => {
+      const result = await httpJson('/events', listEventsResponseSchema);
+      return jsonToolResult(result);
+    })
+  );
+
+  server.registerTool(
+    'search_events',
+    {
+      title: 'Search Events',
+      description:
+        'Find events by bounding box, radius around a point, time range, severity band, trust threshold, status and keyword. ' +
+        'Returns one page of compact summaries by default; pass nextCursor back as cursor for more.',
+      inputSchema: searchEventsArgs,
+      outputSchema: searchEventsResult,
+    },
+    withToolErrors(async (input) => {
+      const result = await searchEvents(input);
+      if (input.detail === 'full') {
+        return jsonToolResult(result);
+      }
+      const lines = (result.events as EventSummary[]).map(formatSummaryLine);
+      const header = `${result.returned} of ${result.total} matching events`;
+      const footer = result.nextCursor ? `More results: call again with cursor "${result.nextCursor}"` : undefined;
+      return {
+        content: [{ type: 'text', text: [header, ...lines, footer].filter(Boolean).join('\n') }],
+        structuredContent: result,
+      };
+    })
+  );
+
+  server.registerTool(
+    'get_event',
+    {
+      title: 'Get Event',
+      description: 'Fetch the complete record for one event, including its status history and linked duplicates.',
+      inputSchema: eventIdArgs,
+      outputSchema: z.object({ event: sarEventSchema }),
+    },
+    withToolErrors(async ({ eventId }) => jsonToolResult({ event: await fetchEvent(eventId) }))
+  );
+
+  server.registerTool(
+    'export_events',
+    {
+      title: 'Export Events',
+      description:
+        'Serialise filtered events as GeoJSON, KML, CSV or an Atom feed of CAP 1.2 alerts for GIS and alerting systems.',
+      inputSchema: exportEventsArgs,
+      outputSchema: exportEventsResult,
+    },
+    withToolErrors(async ({ format, ...filters }) => {
+      // Reuse the dashboard's query parser so filters behave exactly like GET /api/events.
+      const searchParams = toSearchParams(filters);
+      const params = parseListEventsParams(searchParams);
+      const query = toBackendEventQuery(searchParams).toString();
+      const data = await httpJson(query ? `/events?${query}` : '/events', listEventsResponseSchema);
+      const { events, total = events.length } = queryEvents(data.events, { ...params, limit: MAX_EXPORT_EVENTS });
+      const generatedAt = Date.now();
+      const document = serializeEvents(events, format, { sender: process.env.SAR_CAP_SENDER, generatedAt });
+      return {
+        content: [{ type: 'text', text: document }],
+        structuredContent: {
+          format,
+          count: events.length,
+          total,
+          truncated: total > events.length,
+          contentType: EVENT_EXPORT_FORMATS[format].contentType,
+          filename: getExportFilename(format, generatedAt),
+        },
+      };
+    })
+  );
+
+  server.registerTool(
+    'explain_event',
+    {
+      title: 'Explain Event',
+      description: 'Fetch the Nova Lite rationale for a specific event.',
+      inputSchema: explainEventRequestSchema,
+      outputSchema: explainEventResponseSchema,
+    },
+    withToolErrors(async ({ eventId }) => {
+      const result = await httpJson(`/events/${encodeURIComponent(eventId)}/explain`, explainEventResponseSchema);
+      return jsonToolResult(result);
+    })
+  );
+
+  server.registerTool(
+    'alt_route',
+    {
+      title: 'Generate Alternate Route',
+      description:
+        'Request ranked detour routes between two coordinate pairs. ' +
+        'Open high-severity incidents and active geofences are avoided automatically; routes that cross one rank last. ' +
+        'The top-level fields describe the recommended route; routes lists every alternative with its legs and hazards. ' +
+        'engine is offline when the routes came from the local road graph because the routing backend was down.',
+      inputSchema: altRouteArgs,
+      outputSchema: altRouteResponseSchema,
+    },
+    withToolErrors(async (input) => {
+      const origin = { lat: input.originLat, lon: input.originLon };
+      const destination = { lat: input.destLat, lon: input.destLon };
+      const avoidAreas = [
+        ...(input.avoidAreas ?? []),
+        ...(input.avoidHazards === false ? [] : await loadHazardAreas([origin, destination], routingBackend)),
+      ];
+      const result = await planRoute({ ...input, avoidAreas }, routingBackend);
+      return jsonToolResult(rankRoutesByHazard(result, avoidAreas, origin, destination));
+    })
+  );
+
+  server.registerTool(
+    'plan_mission',
+    {
+      title: 'Plan Multi-Stop Mission',
+      description:
+        'Order several incidents into one route from a start point and return per-stop ETAs. ' +
+        'strategy nearest (default) visits the closest stop next; severity pulls severe incidents forward. ' +
+        'Legs avoid open high-severity incidents and active geofences other than the stops themselves. ' +
+        'A duplicate report is routed to the incident it was linked to and listed in resolvedDuplicates.',
+      inputSchema: planMissionArgs,
+      outputSchema: planMissionResultSchema,
+    },
+    withToolErrors(async ({ eventIds, ...input }) => {
+      // Duplicate reports are valid ids, but the crew is sent to the incident they were linked to.
+      const events = await fetchEvents({ includeDuplicates: true });
+      const resolvedDuplicates: Array<{ eventId: string; canonicalEventId: string }> = [];
+      const stopEvents = new Map<string, SarEvent>();
+      for (const eventId of eventIds) {
+        const report = events.find((candidate) => candidate.eventId === eventId);
+        if (!report) {
+          throw new ToolError('not_found', `Event ${eventId} not found`, { status: 404 });
+        }
+        const canonical = report.duplicateOf
+          ? events.find((candidate) => candidate.eventId === report.duplicateOf) ?? report
+          : report;
+        if (canonical !== report) {
+          resolvedDuplicates.push({ eventId, canonicalEventId: canonical.eventId });
+        }
+        stopEvents.set(canonical.eventId, canonical);
+      }
+      const stops = [...stopEvents.values()].map((event) => {
+        if (!hasCoordinates(event)) {
+          throw new ToolError('invalid_arguments', `Event ${event.eventId} has no coordinates to route to`, {
+            status: 400,
+          });
+        }
+        return {
+          eventId: event.eventId,
+          lat: event.lat,
+          lon: event.lon,
+          label: event.text.length > 60 ? `${event.text.slice(0, 59)}…` : event.text,
+          severity: event.severity,
+        };
+      });
+      const start = { lat: input.startLat, lon: input.startLon };
+      const avoidAreas = input.avoidHazards === false ? [] : await loadHazardAreas([start, ...stops], routingBackend);
+      const result = await planMissionRoute({ ...input, stops }, avoidAreas, (request) =>
+        planRoute(request, routingBackend)
+      );
+      return jsonToolResult(resolvedDuplicates.length > 0 ? { ...result, resolvedDuplicates } : result);
+    })
+  );
+
+  server.registerTool(
+    'set_geofence_alert',
+    {
+      title: 'Set Geofence Alert',
+      description: 'Deliver a geofence alert for responders within a radius.',
+      inputSchema: geofenceArgs,
+      outputSchema: geofenceResponseSchema,
+    },
+    withToolErrors(async (input) => {
+      const result = await httpJson('/alerts/geofence', geofenceResponseSchema, { method: 'POST', body: input });
+      return jsonToolResult(result);
+    })
+  );
+
+  server.registerTool(
+    'list_geofences',
+    {
+      title: 'List Geofences',
+      description: 'List saved geofences with their severity thresholds and alert hit counts.',
+      outputSchema: listGeofencesResponseSchema,
+    },
+    withToolErrors(async () => {
+      const result = await httpJson('/geofences', listGeofencesResponseSchema);
+      return jsonToolResult(result);
+    })
+  );
+
+  server.registerTool(
+    'create_geofence',
+    {
+      title: 'Create Geofence',
+      description:
+        'Save a named circle or GeoJSON polygon zone. New events inside an active zone at or above minSeverity raise an alert automatically.',
+      inputSchema: createGeofenceRequestSchema,
+      outputSchema: saveGeofenceResponseSchema,
+    },
+    withToolErrors(async (input) => {
+      const result = await httpJson('/geofences', saveGeofenceResponseSchema, { method: 'POST', body: input });
+      return jsonToolResult(result);
+    })
+  );
+
+  server.registerTool(
+    'update_geofence',
+    {
+      title: 'Update Geofence',
+      description: 'Rename, reshape, pause/resume or change the severity threshold of a saved geofence.',
+      inputSchema: updateGeofenceArgs,
+      outputSchema: saveGeofenceResponseSchema,
+    },
+    withToolErrors(async ({ geofenceId, ...changes }) => {
+      const result = await httpJson(`/geofences/${encodeURIComponent(geofenceId)}`, saveGeofenceResponseSchema, {
+        method: 'PATCH',
+        body: changes,
+      });
+      return jsonToolResult(result);
+    })
+  );
+
+  server.registerTool(
+    'delete_geofence',
+    {
+      title: 'Delete Geofence',
+      description: 'Remove a saved geofence and its alert history.',
+      inputSchema: geofenceIdArgs,
+      outputSchema: deleteGeofenceResponseSchema,
+    },
+    withToolErrors(async ({ geofenceId }) => {
+      const result = await httpJson(`/geofences/${encodeURIComponent(geofenceId)}`, deleteGeofenceResponseSchema, {
+        method: 'DELETE',
+      });
+      return jsonToolResult(result);
+    })
+  );
+
+  server.registerTool(
+    'list_geofence_alerts',
+    {
+      title: 'List Geofence Alerts',
+      description: 'List the alerts a saved geofence has raised, newest first.',
+      inputSchema: geofenceIdArgs,
+      outputSchema: listGeofenceAlertsResponseSchema,
+    },
+    withToolErrors(async ({ geofenceId }) => {
+      const result = await httpJson(
+        `/geofences/${encodeURIComponent(geofenceId)}/alerts`,
+        listGeofenceAlertsResponseSchema
+      );
+      return jsonToolResult(result);
+    })
+  );
+
+  server.registerTool(
+    'simulate_replay',
+    {
+      title: 'Simulate Event Replay',
+      description: 'Trigger the backend to replay demo SAR events.',
+      outputSchema: simulateReplayResponseSchema,
+    },
+    withToolErrors(async () => {
+      const result = await httpJson('/simulate/replay', simulateReplayResponseSchema, { method: 'POST', body: {} });
+      refreshEventResources();
+      return jsonToolResult(result);
+    })
+  );
+
+  server.registerResource(
+    'events',
+    EVENTS_URI,
+    {
+      title: 'SAR events',
+      description: 'Canonical incidents, newest first. Duplicate reports are folded into the incident they corroborate.',
+      mimeType: 'application/json',
+    },
+    async (uri) => {
+      const data = queryEvents(await fetchEvents(), { limit: MAX_EVENT_PAGE_SIZE });
+      return jsonResource(uri, data);
+    }
+  );
+
+  server.registerResource(
+    'event',
+    new ResourceTemplate(`${EVENTS_URI}/{eventId}`, {
+      list: async () => {
+        const { events } = queryEvents(await fetchEvents(), { limit: 50 });
+        return {
+          resources: events.map((event) => ({
+            uri: eventUri(event.eventId),
+            name: event.text.length > 80 ? `${event.text.slice(0, 79)}…` : event.text,
+            mimeType: 'application/json',
+          })),
+        };
+      },
+    }),
+    {
+      title: 'SAR event',
+      description: 'A single event with its classification, lifecycle history and corroborating reports.',
+      mimeType: 'application/json',
+    },
+    async (uri, { eventId }) => jsonResource(uri, await fetchEvent(readTemplateVariable(eventId)))
+  );
+
+  server.registerResource(
+    'event-explanation',
+    new ResourceTemplate(`${EVENTS_URI}/{eventId}/explanation`, { list: undefined }),
+    {
+      title: 'SAR event explanation',
+      description: 'Nova Lite rationale for how an event was scored.',
+      mimeType: 'application/json',
+    },
+    async (uri, { eventId }) => {
+      const id = readTemplateVariable(eventId);
+      return jsonResource(uri, await httpJson(`/events/${encodeURIComponent(id)}/explain`, explainEventResponseSchema));
+    }
+  );
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async ({ params }) => {
+    eventWatcher.subscribe(params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async ({ params }) => {
+    eventWatcher.unsubscribe(params.uri);
+    return {};
+  });
+
+  server.registerPrompt(
+    'triage_critical_events',
+    {
+      title: 'Triage critical events',
+      description: 'Rank the latest open critical events and recommend what to dispatch first.',
+      argsSchema: {
+        limit: z.string().optional().describe('How many events to include (default 10)'),
+        minSeverity: z.string().optional().describe(`Severity floor (default ${CRITICAL_SEVERITY})`),
+      },
+    },
+    async ({ limit, minSeverity }) => {
+      const floor = Number(minSeverity ?? CRITICAL_SEVERITY);
+      const count = Number(limit ?? 10);
+      // Filter on status before the limit, or resolved criticals would crowd out open ones.
+      const { events: open } = queryEvents(await fetchEvents(), {
+        minSeverity: Number.isFinite(floor) ? floor : CRITICAL_SEVERITY,
+        status: INCIDENT_STATUSES.filter(isIncidentOpen),
+        limit: Number.isInteger(count) && count > 0 ? Math.min(count, 50) : 10,
+      });
+      return {
+        description: `${open.length} open event${open.length === 1 ? '' : 's'} to triage`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: open.length
+                ? [
+                    'You are the duty officer for a search-and-rescue operations centre.',
+                    `Triage the ${open.length} open event(s) attached below.`,
+                    'Rank them by urgency, weighing severity, trust, corroborating reports and how long each has waited.',
+                    'For each, give one line: rank, event id, why, and the next lifecycle step (triaged, dispatched, on-scene).',
+                    'Flag any that look like false alarms or duplicates rather than dropping them.',
+                  ].join('\n')
+                : 'There are no open events at or above the severity floor. Say so, and suggest whether to lower it.',
+            },
+          },
+          ...open.map((event) => embeddedResource(eventUri(event.eventId), event)),
+        ],
+      };
+    }
+  );
+
+  server.registerPrompt(
+    'responder_briefing',
+    {
+      title: 'Draft responder briefing',
+      description: 'Draft a briefing for the team being sent to an event, from the event and its explanation.',
+      argsSchema: {
+        eventId: z.string().describe('Event to brief on'),
+      },
+    },
+    async ({ eventId }) => {
+      const event = await fetchEvent(eventId);
+      const explanation = await httpJson(
+        `/events/${encodeURIComponent(eventId)}/explain`,
+        explainEventResponseSchema
+      ).catch(() => null);
+      return {
+        description: `Briefing for event ${eventId}`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: [
+                'Draft a short responder briefing for the search-and-rescue team being dispatched to the event attached below.',
+                'Use these headings: Situation, Location and access, Hazards, Known people at risk, Confidence, Actions on arrival.',
+                'Quote the original report where it matters, state the severity and trust scores, and mention corroborating reports.',
+                'Keep it under 250 words and say plainly what is unknown.',
+                explanation ? '' : 'No model explanation is available for this event yet; rely on the report alone.',
+              ]
+                .filter(Boolean)
+                .join('\n'),
+            },
+          },
+          embeddedResource(eventUri(eventId), event),
+          ...(explanation ? [embeddedResource(explanationUri(eventId), explanation)] : []),
+        ],
+      };
+    }
+  );
+
+  return server;
+}
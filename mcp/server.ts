@@ -0,0 +1,77 @@
+import 'dotenv/config';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+
+import { createMcpHttpHandler } from './http-sessions';
+import { API_BASE, USE_LOCAL_BACKEND, createSarServer } from './sar-server';
+
+const TRANSPORT = readFlag('--transport') ?? (process.argv.includes('--http') ? 'http' : process.env.MCP_TRANSPORT ?? 'stdio');
+const HTTP_HOST = readFlag('--host') ?? process.env.MCP_HOST ?? '127.0.0.1';
+const HTTP_PORT = Number(readFlag('--port') ?? process.env.MCP_PORT ?? 8787);
+const HTTP_PATH = '/mcp';
+const AUTH_TOKEN = process.env.MCP_AUTH_TOKEN;
+const SESSION_IDLE_MS = Number(process.env.MCP_SESSION_IDLE_MS ?? 30 * 60_000);
+const BACKEND_LABEL = USE_LOCAL_BACKEND ? 'local backend' : API_BASE;
+
+function readFlag(name: string) {
+  const index = process.argv.indexOf(name);
+  if (index !== -1) {
+    return process.argv[index + 1];
+  }
+  const inline = process.argv.find((arg) => arg.startsWith(`${name}=`));
+  return inline?.slice(name.length + 1);
+}
+
+async function startStdio() {
+  console.error(`SAR MCP server starting (stdio, ${BACKEND_LABEL})...`);
+  await createSarServer().connect(new StdioServerTransport());
+  console.error('SAR MCP server ready.');
+}
+
+async function startHttp() {
+  const loopback = ['127.0.0.1', 'localhost', '::1'].includes(HTTP_HOST);
+  const handler = createMcpHttpHandler({
+    authToken: AUTH_TOKEN,
+    idleMs: SESSION_IDLE_MS,
+    allowedHosts: loopback ? [`127.0.0.1:${HTTP_PORT}`, `localhost:${HTTP_PORT}`, `[::1]:${HTTP_PORT}`] : undefined,
+  });
+
+  const httpServer = Bun.serve({
+    hostname: HTTP_HOST,
+    port: HTTP_PORT,
+    // Notification streams stay open between keep-alives; never cut them for being quiet.
+    idleTimeout: 0,
+    fetch: (request) =>
+      new URL(request.url).pathname === HTTP_PATH ? handler.handle(request) : new Response(null, { status: 404 }),
+  });
+
+  const shutdown = async () => {
+    await handler.close();
+    await httpServer.stop();
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+
+  console.error(`SAR MCP server listening on http://${HTTP_HOST}:${HTTP_PORT}${HTTP_PATH} (${BACKEND_LABEL})`);
+}
+
+async function main() {
+  if (!API_BASE && !USE_LOCAL_BACKEND) {
+    console.error('Missing API_BASE env var. Set API_BASE to the API Gateway base URL or SAR_BACKEND_MODE=local.');
+    process.exit(1);
+  }
+  try {
+    if (TRANSPORT === 'http') {
+      await startHttp();
+    } else if (TRANSPORT === 'stdio') {
+      await startStdio();
+    } else {
+      throw new Error(`Unknown transport "${TRANSPORT}"; use stdio or http`);
+    }
+  } catch (error) {
+    console.error('Fatal MCP server error:', error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,515 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import type { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+
+import { decodeGooglePolyline, encodeGooglePolyline } from '@/lib/polyline';
+
+import { MockBackend } from './mock-backend';
+
+const SERVER_ENTRY = new URL('../server.ts', import.meta.url).pathname;
+// A 3×3 grid of roads whose centre junction sits on the seeded Klang flood.
+const ROAD_NETWORK_FILE = new URL('./fixtures/roads.geojson', import.meta.url).pathname;
+const STARTUP_TIMEOUT_MS = 20_000;
+
+interface ToolErrorPayload {
+  code: string;
+  message: string;
+  status?: number;
+  backendMessage?: string;
+  retryable: boolean;
+}
+
+// Spawns the real MCP entry point over stdio, pointed at the given backend.
+async function connectClient(apiBase: string, env: Record<string, string> = {}) {
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [SERVER_ENTRY],
+    env: { ...(process.env as Record<string, string>), API_BASE: apiBase, SAR_BACKEND_MODE: 'remote', ...env },
+    stderr: 'ignore',
+  });
+  const client = new Client({ name: 'sar-contract-tests', version: '1.0.0' });
+  await client.connect(transport);
+  return client;
+}
+
+function textOf(result: CallToolResult) {
+  const [first] = result.content;
+  return first?.type === 'text' ? first.text : '';
+}
+
+function toolError(result: CallToolResult) {
+  expect(result.isError).toBe(true);
+  return (JSON.parse(textOf(result)) as { error: ToolErrorPayload }).error;
+}
+
+const backend = new MockBackend();
+let client: Client;
+let tools: Tool[];
+
+async function callTool(name: string, args: Record<string, unknown> = {}) {
+  return (await client.callTool({ name, arguments: args })) as CallToolResult;
+}
+
+beforeAll(async () => {
+  backend.start();
+  client = await connectClient(backend.url);
+  // Listing caches each tool's outputSchema, so every later callTool is also checked by the client.
+  ({ tools } = await client.listTools());
+}, STARTUP_TIMEOUT_MS);
+
+afterAll(async () => {
+  await client?.close();
+  backend.stop();
+});
+
+beforeEach(() => backend.reset());
+
+describe('tool listing', () => {
+  test('registers every tool with input and output schemas', () => {
+    expect(tools.map((tool) => tool.name).sort()).toEqual([
+      'alt_route',
+      'create_geofence',
+      'delete_geofence',
+      'explain_event',
+      'export_events',
+      'get_event',
+      'import_events',
+      'ingest_event',
+      'list_events',
+      'list_geofence_alerts',
+      'list_geofences',
+      'plan_mission',
+      'search_events',
+      'set_geofence_alert',
+      'simulate_replay',
+      'update_geofence',
+    ]);
+    for (const tool of tools) {
+      expect(tool.inputSchema.type).toBe('object');
+      expect(tool.outputSchema?.type).toBe('object');
+    }
+  });
+
+  test('publishes the shared ingest contract', () => {
+    const ingest = tools.find((tool) => tool.name === 'ingest_event');
+    const properties = ingest?.inputSchema.properties as Record<string, Record<string, unknown>>;
+    expect(ingest?.inputSchema.required).toEqual(['text']);
+    expect(properties.text.minLength).toBe(3);
+    expect(properties.mediaUrl.format).toBe('uri');
+    expect(properties.lat).toMatchObject({ minimum: -90, maximum: 90 });
+  });
+});
+
+describe('argument validation', () => {
+  test.each([
+    ['ingest_event', { text: 'ab' }, 'at least 3 characters'],
+    ['ingest_event', { text: 'Flooded underpass', mediaUrl: 'not a url' }, 'Provide a valid URL'],
+    ['ingest_event', { text: 'Flooded underpass', lat: 91 }, 'Latitude must be ≤ 90'],
+    ['alt_route', { originLon: 200 }, 'Longitude must be ≤ 180'],
+    ['set_geofence_alert', { radiusKm: 0 }, 'radiusKm must be greater than 0'],
+    ['create_geofence', { name: '', area: { lat: 3.1, lon: 101.6, radiusKm: 1 } }, 'name is required'],
+    ['search_events', { limit: 500 }, 'limit'],
+    ['export_events', { format: 'shapefile' }, 'format'],
+  ])('%s rejects %j', async (name, args, message) => {
+    const result = await callTool(name, args);
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain(message);
+    expect(backend.requests).toHaveLength(0);
+  });
+});
+
+describe('structured output', () => {
+  test('ingest_event forwards the report and returns the new id', async () => {
+    const input = {
+      text: 'Bridge collapsed on Jalan Ipoh',
+      lat: 3.19,
+      lon: 101.68,
+      mediaUrl: 'https://example.com/a.jpg',
+    };
+    const result = await callTool('ingest_event', input);
+    expect(result.structuredContent).toEqual({ eventId: 'evt-new-1' });
+    expect(backend.requestsTo('POST', '/ingest')[0].body).toEqual(input);
+  });
+
+  test('list_events returns the backend catalog', async () => {
+    const result = await callTool('list_events');
+    const { events } = result.structuredContent as { events: { eventId: string }[] };
+    const canonical = backend.events.filter((event) => !event.duplicateOf);
+    expect(events.map((event) => event.eventId)).toEqual(canonical.map((event) => event.eventId).reverse());
+  });
+
+  test('explain_event returns the rationale', async () => {
+    const result = await callTool('explain_event', { eventId: 'evt-flood-klang' });
+    expect(result.structuredContent).toMatchObject({ eventId: 'evt-flood-klang', rationale: expect.any(String) });
+  });
+
+  test('alt_route fills in the demo coordinates and forwards nearby hazards', async () => {
+    const result = await callTool('alt_route');
+    expect(result.structuredContent).toMatchObject({ distanceKm: 12.5, etaMin: 21 });
+    expect(backend.requestsTo('POST', '/routes/alt')[0].body).toEqual({
+      originLat: 3.043,
+      originLon: 101.449,
+      destLat: 3.155,
+      destLon: 101.712,
+      avoidAreas: [
+        expect.objectContaining({ source: 'event', sourceId: 'evt-flood-klang', severity: 90 }),
+        expect.objectContaining({ source: 'event', sourceId: 'evt-landslide-ampang', severity: 75 }),
+      ],
+    });
+  });
+
+  test('alt_route ranks routes that cross a hazard last', async () => {
+    const throughFlood = encodeGooglePolyline([
+      [3.0, 101.4],
+      [3.038, 101.446],
+      [3.1, 101.5],
+    ]);
+    const aroundFlood = encodeGooglePolyline([
+      [3.0, 101.4],
+      [3.0, 101.5],
+      [3.1, 101.5],
+    ]);
+    backend.respondOnce('POST', '/routes/alt', 200, {
+      distanceKm: 15,
+      etaMin: 20,
+      routes: [
+        { routeId: 'direct', rank: 1, distanceKm: 15, etaMin: 20, polyline: throughFlood },
+        { routeId: 'detour', rank: 2, distanceKm: 18, etaMin: 26, polyline: aroundFlood },
+      ],
+    });
+    const result = await callTool('alt_route', { originLat: 3.0, originLon: 101.4, destLat: 3.1, destLon: 101.5 });
+    expect(result.structuredContent).toMatchObject({
+      etaMin: 26,
+      crossesHazard: false,
+      routes: [
+        { routeId: 'detour', rank: 1, crossesHazard: false },
+        { routeId: 'direct', rank: 2, crossesHazard: true, hazards: [{ sourceId: 'evt-flood-klang', crosses: true }] },
+      ],
+    });
+  });
+
+  test('plan_mission visits the nearest stop first and chains per-stop ETAs', async () => {
+    const result = await callTool('plan_mission', {
+      startLat: 3.0,
+      startLon: 101.4,
+      eventIds: ['evt-landslide-ampang', 'evt-flood-klang'],
+    });
+    expect(result.structuredContent).toMatchObject({
+      strategy: 'nearest',
+      distanceKm: 25,
+      etaMin: 42,
+      stops: [
+        { order: 1, eventId: 'evt-flood-klang', severity: 90, legEtaMin: 21, arrivalMin: 21 },
+        { order: 2, eventId: 'evt-landslide-ampang', severity: 75, legEtaMin: 21, arrivalMin: 42 },
+      ],
+    });
+
+    const legs = backend.requestsTo('POST', '/routes/alt').map((request) => request.body as Record<string, unknown>);
+    expect(legs).toHaveLength(2);
+    // Both severe incidents are stops, so neither is avoided on the way.
+    expect(legs[0]).toMatchObject({ originLat: 3.0, destLat: 3.038, alternatives: 1, avoidAreas: [] });
+    expect(legs[1]).toMatchObject({ originLat: 3.038, destLat: 3.15 });
+  });
+
+  test.each([
+    ['nearest', ['evt-flood-kampung-baru', 'evt-landslide-ampang']],
+    ['severity', ['evt-landslide-ampang', 'evt-flood-kampung-baru']],
+  ])('plan_mission orders stops by %s', async (strategy, expected) => {
+    const result = await callTool('plan_mission', {
+      startLat: 3.157,
+      startLon: 101.73,
+      eventIds: ['evt-flood-kampung-baru', 'evt-landslide-ampang'],
+      strategy,
+    });
+    const { stops } = result.structuredContent as { stops: Array<{ eventId: string }> };
+    expect(stops.map((stop) => stop.eventId)).toEqual(expected);
+  });
+
+  test('plan_mission routes a duplicate report to its incident', async () => {
+    const result = await callTool('plan_mission', {
+      startLat: 3.157,
+      startLon: 101.73,
+      eventIds: ['evt-flood-kampung-baru-2', 'evt-flood-kampung-baru'],
+    });
+    const { stops, resolvedDuplicates } = result.structuredContent as {
+      stops: Array<{ eventId: string }>;
+      resolvedDuplicates: unknown;
+    };
+    expect(stops.map((stop) => stop.eventId)).toEqual(['evt-flood-kampung-baru']);
+    expect(resolvedDuplicates).toEqual([
+      { eventId: 'evt-flood-kampung-baru-2', canonicalEventId: 'evt-flood-kampung-baru' },
+    ]);
+  });
+
+  test('plan_mission rejects unknown and unlocated events', async () => {
+    expect(toolError(await callTool('plan_mission', { eventIds: ['missing'] }))).toMatchObject({
+      code: 'not_found',
+      status: 404,
+    });
+    expect(toolError(await callTool('plan_mission', { eventIds: ['evt-fire-no-location'] }))).toMatchObject({
+      code: 'invalid_arguments',
+    });
+    expect(backend.requestsTo('POST', '/routes/alt')).toHaveLength(0);
+  });
+
+  test('set_geofence_alert reports deliveries', async () => {
+    const result = await callTool('set_geofence_alert', { lat: 3.1, lon: 101.7, radiusKm: 2 });
+    expect(result.structuredContent).toEqual({ delivered: 2 });
+  });
+
+  test('geofence tools create, update, list and delete', async () => {
+    const created = await callTool('create_geofence', { name: 'Klang', area: { lat: 3.04, lon: 101.45, radiusKm: 3 } });
+    const { geofence } = created.structuredContent as { geofence: { geofenceId: string } };
+    expect(geofence).toMatchObject({ name: 'Klang', active: true, minSeverity: 60 });
+
+    const updated = await callTool('update_geofence', { geofenceId: geofence.geofenceId, active: false });
+    expect(updated.structuredContent).toMatchObject({ geofence: { active: false } });
+    expect(backend.requestsTo('PATCH', `/geofences/${geofence.geofenceId}`)[0].body).toEqual({ active: false });
+
+    const listed = await callTool('list_geofences');
+    expect((listed.structuredContent as { geofences: unknown[] }).geofences).toHaveLength(1);
+
+    const alerts = await callTool('list_geofence_alerts', { geofenceId: geofence.geofenceId });
+    expect(alerts.structuredContent).toEqual({ alerts: [] });
+
+    const deleted = await callTool('delete_geofence', { geofenceId: geofence.geofenceId });
+    expect(deleted.structuredContent).toEqual({ geofenceId: geofence.geofenceId, deleted: true });
+  });
+
+  test('search_events filters by radius and pages compact summaries', async () => {
+    const first = await callTool('search_events', { near: { lat: 3.16, lon: 101.72, radiusKm: 5 }, limit: 1 });
+    const page = first.structuredContent as {
+      events: { eventId: string; distanceKm: number }[];
+      total: number;
+      nextCursor?: string;
+    };
+    expect(page.total).toBe(2);
+    expect(page.events).toHaveLength(1);
+    expect(page.events[0]).toMatchObject({ eventId: 'evt-flood-kampung-baru', distanceKm: expect.any(Number) });
+    expect(textOf(first)).toContain('1 of 2 matching events');
+
+    const second = await callTool('search_events', {
+      near: { lat: 3.16, lon: 101.72, radiusKm: 5 },
+      limit: 1,
+      cursor: page.nextCursor,
+    });
+    expect(second.structuredContent).toMatchObject({ events: [{ eventId: 'evt-landslide-ampang' }], returned: 1 });
+    expect((second.structuredContent as { nextCursor?: string }).nextCursor).toBeUndefined();
+  });
+
+  test('search_events combines severity, trust, time and keyword filters', async () => {
+    const result = await callTool('search_events', {
+      minSeverity: 50,
+      minTrust: 50,
+      since: '2026-10-01T07:00:00Z',
+      q: 'flood',
+      detail: 'full',
+    });
+    expect(result.structuredContent).toMatchObject({
+      total: 1,
+      events: [{ eventId: 'evt-flood-klang', text: expect.any(String) }],
+    });
+    expect(backend.requestsTo('GET', '/events')[0].search).toContain('minSeverity=50');
+  });
+
+  test('get_event returns the full record', async () => {
+    const result = await callTool('get_event', { eventId: 'evt-flood-kampung-baru' });
+    expect(result.structuredContent).toMatchObject({
+      event: { eventId: 'evt-flood-kampung-baru', corroboratingEventIds: ['evt-flood-kampung-baru-2'] },
+    });
+  });
+
+  test('get_event returns a duplicate report the default list hides', async () => {
+    const result = await callTool('get_event', { eventId: 'evt-flood-kampung-baru-2' });
+    expect(result.structuredContent).toMatchObject({
+      event: { eventId: 'evt-flood-kampung-baru-2', duplicateOf: 'evt-flood-kampung-baru' },
+    });
+    expect(backend.requestsTo('GET', '/events')[0].search).toBe('?includeDuplicates=true');
+  });
+
+  test('search_events forwards includeDuplicates to the backend', async () => {
+    const result = await callTool('search_events', { q: 'Raja Muda', includeDuplicates: true });
+    expect(result.structuredContent).toMatchObject({ total: 1, events: [{ eventId: 'evt-flood-kampung-baru-2' }] });
+    expect(backend.requestsTo('GET', '/events')[0].search).toContain('includeDuplicates=true');
+  });
+
+  test('export_events serialises the filtered events', async () => {
+    const result = await callTool('export_events', { format: 'csv', minSeverity: 70 });
+    expect(result.structuredContent).toMatchObject({
+      format: 'csv',
+      count: 2,
+      total: 2,
+      truncated: false,
+      contentType: expect.stringContaining('text/csv'),
+    });
+    expect(textOf(result)).toContain('evt-flood-klang');
+  });
+
+  test('import_events validates rows and ingests the good ones', async () => {
+    const content = 'text,lat,lon\nTree down across the road,3.1,101.6\nx,95,101.6\n';
+    const result = await callTool('import_events', { format: 'csv', content });
+    expect(result.structuredContent).toMatchObject({ total: 2, imported: 1 });
+    expect(backend.requestsTo('POST', '/ingest')).toHaveLength(1);
+  });
+
+  test('simulate_replay starts the replay', async () => {
+    const result = await callTool('simulate_replay');
+    expect(result.structuredContent).toEqual({ started: true, count: 5 });
+  });
+});
+
+describe('error mapping', () => {
+  test('backend 4xx responses are not retryable and carry the backend message', async () => {
+    const error = toolError(await callTool('explain_event', { eventId: 'missing' }));
+    expect(error).toEqual({
+      code: 'backend_error',
+      message: 'GET /events/missing/explain failed with 404',
+      status: 404,
+      backendMessage: 'Event missing not found',
+      retryable: false,
+    });
+  });
+
+  test('backend 5xx and 429 responses are retryable', async () => {
+    backend.respondOnce('POST', '/routes/alt', 503, 'upstream unavailable');
+    expect(toolError(await callTool('alt_route'))).toMatchObject({
+      status: 503,
+      backendMessage: 'upstream unavailable',
+      retryable: true,
+    });
+
+    backend.respondOnce('POST', '/ingest', 429, { message: 'Slow down' });
+    expect(toolError(await callTool('ingest_event', { text: 'Flooded underpass' }))).toMatchObject({
+      status: 429,
+      backendMessage: 'Slow down',
+      retryable: true,
+    });
+  });
+
+  test('responses outside the contract are reported as invalid_response', async () => {
+    backend.respondOnce('GET', '/events', 200, { events: [{ text: 'missing an id' }] });
+    const error = toolError(await callTool('list_events'));
+    expect(error).toMatchObject({ code: 'invalid_response', status: 200, retryable: false });
+    expect(error.backendMessage).toContain('eventId');
+  });
+
+  test('local argument errors map to invalid_arguments', async () => {
+    expect(toolError(await callTool('export_events', { bbox: 'nowhere' }))).toMatchObject({
+      code: 'invalid_arguments',
+      status: 400,
+      retryable: false,
+    });
+    expect(toolError(await callTool('search_events', { until: 'next week' }))).toMatchObject({
+      code: 'invalid_arguments',
+    });
+  });
+
+  test('unknown events map to not_found', async () => {
+    expect(toolError(await callTool('get_event', { eventId: 'missing' }))).toMatchObject({
+      code: 'not_found',
+      status: 404,
+    });
+  });
+
+  test(
+    'an unreachable backend is retryable',
+    async () => {
+      const offline = new MockBackend().start();
+      const apiBase = offline.url;
+      offline.stop();
+      const offlineClient = await connectClient(apiBase);
+      try {
+        const result = (await offlineClient.callTool({ name: 'list_geofences', arguments: {} })) as CallToolResult;
+        expect(toolError(result)).toMatchObject({ code: 'backend_unreachable', retryable: true });
+      } finally {
+        await offlineClient.close();
+      }
+    },
+    STARTUP_TIMEOUT_MS
+  );
+});
+
+describe('prompts', () => {
+  test('triage_critical_events limits open events, not all critical ones', async () => {
+    backend.events.push({
+      eventId: 'evt-resolved-critical',
+      text: 'Bridge collapse on Federal Highway, all casualties recovered',
+      lat: 3.07,
+      lon: 101.6,
+      createdAt: Date.parse('2026-10-01T12:00:00Z'),
+      severity: 95,
+      trust: 90,
+      status: 'resolved',
+    });
+    const prompt = await client.getPrompt({ name: 'triage_critical_events', arguments: { limit: '1' } });
+    expect(prompt.description).toBe('1 open event to triage');
+    const [, attached] = prompt.messages;
+    expect(attached.content).toMatchObject({
+      type: 'resource',
+      resource: { uri: expect.stringContaining('evt-flood-klang') },
+    });
+  });
+});
+
+describe('offline routing fallback', () => {
+  let routingClient: Client;
+
+  async function planRoute(args: Record<string, unknown>) {
+    return (await routingClient.callTool({ name: 'alt_route', arguments: args })) as CallToolResult;
+  }
+
+  beforeAll(async () => {
+    routingClient = await connectClient(backend.url, { SAR_ROAD_NETWORK_FILE: ROAD_NETWORK_FILE });
+    await routingClient.listTools();
+  }, STARTUP_TIMEOUT_MS);
+
+  afterAll(async () => {
+    await routingClient?.close();
+  });
+
+  test('backend routes are used while the backend is up', async () => {
+    const result = await planRoute({ originLat: 3.038, originLon: 101.42, destLat: 3.038, destLon: 101.472 });
+    expect(result.structuredContent).toMatchObject({ distanceKm: 12.5, engine: 'backend' });
+  });
+
+  test('a backend outage falls back to the road graph, detouring around the flood', async () => {
+    backend.respondOnce('POST', '/routes/alt', 503, 'upstream unavailable');
+    const result = await planRoute({ originLat: 3.038, originLon: 101.42, destLat: 3.038, destLon: 101.472 });
+    const response = result.structuredContent as { engine: string; routes: Array<Record<string, unknown>> };
+
+    expect(response).toMatchObject({ engine: 'offline', crossesHazard: false });
+    expect(response.routes).toHaveLength(2);
+    for (const route of response.routes) {
+      expect(route).toMatchObject({ crossesHazard: false, distanceKm: expect.any(Number) });
+      const path = decodeGooglePolyline(route.polyline as string);
+      expect(path[0]).toEqual([expect.closeTo(3.038, 5), expect.closeTo(101.42, 5)]);
+      expect(path.at(-1)).toEqual([expect.closeTo(3.038, 5), expect.closeTo(101.472, 5)]);
+    }
+  });
+
+  test('shortest ignores road speeds and takes the direct road when nothing blocks it', async () => {
+    backend.respondOnce('POST', '/routes/alt', 503, 'upstream unavailable');
+    const result = await planRoute({
+      originLat: 3.038,
+      originLon: 101.42,
+      destLat: 3.038,
+      destLon: 101.472,
+      avoidHazards: false,
+      optimize: 'shortest',
+    });
+    expect(result.structuredContent).toMatchObject({ engine: 'offline', distanceKm: 5.77 });
+  });
+
+  test('requests the backend rejected are not retried offline', async () => {
+    backend.respondOnce('POST', '/routes/alt', 400, { message: 'Bad coordinates' });
+    expect(toolError(await planRoute({}))).toMatchObject({ code: 'backend_error', status: 400 });
+  });
+
+  test('points far from any mapped road are rejected', async () => {
+    backend.respondOnce('POST', '/routes/alt', 503, 'upstream unavailable');
+    const error = toolError(await planRoute({ originLat: 3.038, originLon: 101.42, destLat: 3.5, destLon: 101.9 }));
+    expect(error).toMatchObject({ code: 'invalid_arguments', status: 422 });
+    expect(error.message).toContain('Destination is');
+  });
+});
@@ -0,0 +1,208 @@
+import type { Server } from 'bun';
+
+import type { Geofence, IngestEventRequest, SarEvent } from '@/types/sar';
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  search: string;
+  body: unknown;
+}
+
+interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+// Reports spread around Klang Valley, newest last, so paging and geo filters have something to bite on.
+const SEED_EVENTS: SarEvent[] = [
+  {
+    eventId: 'evt-flood-klang',
+    text: 'Flash flood near Klang river, cars stranded on Jalan Kota',
+    lat: 3.038,
+    lon: 101.446,
+    createdAt: Date.parse('2026-10-01T08:00:00Z'),
+    severity: 90,
+    trust: 80,
+    status: 'reported',
+  },
+  {
+    eventId: 'evt-landslide-ampang',
+    text: 'Landslide behind apartment block in Ampang, residents evacuating',
+    lat: 3.15,
+    lon: 101.76,
+    createdAt: Date.parse('2026-10-01T09:00:00Z'),
+    severity: 75,
+    trust: 60,
+    status: 'dispatched',
+  },
+  {
+    eventId: 'evt-flood-kampung-baru',
+    text: 'Minor flooding reported near Kampung Baru, roads still passable',
+    lat: 3.165,
+    lon: 101.701,
+    createdAt: Date.parse('2026-10-01T10:00:00Z'),
+    severity: 30,
+    trust: 70,
+    status: 'reported',
+    corroboratingEventIds: ['evt-flood-kampung-baru-2'],
+  },
+  {
+    eventId: 'evt-flood-kampung-baru-2',
+    text: 'Water rising on Jalan Raja Muda Musa',
+    lat: 3.166,
+    lon: 101.702,
+    createdAt: Date.parse('2026-10-01T10:05:00Z'),
+    severity: 30,
+    trust: 40,
+    duplicateOf: 'evt-flood-kampung-baru',
+  },
+  {
+    eventId: 'evt-fire-no-location',
+    text: 'Smoke reported from a warehouse, location unclear',
+    createdAt: Date.parse('2026-10-01T11:00:00Z'),
+    severity: 55,
+    trust: 35,
+    status: 'triaged',
+  },
+];
+
+// A stand-in for the API Gateway backend: serves the `/events`, `/ingest`, routing and geofence
+// contracts from memory, records every request, and can be told to fail the next call to a route.
+export class MockBackend {
+  readonly requests: RecordedRequest[] = [];
+  events: SarEvent[] = [];
+  private geofences = new Map<string, Geofence>();
+  private overrides = new Map<string, MockResponse[]>();
+  private nextId = 1;
+  private server: Server<undefined> | null = null;
+
+  get url() {
+    if (!this.server) {
+      throw new Error('Mock backend is not running');
+    }
+    return `http://127.0.0.1:${this.server.port}/`;
+  }
+
+  start() {
+    this.server = Bun.serve({ hostname: '127.0.0.1', port: 0, fetch: (request) => this.handle(request) });
+    this.reset();
+    return this;
+  }
+
+  stop() {
+    void this.server?.stop(true);
+    this.server = null;
+  }
+
+  reset() {
+    this.requests.length = 0;
+    this.events = SEED_EVENTS.map((event) => ({ ...event }));
+    this.geofences.clear();
+    this.overrides.clear();
+    this.nextId = 1;
+  }
+
+  // Queue a canned response for the next `method path` request, e.g. respondOnce('GET', '/events', 503, ...).
+  respondOnce(method: string, path: string, status: number, body: unknown) {
+    const key = `${method} ${path}`;
+    this.overrides.set(key, [...(this.overrides.get(key) ?? []), { status, body }]);
+  }
+
+  requestsTo(method: string, path: string) {
+    return this.requests.filter((request) => request.method === method && request.path === path);
+  }
+
+  private async handle(request: Request) {
+    const url = new URL(request.url);
+    const method = request.method.toUpperCase();
+    const text = await request.text();
+    const body = text ? (JSON.parse(text) as unknown) : undefined;
+    this.requests.push({ method, path: url.pathname, search: url.search, body });
+
+    const override = this.overrides.get(`${method} ${url.pathname}`)?.shift();
+    if (override) {
+      return typeof override.body === 'string'
+        ? new Response(override.body, { status: override.status })
+        : Response.json(override.body, { status: override.status });
+    }
+
+    const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const route = `${method} ${segments[0] ?? ''}`;
+
+    if (route === 'GET events' && segments.length === 1) {
+      // Like the local backend, duplicate reports are folded away unless asked for.
+      const includeDuplicates = url.searchParams.get('includeDuplicates') === 'true';
+      const events = this.events.filter((event) => includeDuplicates || !event.duplicateOf);
+      return Response.json({ events: [...events].reverse() });
+    }
+    if (route === 'GET events' && segments[2] === 'explain') {
+      const event = this.events.find((candidate) => candidate.eventId === segments[1]);
+      if (!event) {
+        return Response.json({ message: `Event ${segments[1]} not found` }, { status: 404 });
+      }
+      return Response.json({
+        eventId: event.eventId,
+        rationale: `Mock rationale for ${event.eventId}`,
+        cues: ['flood'],
+        trustScore: event.trust,
+      });
+    }
+    if (route === 'POST ingest') {
+      const input = body as IngestEventRequest;
+      const eventId = `evt-new-${this.nextId++}`;
+      this.events.push({ ...input, eventId, createdAt: Date.now(), severity: 50, trust: 50, status: 'reported' });
+      return Response.json({ eventId });
+    }
+    if (route === 'POST routes' && segments[1] === 'alt') {
+      return Response.json({ distanceKm: 12.5, etaMin: 21, polyline: '_p~iF~ps|U', legs: [{ distanceMeters: 12500 }] });
+    }
+    if (route === 'POST alerts' && segments[1] === 'geofence') {
+      return Response.json({ delivered: 2 });
+    }
+    if (segments[0] === 'geofences') {
+      return this.handleGeofences(method, segments.slice(1), body);
+    }
+    if (route === 'POST simulate' && segments[1] === 'replay') {
+      return Response.json({ started: true, count: SEED_EVENTS.length });
+    }
+    return Response.json({ message: `No mock handler for ${method} ${url.pathname}` }, { status: 404 });
+  }
+
+  private handleGeofences(method: string, [geofenceId, child]: string[], body: unknown) {
+    if (!geofenceId) {
+      if (method === 'GET') {
+        return Response.json({ geofences: [...this.geofences.values()] });
+      }
+      const now = Date.now();
+      const input = body as Pick<Geofence, 'name' | 'area'> & Partial<Geofence>;
+      const geofence: Geofence = {
+        geofenceId: `gf-${this.nextId++}`,
+        name: input.name,
+        area: input.area,
+        minSeverity: input.minSeverity ?? 60,
+        active: input.active ?? true,
+        createdAt: now,
+        updatedAt: now,
+        hitCount: 0,
+      };
+      this.geofences.set(geofence.geofenceId, geofence);
+      return Response.json({ geofence });
+    }
+
+    const geofence = this.geofences.get(geofenceId);
+    if (!geofence) {
+      return Response.json({ message: `Geofence ${geofenceId} not found` }, { status: 404 });
+    }
+    if (child === 'alerts') {
+      return Response.json({ alerts: [] });
+    }
+    if (method === 'DELETE') {
+      this.geofences.delete(geofenceId);
+      return Response.json({ geofenceId, deleted: true });
+    }
+    const updated: Geofence = { ...geofence, ...(body as Partial<Geofence>), geofenceId, updatedAt: Date.now() };
+    this.geofences.set(geofenceId, updated);
+    return Response.json({ geofence: updated });
+  }
+}
@@ -1,18 +1,23 @@
 import { NextResponse } from "next/server";
 
 import { callBackendJson } from "@/lib/server-api";
-import { backendErrorResponse } from "@/lib/api-route-helpers";
-import type { GeofenceRequest, GeofenceResponse } from "@/types/sar";
+import { backendErrorResponse, readJsonBody } from "@/lib/api-route-helpers";
+import { forwardIdempotencyKey, withIdempotency } from "@/lib/idempotency";
+import { geofenceRequestSchema } from "@/lib/sar-contracts";
+import type { GeofenceResponse } from "@/types/sar";
 
 export async function POST(request: Request) {
   try {
-    const payload = (await request.json()) as GeofenceRequest;
-    const data = await callBackendJson<GeofenceResponse>("alerts/geofence", {
-      method: "POST",
-      body: JSON.stringify(payload),
-    });
+    const payload = await readJsonBody(request, geofenceRequestSchema);
+    return await withIdempotency(request, "alerts/geofence", payload, async () => {
+      const data = await callBackendJson<GeofenceResponse>("alerts/geofence", {
+        method: "POST",
+        body: JSON.stringify(payload),
+        headers: forwardIdempotencyKey(request),
+      });
 
-    return NextResponse.json(data);
+      return NextResponse.json(data);
+    });
   } catch (error) {
     return backendErrorResponse(error, "Failed to set geofence alert");
   }
@@ -1,13 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import { callBackendJson } from "@/lib/server-api";
-import { backendErrorResponse } from "@/lib/api-route-helpers";
-import type { ExplainEventResponse } from "@/types/sar";
+import { backendErrorResponse, readParams } from "@/lib/api-route-helpers";
+import { getCachedExplanation } from "@/lib/backend-cache";
+import { eventParamsSchema } from "@/lib/sar-contracts";
 
 export async function GET(_: NextRequest, context: { params: Promise<{ eventId: string }> }) {
   try {
-    const { eventId } = await context.params;
-    const data = await callBackendJson<ExplainEventResponse>(`events/${encodeURIComponent(eventId)}/explain`);
+    const { eventId } = await readParams(context.params, eventParamsSchema);
+    const data = await getCachedExplanation(eventId);
     return NextResponse.json(data);
   } catch (error) {
     return backendErrorResponse(error, "Failed to fetch event explanation");
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { assertBackendPathSupported, callBackendJson } from "@/lib/server-api";
+import { backendErrorResponse, problemResponse, readJsonBody, readParams } from "@/lib/api-route-helpers";
+import { invalidateEventCache } from "@/lib/backend-cache";
+import { refreshEventStream } from "@/lib/event-stream";
+import { eventParamsSchema, transitionEventStatusRequestSchema } from "@/lib/sar-contracts";
+import type { TransitionEventStatusResponse } from "@/types/sar";
+
+export async function POST(request: NextRequest, context: { params: Promise<{ eventId: string }> }) {
+  try {
+    const { eventId } = await readParams(context.params, eventParamsSchema);
+    // Only the local backend stores status changes; against AWS this answers 501 up front.
+    const path = `events/${encodeURIComponent(eventId)}/status`;
+    assertBackendPathSupported(path);
+    const payload = await readJsonBody(request, transitionEventStatusRequestSchema);
+
+    const actor = payload.actor.trim();
+    if (!actor) {
+      return problemResponse(400, "Invalid request", {
+        detail: "Provide who is making the change",
+        errors: [{ path: "actor", message: "Provide who is making the change" }],
+      });
+    }
+
+    // The backend checks the lifecycle rules inside its write and answers 404 or 409 itself.
+    const data = await callBackendJson<TransitionEventStatusResponse>(path, {
+      method: "POST",
+      body: JSON.stringify({ status: payload.status, actor, note: payload.note?.trim() || undefined }),
+    });
+    invalidateEventCache();
+    void refreshEventStream();
+
+    return NextResponse.json(data);
+  } catch (error) {
+    return backendErrorResponse(error, "Failed to update incident status");
+  }
+}
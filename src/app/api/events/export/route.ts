@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { backendErrorResponse, problemResponse } from "@/lib/api-route-helpers";
+import { getCachedEvents } from "@/lib/backend-cache";
+import { BACKEND_EVENT_FILTERS, EventQueryError, parseListEventsParams, queryEvents, serializeListEventsParams } from "@/lib/event-query";
+import {
+  EVENT_EXPORT_FORMATS,
+  MAX_EXPORT_EVENTS,
+  getExportFilename,
+  isEventExportFormat,
+  serializeEvents,
+} from "@/lib/event-export";
+import type { ListEventsParams } from "@/types/sar";
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const format = searchParams.get("format") ?? "geojson";
+  if (!isEventExportFormat(format)) {
+    const detail = `format must be one of ${Object.keys(EVENT_EXPORT_FORMATS).join(", ")}`;
+    return problemResponse(400, "Invalid request", { detail, errors: [{ path: "format", message: detail }] });
+  }
+
+  let params: ListEventsParams;
+  try {
+    params = parseListEventsParams(searchParams);
+  } catch (error) {
+    if (error instanceof EventQueryError) {
+      return problemResponse(400, "Invalid request", { detail: error.message });
+    }
+    throw error;
+  }
+
+  try {
+    const serialized = serializeListEventsParams(params);
+    const backendParams = Object.fromEntries(BACKEND_EVENT_FILTERS.map((key) => [key, serialized[key]]));
+    const data = await getCachedEvents(backendParams);
+    // Exports cover every matching event, not the page the caller happens to be looking at.
+    const { events, total } = queryEvents(data.events, { ...params, cursor: undefined, limit: MAX_EXPORT_EVENTS });
+
+    const generatedAt = Date.now();
+    const body = serializeEvents(events, format, {
+      baseUrl: request.nextUrl.origin,
+      sender: process.env.SAR_CAP_SENDER,
+      generatedAt,
+    });
+
+    return new NextResponse(body, {
+      headers: {
+        "content-type": EVENT_EXPORT_FORMATS[format].contentType,
+        "content-disposition": `attachment; filename="${getExportFilename(format, generatedAt)}"`,
+        // Every match, even past the export cap, so callers can tell the file was truncated.
+        "x-total-count": String(total ?? events.length),
+      },
+    });
+  } catch (error) {
+    return backendErrorResponse(error, "Failed to export events");
+  }
+}
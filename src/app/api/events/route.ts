@@ -1,13 +1,27 @@
-import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
 
-import { callBackendJson } from "@/lib/server-api";
-import { backendErrorResponse } from "@/lib/api-route-helpers";
-import type { ListEventsResponse } from "@/types/sar";
+import { backendErrorResponse, jsonWithETag, problemResponse } from "@/lib/api-route-helpers";
+import { getCachedEvents } from "@/lib/backend-cache";
+import { BACKEND_EVENT_FILTERS, EventQueryError, parseListEventsParams, queryEvents, serializeListEventsParams } from "@/lib/event-query";
+import type { ListEventsParams } from "@/types/sar";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  let params: ListEventsParams;
   try {
-    const data = await callBackendJson<ListEventsResponse>("events");
-    return NextResponse.json(data);
+    params = parseListEventsParams(request.nextUrl.searchParams);
+  } catch (error) {
+    if (error instanceof EventQueryError) {
+      return problemResponse(400, "Invalid request", { detail: error.message });
+    }
+    throw error;
+  }
+
+  try {
+    // Let the backend narrow the scan where it can; sorting and paging happen here.
+    const serialized = serializeListEventsParams(params);
+    const searchParams = Object.fromEntries(BACKEND_EVENT_FILTERS.map((key) => [key, serialized[key]]));
+    const data = await getCachedEvents(searchParams);
+    return jsonWithETag(request, queryEvents(data.events, params));
   } catch (error) {
     return backendErrorResponse(error, "Failed to load events");
   }
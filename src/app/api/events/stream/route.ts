@@ -0,0 +1,54 @@
+import { subscribeToEventStream } from "@/lib/event-stream";
+import type { EventStreamMessages } from "@/types/sar";
+
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+export async function GET(request: Request) {
+  const encoder = new TextEncoder();
+  let close = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          close();
+        }
+      };
+
+      const unsubscribe = subscribeToEventStream(
+        <K extends keyof EventStreamMessages>(type: K, payload: EventStreamMessages[K]) => {
+          write(`event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`);
+        },
+      );
+      const heartbeat = setInterval(() => write(": keep-alive\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      close = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client disconnecting.
+        }
+      };
+
+      write("retry: 5000\n\n");
+      request.signal.addEventListener("abort", () => close());
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "content-type": "text/event-stream; charset=utf-8",
+      "cache-control": "no-cache, no-transform",
+      connection: "keep-alive",
+    },
+  });
+}
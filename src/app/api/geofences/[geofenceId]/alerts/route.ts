@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { callBackendJson } from "@/lib/server-api";
+import { backendErrorResponse, readParams } from "@/lib/api-route-helpers";
+import { geofenceParamsSchema } from "@/lib/sar-contracts";
+import type { ListGeofenceAlertsResponse } from "@/types/sar";
+
+export async function GET(_: NextRequest, context: { params: Promise<{ geofenceId: string }> }) {
+  try {
+    const { geofenceId } = await readParams(context.params, geofenceParamsSchema);
+    const data = await callBackendJson<ListGeofenceAlertsResponse>(`geofences/${encodeURIComponent(geofenceId)}/alerts`);
+    return NextResponse.json(data);
+  } catch (error) {
+    return backendErrorResponse(error, "Failed to load geofence alerts");
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { callBackendJson } from "@/lib/server-api";
+import { backendErrorResponse, readJsonBody, readParams } from "@/lib/api-route-helpers";
+import { geofenceParamsSchema, updateGeofenceRequestSchema } from "@/lib/sar-contracts";
+import type { DeleteGeofenceResponse, SaveGeofenceResponse } from "@/types/sar";
+
+export async function PATCH(request: NextRequest, context: { params: Promise<{ geofenceId: string }> }) {
+  try {
+    const { geofenceId } = await readParams(context.params, geofenceParamsSchema);
+    const payload = await readJsonBody(request, updateGeofenceRequestSchema);
+    const data = await callBackendJson<SaveGeofenceResponse>(`geofences/${encodeURIComponent(geofenceId)}`, {
+      method: "PATCH",
+      body: JSON.stringify(payload),
+    });
+
+    return NextResponse.json(data);
+  } catch (error) {
+    return backendErrorResponse(error, "Failed to update geofence");
+  }
+}
+
+export async function DELETE(_: NextRequest, context: { params: Promise<{ geofenceId: string }> }) {
+  try {
+    const { geofenceId } = await readParams(context.params, geofenceParamsSchema);
+    const data = await callBackendJson<DeleteGeofenceResponse>(`geofences/${encodeURIComponent(geofenceId)}`, {
+      method: "DELETE",
+    });
+    return NextResponse.json(data);
+  } catch (error) {
+    return backendErrorResponse(error, "Failed to delete geofence");
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+
+import { callBackendJson } from "@/lib/server-api";
+import { backendErrorResponse, readJsonBody } from "@/lib/api-route-helpers";
+import { createGeofenceRequestSchema } from "@/lib/sar-contracts";
+import type { ListGeofencesResponse, SaveGeofenceResponse } from "@/types/sar";
+
+export async function GET() {
+  try {
+    const data = await callBackendJson<ListGeofencesResponse>("geofences");
+    return NextResponse.json(data);
+  } catch (error) {
+    return backendErrorResponse(error, "Failed to load geofences");
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const payload = await readJsonBody(request, createGeofenceRequestSchema);
+    const data = await callBackendJson<SaveGeofenceResponse>("geofences", {
+      method: "POST",
+      body: JSON.stringify(payload),
+    });
+
+    return NextResponse.json(data, { status: 201 });
+  } catch (error) {
+    return backendErrorResponse(error, "Failed to create geofence");
+  }
+}
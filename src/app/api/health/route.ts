@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+
+import { getBackendHealth } from "@/lib/server-api";
+
+export const dynamic = "force-dynamic";
+
+// Reports this server's view of the backend without calling it, so polling never trips the breaker.
+export function GET() {
+  return NextResponse.json(getBackendHealth());
+}
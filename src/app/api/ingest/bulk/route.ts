@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+
+import { callBackendJson } from "@/lib/server-api";
+import { backendErrorResponse, problemResponse, readJsonBody } from "@/lib/api-route-helpers";
+import { invalidateEventCache } from "@/lib/backend-cache";
+import { refreshEventStream } from "@/lib/event-stream";
+import {
+  EventImportError,
+  parseImport,
+  runBulkImport,
+  validateImportCandidates,
+} from "@/lib/event-import";
+import { bulkImportRequestSchema } from "@/lib/sar-contracts";
+import type { IngestEventRequest, IngestEventResponse } from "@/types/sar";
+
+export async function POST(request: Request) {
+  try {
+    const payload = await readJsonBody(request, bulkImportRequestSchema);
+
+    const rows = validateImportCandidates(parseImport(payload.content, payload.format, payload.mapping));
+    const ingest = payload.dryRun
+      ? null
+      : (event: IngestEventRequest) =>
+          callBackendJson<IngestEventResponse>("ingest", { method: "POST", body: JSON.stringify(event) });
+    const data = await runBulkImport(payload.format, rows, ingest);
+    if (data.imported > 0) {
+      invalidateEventCache();
+      void refreshEventStream();
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    if (error instanceof EventImportError) {
+      return problemResponse(400, "Invalid request", { detail: error.message });
+    }
+    return backendErrorResponse(error, "Failed to import events");
+  }
+}
@@ -1,18 +1,27 @@
 import { NextResponse } from "next/server";
 
 import { callBackendJson } from "@/lib/server-api";
-import { backendErrorResponse } from "@/lib/api-route-helpers";
-import type { IngestEventRequest, IngestEventResponse } from "@/types/sar";
+import { backendErrorResponse, readJsonBody } from "@/lib/api-route-helpers";
+import { invalidateEventCache } from "@/lib/backend-cache";
+import { refreshEventStream } from "@/lib/event-stream";
+import { forwardIdempotencyKey, withIdempotency } from "@/lib/idempotency";
+import { ingestEventRequestSchema } from "@/lib/sar-contracts";
+import type { IngestEventResponse } from "@/types/sar";
 
 export async function POST(request: Request) {
   try {
-    const payload = (await request.json()) as IngestEventRequest;
-    const data = await callBackendJson<IngestEventResponse>("ingest", {
-      method: "POST",
-      body: JSON.stringify(payload),
-    });
+    const payload = await readJsonBody(request, ingestEventRequestSchema);
+    return await withIdempotency(request, "ingest", payload, async () => {
+      const data = await callBackendJson<IngestEventResponse>("ingest", {
+        method: "POST",
+        body: JSON.stringify(payload),
+        headers: forwardIdempotencyKey(request),
+      });
+      invalidateEventCache();
+      void refreshEventStream();
 
-    return NextResponse.json(data);
+      return NextResponse.json(data);
+    });
   } catch (error) {
     return backendErrorResponse(error, "Failed to ingest event");
   }
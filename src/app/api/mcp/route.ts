@@ -0,0 +1,25 @@
+import { problemResponse } from "@/lib/api-route-helpers";
+
+import { type McpHttpHandler, createMcpHttpHandler } from "../../../../mcp/http-sessions";
+import { API_BASE, USE_LOCAL_BACKEND } from "../../../../mcp/sar-server";
+
+export const dynamic = "force-dynamic";
+
+// Route handlers can be bundled separately in dev, so keep a single set of sessions per process.
+const globalForMcp = globalThis as typeof globalThis & { __sarMcpHandler?: McpHttpHandler };
+
+// The same Streamable HTTP endpoint as `bun run mcp:http`, served from the dashboard's origin.
+async function handle(request: Request) {
+  if (!API_BASE && !USE_LOCAL_BACKEND) {
+    return problemResponse(503, "MCP endpoint is not configured", {
+      detail: "Set SAR_API_BASE (or API_BASE), or SAR_BACKEND_MODE=local",
+    });
+  }
+  globalForMcp.__sarMcpHandler ??= createMcpHttpHandler({
+    authToken: process.env.MCP_AUTH_TOKEN,
+    idleMs: Number(process.env.MCP_SESSION_IDLE_MS ?? 30 * 60_000),
+  });
+  return globalForMcp.__sarMcpHandler.handle(request);
+}
+
+export { handle as DELETE, handle as GET, handle as POST };
@@ -1,19 +1,28 @@
 import { NextResponse } from "next/server";
 
-import { callBackendJson } from "@/lib/server-api";
-import { backendErrorResponse } from "@/lib/api-route-helpers";
-import type { AltRouteRequest, AltRouteResponse } from "@/types/sar";
+import { backendErrorResponse, problemResponse, readJsonBody } from "@/lib/api-route-helpers";
+import { OfflineRoutingError } from "@/lib/road-routing";
+import { rankRoutesByHazard } from "@/lib/route-hazards";
+import { loadHazardAreas, planRoute } from "@/lib/route-service";
+import { altRouteRequestSchema } from "@/lib/sar-contracts";
 
 export async function POST(request: Request) {
   try {
-    const payload = (await request.json()) as AltRouteRequest;
-    const data = await callBackendJson<AltRouteResponse>("routes/alt", {
-      method: "POST",
-      body: JSON.stringify(payload),
-    });
+    const payload = await readJsonBody(request, altRouteRequestSchema);
+    const origin = { lat: payload.originLat, lon: payload.originLon };
+    const destination = { lat: payload.destLat, lon: payload.destLon };
+    const avoidAreas = [
+      ...(payload.avoidAreas ?? []),
+      ...(payload.avoidHazards === false ? [] : await loadHazardAreas([origin, destination])),
+    ];
 
-    return NextResponse.json(data);
+    const data = await planRoute({ ...payload, avoidAreas });
+
+    return NextResponse.json(rankRoutesByHazard(data, avoidAreas, origin, destination));
   } catch (error) {
+    if (error instanceof OfflineRoutingError) {
+      return problemResponse(error.status, "Failed to fetch alternate route", { detail: error.message });
+    }
     return backendErrorResponse(error, "Failed to fetch alternate route");
   }
 }
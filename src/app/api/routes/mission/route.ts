@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+
+import { backendErrorResponse, problemResponse, readJsonBody } from "@/lib/api-route-helpers";
+import { planMissionRoute } from "@/lib/mission-planning";
+import { OfflineRoutingError } from "@/lib/road-routing";
+import { loadHazardAreas, planRoute } from "@/lib/route-service";
+import { missionRouteRequestSchema } from "@/lib/sar-contracts";
+
+// Planned here rather than by the backend: each leg is an ordinary `/routes/alt` request.
+export async function POST(request: Request) {
+  try {
+    const payload = await readJsonBody(request, missionRouteRequestSchema);
+    const waypoints = [{ lat: payload.startLat, lon: payload.startLon }, ...payload.stops];
+    const avoidAreas = payload.avoidHazards === false ? [] : await loadHazardAreas(waypoints);
+
+    const data = await planMissionRoute(payload, avoidAreas, planRoute);
+
+    return NextResponse.json(data);
+  } catch (error) {
+    if (error instanceof OfflineRoutingError) {
+      return problemResponse(error.status, "Failed to plan mission route", { detail: error.message });
+    }
+    return backendErrorResponse(error, "Failed to plan mission route");
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { callBackendJson } from "@/lib/server-api";
+import { backendErrorResponse, readParams } from "@/lib/api-route-helpers";
+import { savedRouteParamsSchema } from "@/lib/sar-contracts";
+import type { SavedRouteResponse } from "@/types/sar";
+
+export async function GET(_: NextRequest, context: { params: Promise<{ routeId: string }> }) {
+  try {
+    const { routeId } = await readParams(context.params, savedRouteParamsSchema);
+    const data = await callBackendJson<SavedRouteResponse>(`routes/saved/${encodeURIComponent(routeId)}`);
+    return NextResponse.json(data);
+  } catch (error) {
+    return backendErrorResponse(error, "Failed to load saved route");
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+
+import { callBackendJson } from "@/lib/server-api";
+import { backendErrorResponse, readJsonBody } from "@/lib/api-route-helpers";
+import { saveRouteRequestSchema } from "@/lib/sar-contracts";
+import type { SavedRouteResponse } from "@/types/sar";
+
+export async function POST(request: Request) {
+  try {
+    const payload = await readJsonBody(request, saveRouteRequestSchema);
+    const data = await callBackendJson<SavedRouteResponse>("routes/saved", {
+      method: "POST",
+      body: JSON.stringify(payload),
+    });
+
+    return NextResponse.json(data, { status: 201 });
+  } catch (error) {
+    return backendErrorResponse(error, "Failed to save route");
+  }
+}
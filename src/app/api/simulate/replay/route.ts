@@ -2,16 +2,24 @@ import { NextResponse } from "next/server";
 
 import { callBackendJson } from "@/lib/server-api";
 import { backendErrorResponse } from "@/lib/api-route-helpers";
+import { invalidateEventCache } from "@/lib/backend-cache";
+import { refreshEventStream } from "@/lib/event-stream";
+import { forwardIdempotencyKey, withIdempotency } from "@/lib/idempotency";
 import type { SimulateReplayResponse } from "@/types/sar";
 
-export async function POST() {
+export async function POST(request: Request) {
   try {
-    const data = await callBackendJson<SimulateReplayResponse>("simulate/replay", {
-      method: "POST",
-      body: JSON.stringify({}),
-    });
+    return await withIdempotency(request, "simulate/replay", {}, async () => {
+      const data = await callBackendJson<SimulateReplayResponse>("simulate/replay", {
+        method: "POST",
+        body: JSON.stringify({}),
+        headers: forwardIdempotencyKey(request),
+      });
+      invalidateEventCache();
+      void refreshEventStream();
 
-    return NextResponse.json(data);
+      return NextResponse.json(data);
+    });
   } catch (error) {
     return backendErrorResponse(error, "Failed to start replay simulation");
   }
@@ -2,16 +2,20 @@ import type { Metadata } from 'next';
 import Link from 'next/link';
 import { notFound } from 'next/navigation';
 import { Suspense } from 'react';
-import { ArrowLeft, Clock, MapPin, ShieldHalf, Waves, Sparkles } from 'lucide-react';
+import { ArrowLeft, Clock, Link2, MapPin, ShieldHalf, Waves, Sparkles, Users } from 'lucide-react';
 
 import { EventDetailMap } from '@/components/event-detail/event-map';
+import { StatusControl } from '@/components/event-detail/status-control';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import { getCachedEvents, getCachedExplanation } from '@/lib/backend-cache';
 import { formatCoordinate, formatEventTimestamp, formatTrustScore, getSeverityMeta } from '@/lib/event-utils';
-import { callBackendJson } from '@/lib/server-api';
-import type { ExplainEventResponse, ListEventsResponse, SarEvent } from '@/types/sar';
+import { haversineKm, hasCoordinates } from '@/lib/geo';
+import { INCIDENT_STATUS_META, getIncidentStatus } from '@/lib/incident-lifecycle';
+import { isBackendPathSupported } from '@/lib/server-api';
+import type { ExplainEventResponse, SarEvent } from '@/types/sar';
 
 interface EventDetailPageProps {
   params: Promise<{
@@ -32,16 +36,19 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
   const { eventId: rawId } = await params;
   const eventId = decodeURIComponent(rawId);
 
-  const eventsData = await callBackendJson<ListEventsResponse>('events');
+  // There is no single-event endpoint; the list is cached and shared with every other reader.
+  const eventsData = await getCachedEvents({ includeDuplicates: 'true' });
   const event = eventsData.events.find((record) => record.eventId === eventId);
 
   if (!event) {
     notFound();
   }
 
+  const corroborating = eventsData.events.filter((record) => record.duplicateOf === event.eventId);
+
   let explanation: ExplainEventResponse | null = null;
   try {
-    explanation = await callBackendJson<ExplainEventResponse>(`events/${encodeURIComponent(eventId)}/explain`);
+    explanation = await getCachedExplanation(eventId);
   } catch (error) {
     console.error('Failed to load explanation', error);
   }
@@ -63,7 +70,13 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
 
       <div className="grid gap-6 lg:grid-cols-[1fr_360px]">
         <section className="space-y-6">
+          {event.duplicateOf ? <DuplicateNotice event={event} /> : null}
           <EventSummaryCard event={event} />
+          {corroborating.length > 0 ? <CorroborationCard event={event} reports={corroborating} /> : null}
+          <StatusControl
+            event={event}
+            editable={isBackendPathSupported(`events/${encodeURIComponent(eventId)}/status`)}
+          />
           <RationaleCard explanation={explanation} />
           <TraceCard explanation={explanation} />
         </section>
@@ -80,14 +93,18 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
 
 function EventSummaryCard({ event }: { event: SarEvent }) {
   const severity = getSeverityMeta(event.severity);
+  const status = INCIDENT_STATUS_META[getIncidentStatus(event)];
 
   return (
     <Card className="border-primary/20">
       <CardHeader className="flex flex-row items-start justify-between gap-4">
         <div className="space-y-2">
-          <Badge className="rounded-full px-3 py-1 text-xs font-semibold" variant="outline">
-            {formatEventTimestamp(event)}
-          </Badge>
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge className="rounded-full px-3 py-1 text-xs font-semibold" variant="outline">
+              {formatEventTimestamp(event)}
+            </Badge>
+            <Badge className={`rounded-full px-3 py-1 text-xs font-semibold ${status.className}`}>{status.label}</Badge>
+          </div>
           <CardTitle className="text-2xl font-semibold leading-tight">{event.text}</CardTitle>
         </div>
         <div className="flex flex-col items-end gap-2">
@@ -120,6 +137,56 @@ function EventSummaryCard({ event }: { event: SarEvent }) {
   );
 }
 
+function DuplicateNotice({ event }: { event: SarEvent }) {
+  return (
+    <Card className="border-dashed">
+      <CardContent className="flex flex-wrap items-center justify-between gap-3 py-4 text-sm">
+        <span className="flex items-center gap-2 text-muted-foreground">
+          <Link2 className="h-4 w-4" />
+          Corroborating report, linked to an earlier incident
+          {typeof event.duplicateScore === 'number' ? ` (match ${Math.round(event.duplicateScore * 100)}%)` : ''}.
+        </span>
+        <Button size="sm" variant="outline" className="rounded-full text-xs" asChild>
+          <Link href={`/events/${event.duplicateOf}`}>Open incident {event.duplicateOf?.slice(0, 8)}</Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+function CorroborationCard({ event, reports }: { event: SarEvent; reports: SarEvent[] }) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2 text-lg font-semibold">
+          <Users className="h-4 w-4" /> {reports.length} corroborating report{reports.length === 1 ? '' : 's'}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-2 text-sm">
+          {reports.map((report) => (
+            <li key={report.eventId}>
+              <Link
+                href={`/events/${report.eventId}`}
+                className="block rounded-2xl border bg-muted/40 px-4 py-3 transition-colors hover:bg-muted"
+              >
+                <p className="line-clamp-2 text-foreground/90">{report.text}</p>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {formatEventTimestamp(report)}
+                  {hasCoordinates(event) && hasCoordinates(report)
+                    ? ` · ${haversineKm(event, report).toFixed(2)} km away`
+                    : ''}
+                  {typeof report.duplicateScore === 'number' ? ` · match ${Math.round(report.duplicateScore * 100)}%` : ''}
+                </p>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
+
 function RationaleCard({ explanation }: { explanation: ExplainEventResponse | null }) {
   if (!explanation) {
     return (
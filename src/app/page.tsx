@@ -1,9 +1,16 @@
 import { DashboardPage } from '@/components/dashboard/dashboard-page';
+import { SHARED_ROUTE_PARAM } from '@/lib/saved-routes';
+
+interface HomeProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function Home({ searchParams }: HomeProps) {
+  const sharedRouteId = (await searchParams)[SHARED_ROUTE_PARAM];
 
-export default function Home() {
   return (
     <main className="container mx-auto max-w-6xl space-y-8 py-10 lg:py-14">
-      <DashboardPage />
+      <DashboardPage sharedRouteId={typeof sharedRouteId === 'string' ? sharedRouteId : undefined} />
     </main>
   );
 }
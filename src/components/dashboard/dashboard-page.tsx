@@ -2,31 +2,101 @@
 
 import Link from 'next/link';
 import { useCallback, useEffect, useMemo, useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { toast } from 'sonner';
 import { Activity, Flame, MapPinned, ShieldCheck } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import { GeofenceRegistry } from '@/components/dashboard/geofence-registry';
+import type { ImportPreviewPoint } from '@/components/dashboard/import-dialog';
 import { MissionMap } from '@/components/dashboard/mission-map';
+import { MissionPlanner, type MissionPlanOverlay } from '@/components/dashboard/mission-planner';
 import { EventFeed } from '@/components/dashboard/event-feed';
-import { OperationsPanel, type RoutePlanPayload, type CoordinateSelectionRequest } from '@/components/dashboard/operations-panel';
+import {
+  OperationsPanel,
+  type CoordinateSelectionRequest,
+  type GeofenceOverlay,
+  type RouteOptionsPreview,
+  type RoutePlanPayload,
+} from '@/components/dashboard/operations-panel';
 import { ThemeToggle } from '@/components/theme-toggle';
+import { useEventStream, type EventStreamState } from '@/hooks/use-event-stream';
 import { queryKeys } from '@/lib/query-keys';
-import { getEvents } from '@/lib/api-client';
+import { getBackendHealth, getErrorMessage, getEvents, getSavedRoute } from '@/lib/api-client';
+import { getIncidentStatus, isIncidentOpen } from '@/lib/incident-lifecycle';
+import { hasCoordinates, type BoundingBox } from '@/lib/geo';
+import { MAX_MISSION_STOPS } from '@/lib/sar-contracts';
+import { SHARED_ROUTE_PARAM } from '@/lib/saved-routes';
 import { cn } from '@/lib/utils';
-import type { SarEvent } from '@/types/sar';
+import type { BackendHealthResponse, SarEvent } from '@/types/sar';
 
-export function DashboardPage() {
+const MAP_EVENT_LIMIT = 500;
+const MAX_GEOFENCE_OVERLAYS = 12;
+
+interface DashboardPageProps {
+  /** Saved route to re-open, from the `?route=` share link. */
+  sharedRouteId?: string;
+}
+
+export function DashboardPage({ sharedRouteId }: DashboardPageProps) {
   const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
-  const { data, error, isLoading, isFetching, refetch, dataUpdatedAt } = useQuery({
+  const streamState = useEventStream();
+  // The stream keeps the cache current; poll only while it is down.
+  const refetchInterval = streamState === 'live' ? false : 60_000;
+  const { data, error, isFetching, dataUpdatedAt } = useQuery({
     queryKey: queryKeys.events,
-    queryFn: getEvents,
-    refetchInterval: 60_000,
+    queryFn: () => getEvents(),
+    refetchInterval,
+  });
+
+  const { data: health } = useQuery({
+    queryKey: queryKeys.health,
+    queryFn: getBackendHealth,
+    refetchInterval: 15_000,
+  });
+  // Watched zones live only in the local backend; the AWS API would answer every registry call with 501.
+  const localBackend = health?.backend.mode === 'local';
+
+  const [viewport, setViewport] = useState<BoundingBox | null>(null);
+  const viewportQuery = useQuery({
+    queryKey: queryKeys.eventList({ bbox: viewport ?? undefined, limit: MAP_EVENT_LIMIT }),
+    queryFn: () => getEvents({ bbox: viewport ?? undefined, sort: 'severity', limit: MAP_EVENT_LIMIT }),
+    enabled: viewport !== null,
+    placeholderData: keepPreviousData,
+    refetchInterval,
   });
 
   const [routeOverlay, setRouteOverlay] = useState<RoutePlanPayload | null>(null);
+  const sharedRouteQuery = useQuery({
+    queryKey: queryKeys.savedRoute(sharedRouteId ?? ''),
+    queryFn: () => getSavedRoute(sharedRouteId!),
+    enabled: Boolean(sharedRouteId),
+    staleTime: Infinity,
+    retry: false,
+  });
+  const restoredRoute = useMemo<RoutePlanPayload | null>(() => {
+    const saved = sharedRouteQuery.data?.route;
+    return saved
+      ? {
+          origin: saved.origin,
+          destination: saved.destination,
+          summary: saved.summary,
+          avoidAreas: saved.avoidAreas,
+          engine: saved.engine,
+          savedRouteId: saved.routeId,
+        }
+      : null;
+  }, [sharedRouteQuery.data]);
+  const [routeOptions, setRouteOptions] = useState<RouteOptionsPreview | null>(null);
   const [coordinateRequest, setCoordinateRequest] = useState<CoordinateSelectionRequest | null>(null);
+  const [geofenceOverlays, setGeofenceOverlays] = useState<GeofenceOverlay[]>([]);
+  const [geofenceDraft, setGeofenceDraft] = useState<GeofenceOverlay | null>(null);
+  const [importPreview, setImportPreview] = useState<ImportPreviewPoint[]>([]);
+  const [missionStops, setMissionStops] = useState<SarEvent[]>([]);
+  const [missionPlan, setMissionPlan] = useState<MissionPlanOverlay | null>(null);
+  const missionStopIds = useMemo(() => missionStops.map((event) => event.eventId), [missionStops]);
   const events = useMemo(() => data?.events ?? [], [data?.events]);
 
   useEffect(() => {
@@ -42,22 +112,90 @@ export function DashboardPage() {
     }
   }, [events, selectedEventId]);
 
+  useEffect(() => {
+    if (restoredRoute) {
+      setRouteOverlay(restoredRoute);
+    }
+  }, [restoredRoute]);
+
+  useEffect(() => {
+    if (sharedRouteQuery.error) {
+      toast.error('Shared route could not be opened', { description: getErrorMessage(sharedRouteQuery.error) });
+      updateSharedRouteParam();
+    }
+  }, [sharedRouteQuery.error]);
+
+  const handleRoutePlanned = useCallback((plan: RoutePlanPayload) => {
+    setRouteOverlay(plan);
+    updateSharedRouteParam(plan.savedRouteId);
+  }, []);
+
   const metrics = useMemo(() => buildMetrics(events), [events]);
   const status = useMemo(() => buildStatus(events, {
     hasError: !!error,
     isFetching,
     updatedAt: dataUpdatedAt,
-  }), [events, error, isFetching, dataUpdatedAt]);
+    streamState,
+    health,
+  }), [events, error, isFetching, dataUpdatedAt, streamState, health]);
   const selectedEvent = events.find((event) => event.eventId === selectedEventId) ?? null;
+  const mapEvents = useMemo(() => {
+    const inView = viewportQuery.data?.events;
+    if (!inView) {
+      return events;
+    }
+    // Keep the spotlighted event plotted even after panning away from it.
+    return selectedEvent && !inView.some((event) => event.eventId === selectedEvent.eventId)
+      ? [...inView, selectedEvent]
+      : inView;
+  }, [viewportQuery.data?.events, events, selectedEvent]);
 
   const handleCoordinatePicked = useCallback(
     (coords: { lat: number; lon: number }) => {
-      coordinateRequest?.onSelect(coords);
+      coordinateRequest?.onSelect?.(coords);
+      if ((coordinateRequest?.mode ?? 'point') === 'point') {
+        setCoordinateRequest(null);
+      }
+    },
+    [coordinateRequest],
+  );
+
+  const handleShapeComplete = useCallback(
+    (points: Array<{ lat: number; lon: number }>) => {
+      coordinateRequest?.onComplete?.(points);
       setCoordinateRequest(null);
     },
     [coordinateRequest],
   );
 
+  // Any change to the stop list invalidates the planned order.
+  const toggleMissionStop = useCallback(
+    (event: SarEvent) => {
+      if (!hasCoordinates(event)) {
+        return;
+      }
+      if (missionStops.some((stop) => stop.eventId === event.eventId)) {
+        setMissionStops(missionStops.filter((stop) => stop.eventId !== event.eventId));
+      } else if (missionStops.length >= MAX_MISSION_STOPS) {
+        toast.warning(`A mission can visit at most ${MAX_MISSION_STOPS} stops`);
+        return;
+      } else {
+        setMissionStops([...missionStops, event]);
+      }
+      setMissionPlan(null);
+    },
+    [missionStops],
+  );
+
+  const removeMissionStop = useCallback((eventId: string) => {
+    setMissionStops((previous) => previous.filter((stop) => stop.eventId !== eventId));
+    setMissionPlan(null);
+  }, []);
+
+  const handleGeofenceDelivered = useCallback((overlay: GeofenceOverlay) => {
+    setGeofenceOverlays((previous) => [overlay, ...previous].slice(0, MAX_GEOFENCE_OVERLAYS));
+  }, []);
+
   return (
     <div className="space-y-8">
       <HeroSection metrics={metrics} hasSelection={!!selectedEvent} status={status} />
@@ -65,29 +203,52 @@ export function DashboardPage() {
         <div className="flex flex-col gap-6" id="mission-control">
           <OperationsPanel
             onEventCreated={setSelectedEventId}
-            onRoutePlanned={setRouteOverlay}
+            onRoutePlanned={handleRoutePlanned}
+            onRouteShared={updateSharedRouteParam}
+            restoredRoute={restoredRoute}
+            onRouteOptionsChange={setRouteOptions}
+            onCoordinateSelectionRequest={setCoordinateRequest}
+            activeCoordinateSelection={coordinateRequest?.id ?? null}
+            onGeofenceDelivered={handleGeofenceDelivered}
+            onGeofenceDraftChange={setGeofenceDraft}
+            onImportPreviewChange={setImportPreview}
+            canWatchZones={localBackend}
+          />
+          <MissionPlanner
+            stops={missionStops}
+            plan={missionPlan}
+            onPlanChange={setMissionPlan}
+            onRemoveStop={removeMissionStop}
+            onClearStops={() => setMissionStops([])}
+            onSelectEvent={setSelectedEventId}
             onCoordinateSelectionRequest={setCoordinateRequest}
             activeCoordinateSelection={coordinateRequest?.id ?? null}
           />
+          {localBackend ? <GeofenceRegistry onSelectEvent={setSelectedEventId} /> : null}
         </div>
         <div className="flex flex-col gap-6">
           <MissionMap
-            events={events}
+            events={mapEvents}
             selectedEventId={selectedEventId}
             onSelect={setSelectedEventId}
             routePlan={routeOverlay}
+            routeOptions={routeOptions}
+            missionPlan={missionPlan}
+            missionStopIds={missionStopIds}
+            onToggleMissionStop={toggleMissionStop}
             coordinateRequest={coordinateRequest}
             onCoordinatePick={handleCoordinatePicked}
+            onCoordinateShapeComplete={handleShapeComplete}
+            geofences={geofenceDraft ? [geofenceDraft, ...geofenceOverlays] : geofenceOverlays}
+            importPreview={importPreview}
+            onViewportChange={setViewport}
           />
           <EventFeed
-            events={events}
-            isLoading={isLoading}
-            isFetching={isFetching}
-            error={error ?? undefined}
             selectedEventId={selectedEventId}
             onSelect={setSelectedEventId}
-            onRefresh={() => refetch()}
-            lastUpdated={dataUpdatedAt}
+            missionStopIds={missionStopIds}
+            onToggleMissionStop={toggleMissionStop}
+            refetchInterval={refetchInterval}
           />
         </div>
       </div>
@@ -95,6 +256,17 @@ export function DashboardPage() {
   );
 }
 
+// Keeps the address bar pointing at the active route, without a navigation, so reloads re-open it.
+function updateSharedRouteParam(routeId?: string) {
+  const url = new URL(window.location.href);
+  if (routeId) {
+    url.searchParams.set(SHARED_ROUTE_PARAM, routeId);
+  } else {
+    url.searchParams.delete(SHARED_ROUTE_PARAM);
+  }
+  window.history.replaceState(null, '', url);
+}
+
 interface MetricCard {
   label: string;
   value: string;
@@ -104,10 +276,12 @@ interface MetricCard {
 
 interface HeroStatus {
   apiHealthy: boolean;
+  streamState: EventStreamState;
   isRefreshing: boolean;
   lastSynced?: number;
-  classified: number;
-  pending: number;
+  open: number;
+  awaitingTriage: number;
+  circuit?: BackendHealthResponse['backend']['circuit'];
 }
 
 function buildMetrics(events: SarEvent[]): MetricCard[] {
@@ -206,39 +380,73 @@ function MetricTile({ metric }: { metric: MetricCard }) {
   );
 }
 
+const STREAM_STATE_META: Record<EventStreamState, { label: string; className: string; dot: string }> = {
+  live: { label: 'Live stream', className: 'bg-emerald-500/10 text-emerald-600 dark:text-emerald-400', dot: '#34d399' },
+  connecting: { label: 'Connecting stream…', className: 'bg-amber-500/10 text-amber-600 dark:text-amber-400', dot: '#f59e0b' },
+  degraded: { label: 'Stream degraded', className: 'bg-amber-500/10 text-amber-600 dark:text-amber-400', dot: '#f59e0b' },
+  offline: { label: 'Polling every 60s', className: 'bg-muted/60 text-muted-foreground', dot: '#6b7280' },
+};
+
 function StatusStrip({ status }: { status: HeroStatus }) {
   const syncLabel = status.lastSynced ? new Date(status.lastSynced).toLocaleTimeString() : '—';
+  const stream = status.apiHealthy
+    ? STREAM_STATE_META[status.streamState]
+    : { label: 'API issue', className: 'bg-destructive/10 text-destructive', dot: '#ef4444' };
   return (
     <div className="flex flex-wrap items-center gap-2 pt-3 text-xs text-muted-foreground">
-      <span
-        className={cn(
-          'inline-flex items-center gap-2 rounded-full px-3 py-1 font-medium',
-          status.apiHealthy ? 'bg-emerald-500/10 text-emerald-600 dark:text-emerald-400' : 'bg-destructive/10 text-destructive',
-        )}
-      >
-        <span className="h-2 w-2 rounded-full" style={{ backgroundColor: status.apiHealthy ? '#34d399' : '#ef4444' }} />
-        {status.apiHealthy ? 'API healthy' : 'API issue'}
+      <span className={cn('inline-flex items-center gap-2 rounded-full px-3 py-1 font-medium', stream.className)}>
+        <span
+          className={cn('h-2 w-2 rounded-full', status.streamState === 'live' && status.apiHealthy && 'animate-pulse')}
+          style={{ backgroundColor: stream.dot }}
+        />
+        {stream.label}
         {status.isRefreshing ? ' · refreshing…' : null}
       </span>
+      {status.circuit && status.circuit.state !== 'closed' ? <CircuitBadge circuit={status.circuit} /> : null}
       <span className="rounded-full bg-muted/40 px-3 py-1">Last sync {syncLabel}</span>
       <span className="rounded-full bg-muted/40 px-3 py-1">
-        {status.classified} classified · {status.pending} pending
+        {status.open} open · {status.awaitingTriage} awaiting triage
       </span>
     </div>
   );
 }
 
+function CircuitBadge({ circuit }: { circuit: NonNullable<HeroStatus['circuit']> }) {
+  const open = circuit.state === 'open';
+  const retryLabel = open && circuit.retryAt ? ` · retry ${new Date(circuit.retryAt).toLocaleTimeString()}` : '';
+  return (
+    <span
+      className={cn(
+        'rounded-full px-3 py-1 font-medium',
+        open ? 'bg-destructive/10 text-destructive' : 'bg-amber-500/10 text-amber-600 dark:text-amber-400',
+      )}
+      title={`${circuit.consecutiveFailures} consecutive backend failure${circuit.consecutiveFailures === 1 ? '' : 's'}`}
+    >
+      {open ? `Backend paused${retryLabel}` : 'Backend recovering'}
+    </span>
+  );
+}
+
 function buildStatus(
   events: SarEvent[],
-  context: { hasError: boolean; isFetching: boolean; updatedAt?: number },
+  context: {
+    hasError: boolean;
+    isFetching: boolean;
+    updatedAt?: number;
+    streamState: EventStreamState;
+    health?: BackendHealthResponse;
+  },
 ): HeroStatus {
-  const classified = events.filter((event) => Boolean(event.rationale && event.rationale.trim().length > 0)).length;
-  const pending = Math.max(events.length - classified, 0);
+  const statuses = events.map(getIncidentStatus);
+  const open = statuses.filter(isIncidentOpen).length;
+  const awaitingTriage = statuses.filter((status) => status === 'reported').length;
   return {
     apiHealthy: !context.hasError,
+    streamState: context.streamState,
     isRefreshing: context.isFetching,
     lastSynced: context.updatedAt,
-    classified,
-    pending,
+    open,
+    awaitingTriage,
+    circuit: context.health?.backend.circuit,
   };
 }
@@ -2,71 +2,80 @@
 
 import Link from 'next/link';
 import { useMemo, useState } from 'react';
-import { AlertCircle, RotateCcw, MapPin, Waves, Filter } from 'lucide-react';
+import { keepPreviousData, useInfiniteQuery } from '@tanstack/react-query';
+import { AlertCircle, Check, Download, RotateCcw, MapPin, Plus, Waves, Filter, Loader2, Users } from 'lucide-react';
 
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { getEventExportUrl, getEvents } from '@/lib/api-client';
+import { EVENT_EXPORT_FORMATS, type EventExportFormat } from '@/lib/event-export';
+import { queryKeys } from '@/lib/query-keys';
 import { cn } from '@/lib/utils';
-import type { SarEvent } from '@/types/sar';
+import type { IncidentStatus, ListEventsParams, SarEvent } from '@/types/sar';
+import { getCorroboratingCount } from '@/lib/event-dedup';
+import { hasCoordinates } from '@/lib/geo';
 import { formatCoordinate, formatEventTimestamp, formatTrustScore, getSeverityMeta } from '@/lib/event-utils';
+import { INCIDENT_STATUSES, INCIDENT_STATUS_META, getIncidentStatus, isIncidentOpen } from '@/lib/incident-lifecycle';
+
+type SeverityFilter = 'all' | 'critical' | 'high' | 'elevated' | 'low';
+type StatusFilter = 'all' | 'open' | IncidentStatus;
+type SortOption = 'newest' | 'oldest' | 'severity' | 'trust';
+
+const PAGE_SIZE = 50;
 
 interface EventFeedProps {
-  events?: SarEvent[];
-  isLoading: boolean;
-  isFetching: boolean;
-  error?: unknown;
   selectedEventId?: string | null;
   onSelect: (eventId: string) => void;
-  onRefresh: () => void;
-  lastUpdated?: number;
+  /** Events queued for the multi-stop planner, in the order they were added. */
+  missionStopIds?: string[];
+  onToggleMissionStop?: (event: SarEvent) => void;
+  /** Poll interval while the live stream is unavailable; `false` when streaming. */
+  refetchInterval?: number | false;
 }
 
 export function EventFeed({
-  events,
-  isLoading,
-  isFetching,
-  error,
   selectedEventId,
   onSelect,
-  onRefresh,
-  lastUpdated,
+  missionStopIds = [],
+  onToggleMissionStop,
+  refetchInterval = false,
 }: EventFeedProps) {
-  const [severityFilter, setSeverityFilter] = useState<'all' | 'critical' | 'high' | 'elevated' | 'low'>('all');
-  const [statusFilter, setStatusFilter] = useState<'all' | 'pending' | 'classified'>('all');
-  const sortedEvents = useMemo(() => {
-    if (!events) {
-      return [] as SarEvent[];
-    }
-    return [...events].sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
-  }, [events]);
-
-  const filteredEvents = useMemo(() => {
-    return sortedEvents.filter((event) => {
-      const severity = event.severity ?? null;
-      if (severityFilter !== 'all') {
-        const matchesSeverity = checkSeverityMatch(severity, severityFilter);
-        if (!matchesSeverity) {
-          return false;
-        }
-      }
-
-      if (statusFilter !== 'all') {
-        const hasRationale = Boolean(event.rationale && event.rationale.trim().length > 0);
-        if (statusFilter === 'pending' && hasRationale) {
-          return false;
-        }
-        if (statusFilter === 'classified' && !hasRationale) {
-          return false;
-        }
-      }
-
-      return true;
+  const [severityFilter, setSeverityFilter] = useState<SeverityFilter>('all');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [sortOption, setSortOption] = useState<SortOption>('newest');
+  const params = useMemo(
+    () => buildFeedParams(severityFilter, statusFilter, sortOption),
+    [severityFilter, statusFilter, sortOption],
+  );
+  const isFiltered = severityFilter !== 'all' || statusFilter !== 'all';
+
+  const { data, error, isLoading, isFetching, isFetchingNextPage, hasNextPage, fetchNextPage, refetch, dataUpdatedAt } =
+    useInfiniteQuery({
+      queryKey: queryKeys.eventFeed(params),
+      queryFn: ({ pageParam }) => getEvents({ ...params, cursor: pageParam }),
+      initialPageParam: undefined as string | undefined,
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+      placeholderData: keepPreviousData,
+      refetchInterval,
     });
-  }, [sortedEvents, severityFilter, statusFilter]);
+
+  const events = useMemo(() => data?.pages.flatMap((page) => page.events) ?? [], [data]);
+  const total = data?.pages[0]?.total ?? events.length;
+  const onRefresh = () => refetch();
+  const isRefreshing = isFetching && !isFetchingNextPage;
 
   return (
     <Card className="h-full">
@@ -74,99 +83,186 @@ export function EventFeed({
         <div>
           <CardTitle className="text-lg font-semibold">Operational Feed</CardTitle>
           <p className="text-sm text-muted-foreground">
-            {isFetching ? 'Refreshing data…' : lastUpdated ? `Updated ${new Date(lastUpdated).toLocaleTimeString()}` : 'Live SAR incidents'}
+            {isRefreshing ? 'Refreshing data…' : dataUpdatedAt ? `Updated ${new Date(dataUpdatedAt).toLocaleTimeString()}` : 'Live SAR incidents'}
           </p>
         </div>
-        <Button variant="outline" size="icon" onClick={onRefresh} disabled={isFetching} aria-label="Refresh events">
-          <RotateCcw className={cn('h-4 w-4', isFetching && 'animate-spin')} />
-        </Button>
+        <div className="flex items-center gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="icon" disabled={total === 0} aria-label="Export events">
+                <Download className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel className="text-xs">
+                Export {isFiltered ? 'filtered' : 'all'} events ({total})
+              </DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {(Object.keys(EVENT_EXPORT_FORMATS) as EventExportFormat[]).map((format) => (
+                <DropdownMenuItem key={format} asChild className="text-xs">
+                  <a href={getEventExportUrl(params, format)} download>
+                    {EVENT_EXPORT_FORMATS[format].label}
+                  </a>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="outline" size="icon" onClick={onRefresh} disabled={isFetching} aria-label="Refresh events">
+            <RotateCcw className={cn('h-4 w-4', isRefreshing && 'animate-spin')} />
+          </Button>
+        </div>
       </CardHeader>
       <CardContent className="pb-6">
         {isLoading ? (
           <LoadingState />
         ) : error ? (
           <ErrorState onRetry={onRefresh} />
-        ) : sortedEvents.length === 0 ? (
+        ) : events.length === 0 && !isFiltered ? (
           <EmptyState />
-        ) : filteredEvents.length === 0 ? (
-          <FilteredEmptyState onClear={() => {
-            setSeverityFilter('all');
-            setStatusFilter('all');
-          }} />
         ) : (
           <>
             <div className="mb-3 flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
               <span className="inline-flex items-center gap-1 rounded-full bg-muted/50 px-3 py-1">
                 <Filter className="h-3 w-3" />
-                {filteredEvents.length} of {sortedEvents.length}
+                {events.length} of {total}
               </span>
               <ToggleGroup
                 type="single"
-                value={`${severityFilter}:${statusFilter}`}
-                onValueChange={(value) => {
-                  if (!value) {
-                    setSeverityFilter('all');
-                    setStatusFilter('all');
-                    return;
-                  }
-                  const [severity, status] = value.split(':') as [typeof severityFilter, typeof statusFilter];
-                  setSeverityFilter(severity);
-                  setStatusFilter(status);
-                }}
+                value={severityFilter}
+                onValueChange={(value) => setSeverityFilter((value || 'all') as SeverityFilter)}
                 className="flex flex-wrap gap-1 rounded-full bg-muted/30 p-0.5"
+                aria-label="Filter by severity"
               >
-                {filterSegments.map((segment) => (
-                  <ToggleGroupItem key={segment.id} value={segment.value} className={toggleButtonClass}>
+                {severitySegments.map((segment) => (
+                  <ToggleGroupItem key={segment.value} value={segment.value} className={toggleButtonClass}>
                     {segment.label}
                   </ToggleGroupItem>
                 ))}
               </ToggleGroup>
+              <ToggleGroup
+                type="single"
+                value={statusFilter}
+                onValueChange={(value) => setStatusFilter((value || 'all') as StatusFilter)}
+                className="flex flex-wrap gap-1 rounded-full bg-muted/30 p-0.5"
+                aria-label="Filter by incident status"
+              >
+                {statusSegments.map((segment) => (
+                  <ToggleGroupItem key={segment.value} value={segment.value} className={toggleButtonClass}>
+                    {segment.label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              <Select value={sortOption} onValueChange={(value) => setSortOption(value as SortOption)}>
+                <SelectTrigger size="sm" className="h-7 rounded-full text-xs" aria-label="Sort events">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sortOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value} className="text-xs">
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
-            <ScrollArea className="h-[22rem] pr-2">
-              <ul className="space-y-3">
-                {filteredEvents.map((event) => {
-                  const severity = getSeverityMeta(event.severity);
-                  const isSelected = event.eventId === selectedEventId;
-
-                  return (
-                    <li key={event.eventId}>
-                      <button
-                        type="button"
-                        onClick={() => onSelect(event.eventId)}
-                        className={cn(
-                        'w-full rounded-2xl border bg-card/95 text-left transition-colors duration-150 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring/40',
-                        isSelected
-                          ? 'border-primary/50 bg-primary/10 shadow-sm shadow-primary/10'
-                          : 'border-border/60 hover:border-primary/30 hover:bg-card',
-                      )}
+            {events.length === 0 ? (
+              <FilteredEmptyState onClear={() => {
+                setSeverityFilter('all');
+                setStatusFilter('all');
+              }} />
+            ) : (
+              <ScrollArea className="h-[22rem] pr-2">
+                <ul className="space-y-3">
+                  {events.map((event) => {
+                    const severity = getSeverityMeta(event.severity);
+                    const status = INCIDENT_STATUS_META[getIncidentStatus(event)];
+                    const isSelected = event.eventId === selectedEventId;
+                    const corroborating = getCorroboratingCount(event);
+                    const stopIndex = missionStopIds.indexOf(event.eventId);
+                    const canBeStop = !!onToggleMissionStop && hasCoordinates(event);
+
+                    return (
+                      <li key={event.eventId} className="relative">
+                        <button
+                          type="button"
+                          onClick={() => onSelect(event.eventId)}
+                          className={cn(
+                          'w-full rounded-2xl border bg-card/95 text-left transition-colors duration-150 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring/40',
+                          isSelected
+                            ? 'border-primary/50 bg-primary/10 shadow-sm shadow-primary/10'
+                            : 'border-border/60 hover:border-primary/30 hover:bg-card',
+                        )}
+                      >
+                        <article className="flex flex-col gap-3 p-4">
+                          <header className="flex items-center justify-between">
+                            <div className="flex items-center gap-2">
+                              <Badge className={cn('rounded-full px-3 py-0.5 text-xs font-medium', severity.className)}>
+                                {severity.label}
+                              </Badge>
+                              <Badge className={cn('rounded-full px-3 py-0.5 text-xs font-medium', status.className)}>
+                                {status.label}
+                              </Badge>
+                              <span className="text-xs text-muted-foreground">{formatEventTimestamp(event)}</span>
+                            </div>
+                            <span className="text-xs text-muted-foreground">Trust {formatTrustScore(event.trust)}</span>
+                          </header>
+                          <p className="text-sm text-foreground/90 line-clamp-3 leading-relaxed">{event.text}</p>
+                          <footer
+                            className={cn(
+                              'flex items-center justify-between pt-1 text-xs text-muted-foreground',
+                              canBeStop && 'pr-24',
+                            )}
+                          >
+                            <span className="flex items-center gap-1">
+                              <MapPin className="h-3.5 w-3.5" />
+                              {formatCoordinate(event.lat)}, {formatCoordinate(event.lon)}
+                            </span>
+                            {corroborating > 0 ? (
+                              <span className="flex items-center gap-1 font-medium text-foreground/80">
+                                <Users className="h-3.5 w-3.5" />
+                                {corroborating} corroborating report{corroborating === 1 ? '' : 's'}
+                              </span>
+                            ) : null}
+                            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" asChild>
+                              <Link href={`/events/${event.eventId}`}>Open details</Link>
+                            </Button>
+                          </footer>
+                        </article>
+                      </button>
+                      {/* Outside the card button: buttons cannot nest. */}
+                      {canBeStop ? (
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant={stopIndex >= 0 ? 'secondary' : 'outline'}
+                          className="absolute bottom-4 right-4 h-7 gap-1 rounded-full px-2 text-xs"
+                          aria-pressed={stopIndex >= 0}
+                          onClick={() => onToggleMissionStop(event)}
+                        >
+                          {stopIndex >= 0 ? <Check className="h-3.5 w-3.5" /> : <Plus className="h-3.5 w-3.5" />}
+                          {stopIndex >= 0 ? `Stop ${stopIndex + 1}` : 'Add stop'}
+                        </Button>
+                      ) : null}
+                    </li>
+                  );
+                  })}
+                </ul>
+                {hasNextPage ? (
+                  <div className="flex justify-center pt-3">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="rounded-full text-xs"
+                      onClick={() => fetchNextPage()}
+                      disabled={isFetchingNextPage}
                     >
-                      <article className="flex flex-col gap-3 p-4">
-                        <header className="flex items-center justify-between">
-                          <div className="flex items-center gap-2">
-                            <Badge className={cn('rounded-full px-3 py-0.5 text-xs font-medium', severity.className)}>
-                              {severity.label}
-                            </Badge>
-                            <span className="text-xs text-muted-foreground">{formatEventTimestamp(event)}</span>
-                          </div>
-                          <span className="text-xs text-muted-foreground">Trust {formatTrustScore(event.trust)}</span>
-                        </header>
-                        <p className="text-sm text-foreground/90 line-clamp-3 leading-relaxed">{event.text}</p>
-                        <footer className="flex items-center justify-between pt-1 text-xs text-muted-foreground">
-                          <span className="flex items-center gap-1">
-                            <MapPin className="h-3.5 w-3.5" />
-                            {formatCoordinate(event.lat)}, {formatCoordinate(event.lon)}
-                          </span>
-                          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" asChild>
-                            <Link href={`/events/${event.eventId}`}>Open details</Link>
-                          </Button>
-                        </footer>
-                      </article>
-                    </button>
-                  </li>
-                );
-                })}
-              </ul>
-            </ScrollArea>
+                      {isFetchingNextPage ? <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" /> : null}
+                      Load {Math.min(PAGE_SIZE, total - events.length)} more
+                    </Button>
+                  </div>
+                ) : null}
+              </ScrollArea>
+            )}
           </>
         )}
       </CardContent>
@@ -195,36 +291,52 @@ function FilteredEmptyState({ onClear }: { onClear: () => void }) {
   );
 }
 
-function checkSeverityMatch(severity: number | null, filter: 'critical' | 'high' | 'elevated' | 'low' | 'all') {
-  if (filter === 'all') {
-    return true;
-  }
-  if (severity === null || Number.isNaN(severity)) {
-    return filter === 'low';
-  }
-  if (filter === 'critical') {
-    return severity >= 80;
-  }
-  if (filter === 'high') {
-    return severity >= 50 && severity < 80;
-  }
-  if (filter === 'elevated') {
-    return severity >= 20 && severity < 50;
-  }
-  return severity < 20;
+const SEVERITY_BANDS: Record<Exclude<SeverityFilter, 'all'>, Pick<ListEventsParams, 'minSeverity' | 'maxSeverity'>> = {
+  critical: { minSeverity: 80 },
+  high: { minSeverity: 50, maxSeverity: 80 },
+  elevated: { minSeverity: 20, maxSeverity: 50 },
+  low: { maxSeverity: 20 },
+};
+
+const SORT_PARAMS: Record<SortOption, Pick<ListEventsParams, 'sort' | 'order'>> = {
+  newest: { sort: 'createdAt', order: 'desc' },
+  oldest: { sort: 'createdAt', order: 'asc' },
+  severity: { sort: 'severity', order: 'desc' },
+  trust: { sort: 'trust', order: 'desc' },
+};
+
+function buildFeedParams(severity: SeverityFilter, status: StatusFilter, sort: SortOption): ListEventsParams {
+  return {
+    ...(severity === 'all' ? {} : SEVERITY_BANDS[severity]),
+    status:
+      status === 'all' ? undefined : status === 'open' ? INCIDENT_STATUSES.filter(isIncidentOpen) : [status],
+    ...SORT_PARAMS[sort],
+    limit: PAGE_SIZE,
+  };
 }
 
 const toggleButtonClass =
   'rounded-full px-3 py-1 text-xs font-medium text-muted-foreground transition-colors data-[state=on]:bg-background data-[state=on]:text-foreground data-[state=on]:shadow-sm';
 
-const filterSegments: Array<{ id: string; value: string; label: string }> = [
-  { id: 'all', value: 'all:all', label: 'All' },
-  { id: 'critical', value: 'critical:all', label: 'Critical' },
-  { id: 'high', value: 'high:all', label: 'High' },
-  { id: 'elevated', value: 'elevated:all', label: 'Elevated' },
-  { id: 'low', value: 'low:all', label: 'Low' },
-  { id: 'pending', value: 'all:pending', label: 'Pending' },
-  { id: 'classified', value: 'all:classified', label: 'Classified' },
+const severitySegments: Array<{ value: SeverityFilter; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'critical', label: 'Critical' },
+  { value: 'high', label: 'High' },
+  { value: 'elevated', label: 'Elevated' },
+  { value: 'low', label: 'Low' },
+];
+
+const sortOptions: Array<{ value: SortOption; label: string }> = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'severity', label: 'Highest severity' },
+  { value: 'trust', label: 'Highest trust' },
+];
+
+const statusSegments: Array<{ value: StatusFilter; label: string }> = [
+  { value: 'all', label: 'Any status' },
+  { value: 'open', label: 'Open' },
+  ...INCIDENT_STATUSES.map((status) => ({ value: status, label: INCIDENT_STATUS_META[status].label })),
 ];
 
 function EmptyState() {
@@ -0,0 +1,205 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { BellRing, ChevronDown, Loader2, ShieldAlert, Trash2 } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { deleteGeofence, getErrorMessage, getGeofenceAlerts, getGeofences, updateGeofence } from '@/lib/api-client';
+import { getSeverityMeta } from '@/lib/event-utils';
+import { isZoneGeofence } from '@/lib/geo';
+import { queryKeys } from '@/lib/query-keys';
+import { cn } from '@/lib/utils';
+import type { Geofence } from '@/types/sar';
+
+interface GeofenceRegistryProps {
+  onSelectEvent?: (eventId: string) => void;
+  refetchInterval?: number | false;
+}
+
+export function GeofenceRegistry({ onSelectEvent, refetchInterval = 30_000 }: GeofenceRegistryProps) {
+  const queryClient = useQueryClient();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.geofences,
+    queryFn: getGeofences,
+    refetchInterval,
+  });
+  const geofences = data?.geofences ?? [];
+  const activeCount = geofences.filter((geofence) => geofence.active).length;
+
+  // Alerts are raised server-side on ingest; surface new hits since the last fetch.
+  const hitCountsRef = useRef<Map<string, number> | null>(null);
+  useEffect(() => {
+    if (!data) {
+      return;
+    }
+    const previous = hitCountsRef.current;
+    hitCountsRef.current = new Map(data.geofences.map((geofence) => [geofence.geofenceId, geofence.hitCount]));
+    if (!previous) {
+      return;
+    }
+    for (const geofence of data.geofences) {
+      const newHits = geofence.hitCount - (previous.get(geofence.geofenceId) ?? geofence.hitCount);
+      if (newHits > 0) {
+        toast.warning(`Zone alert · ${geofence.name}`, {
+          description: `${newHits} new incident${newHits === 1 ? '' : 's'} at severity ≥ ${geofence.minSeverity}`,
+        });
+      }
+    }
+  }, [data]);
+
+  const updateMutation = useMutation({
+    mutationFn: ({ geofenceId, active }: { geofenceId: string; active: boolean }) =>
+      updateGeofence(geofenceId, { active }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.geofences }),
+    onError: (mutationError: unknown) => {
+      toast.error('Could not update zone', { description: getErrorMessage(mutationError) });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteGeofence,
+    onSuccess: () => {
+      toast.success('Zone removed');
+      queryClient.invalidateQueries({ queryKey: queryKeys.geofences });
+    },
+    onError: (mutationError: unknown) => {
+      toast.error('Could not remove zone', { description: getErrorMessage(mutationError) });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between pb-4">
+        <div>
+          <CardTitle className="text-lg font-semibold">Watched zones</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {geofences.length ? `${activeCount} of ${geofences.length} active` : 'Auto-alert on severe reports'}
+          </p>
+        </div>
+        <ShieldAlert className="h-5 w-5 text-muted-foreground" />
+      </CardHeader>
+      <CardContent className="space-y-3 pb-6">
+        {isLoading ? (
+          <Skeleton className="h-16 w-full rounded-2xl" />
+        ) : error ? (
+          <p className="text-sm text-destructive">{getErrorMessage(error)}</p>
+        ) : geofences.length === 0 ? (
+          <p className="rounded-2xl border border-dashed border-border/60 p-4 text-xs text-muted-foreground">
+            Save a radius or drawn zone from the Alerts tab to watch it for incoming incidents.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {geofences.map((geofence) => {
+              const isExpanded = expandedId === geofence.geofenceId;
+              return (
+                <li
+                  key={geofence.geofenceId}
+                  className={cn('rounded-2xl border border-border/60 p-3', !geofence.active && 'opacity-60')}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <button
+                      type="button"
+                      className="min-w-0 flex-1 text-left"
+                      onClick={() => setExpandedId(isExpanded ? null : geofence.geofenceId)}
+                      aria-expanded={isExpanded}
+                    >
+                      <p className="flex items-center gap-1 truncate text-sm font-medium">
+                        <ChevronDown className={cn('h-3.5 w-3.5 shrink-0 transition-transform', !isExpanded && '-rotate-90')} />
+                        {geofence.name}
+                      </p>
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        {describeArea(geofence)} · severity ≥ {geofence.minSeverity}
+                      </p>
+                    </button>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={geofence.hitCount ? 'destructive' : 'secondary'} className="rounded-full text-[11px]">
+                        <BellRing className="mr-1 h-3 w-3" />
+                        {geofence.hitCount}
+                      </Badge>
+                      <Switch
+                        checked={geofence.active}
+                        disabled={updateMutation.isPending}
+                        onCheckedChange={(active) => updateMutation.mutate({ geofenceId: geofence.geofenceId, active })}
+                        aria-label={`${geofence.active ? 'Pause' : 'Resume'} ${geofence.name}`}
+                      />
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate(geofence.geofenceId)}
+                        aria-label={`Delete ${geofence.name}`}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                  {isExpanded ? <GeofenceAlertList geofence={geofence} onSelectEvent={onSelectEvent} /> : null}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function GeofenceAlertList({ geofence, onSelectEvent }: { geofence: Geofence; onSelectEvent?: (eventId: string) => void }) {
+  const { data, isLoading } = useQuery({
+    queryKey: [...queryKeys.geofenceAlerts(geofence.geofenceId), geofence.hitCount],
+    queryFn: () => getGeofenceAlerts(geofence.geofenceId),
+  });
+
+  if (isLoading) {
+    return (
+      <p className="mt-3 flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" /> Loading alerts…
+      </p>
+    );
+  }
+  const alerts = data?.alerts.slice(0, 5) ?? [];
+  if (alerts.length === 0) {
+    return <p className="mt-3 text-xs text-muted-foreground">No alerts raised yet.</p>;
+  }
+
+  return (
+    <ol className="mt-3 space-y-1 text-xs">
+      {alerts.map((alert) => {
+        const severity = getSeverityMeta(alert.severity);
+        return (
+          <li key={alert.alertId}>
+            <button
+              type="button"
+              className="flex w-full items-center justify-between gap-2 rounded-xl bg-muted/40 px-3 py-2 text-left hover:bg-muted"
+              onClick={() => onSelectEvent?.(alert.eventId)}
+            >
+              <span className="flex items-center gap-2">
+                <span className={cn('rounded-full px-2 py-0.5 font-semibold', severity.className)}>{severity.label}</span>
+                {alert.eventId.slice(0, 8)}
+              </span>
+              <span className="text-muted-foreground">
+                {alert.delivered} notified · {new Date(alert.createdAt).toLocaleTimeString()}
+              </span>
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+function describeArea(geofence: Geofence) {
+  const { area } = geofence;
+  if (!isZoneGeofence(area)) {
+    return `${area.radiusKm} km radius`;
+  }
+  return area.geometry.type === 'MultiPolygon' ? `${area.geometry.coordinates.length} polygons` : 'Polygon';
+}
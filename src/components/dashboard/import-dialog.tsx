@@ -0,0 +1,328 @@
+'use client';
+
+import { useEffect, useMemo, useState, type ChangeEvent } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { CheckCircle2, FileUp, Loader2, XCircle } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getErrorMessage, importEvents } from '@/lib/api-client';
+import {
+  EVENT_IMPORT_FORMATS,
+  detectImportFormat,
+  guessCsvMapping,
+  parseImport,
+  readCsvHeaders,
+  validateImportCandidates,
+  type ValidatedImportRow,
+} from '@/lib/event-import';
+import { queryKeys } from '@/lib/query-keys';
+import { MAX_IMPORT_CONTENT_LENGTH } from '@/lib/sar-contracts';
+import { cn } from '@/lib/utils';
+import type { BulkImportResponse, BulkImportRowResult, CsvColumnMapping, EventImportFormat } from '@/types/sar';
+
+export interface ImportPreviewPoint {
+  row: number;
+  lat: number;
+  lon: number;
+  label: string;
+  valid: boolean;
+}
+
+interface ImportDialogProps {
+  onPreviewChange?: (points: ImportPreviewPoint[]) => void;
+  onImported?: (result: BulkImportResponse) => void;
+}
+
+const UNMAPPED = '__none__';
+
+const MAPPING_FIELDS: Array<{ field: keyof CsvColumnMapping; label: string }> = [
+  { field: 'text', label: 'Report text' },
+  { field: 'lat', label: 'Latitude' },
+  { field: 'lon', label: 'Longitude' },
+  { field: 'mediaUrl', label: 'Media URL' },
+];
+
+const ROW_STATUS_META: Record<BulkImportRowResult['status'], { label: string; className: string }> = {
+  valid: { label: 'Valid', className: 'text-emerald-500' },
+  imported: { label: 'Imported', className: 'text-emerald-500' },
+  invalid: { label: 'Invalid', className: 'text-destructive' },
+  failed: { label: 'Failed', className: 'text-destructive' },
+};
+
+export function ImportDialog({ onPreviewChange, onImported }: ImportDialogProps) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [content, setContent] = useState('');
+  const [format, setFormat] = useState<EventImportFormat>('geojson');
+  const [mapping, setMapping] = useState<Partial<CsvColumnMapping>>({});
+  const [result, setResult] = useState<BulkImportResponse | null>(null);
+
+  const csvHeaders = useMemo(() => (format === 'csv' && content ? readCsvHeaders(content) : []), [format, content]);
+
+  // Parsing runs in the browser with the same rules as the API route, so the preview matches the import.
+  const preview = useMemo<{ rows: ValidatedImportRow[]; error: string | null }>(() => {
+    if (!content) {
+      return { rows: [], error: null };
+    }
+    try {
+      const csvMapping = format === 'csv' && mapping.text ? (mapping as CsvColumnMapping) : undefined;
+      return { rows: validateImportCandidates(parseImport(content, format, csvMapping)), error: null };
+    } catch (error) {
+      return { rows: [], error: getErrorMessage(error) };
+    }
+  }, [content, format, mapping]);
+
+  const validCount = preview.rows.filter((row) => row.ok).length;
+
+  useEffect(() => {
+    onPreviewChange?.(result ? [] : toPreviewPoints(preview.rows));
+  }, [preview.rows, result, onPreviewChange]);
+
+  const importMutation = useMutation({
+    mutationFn: () =>
+      importEvents({
+        format,
+        content,
+        mapping: format === 'csv' && mapping.text ? (mapping as CsvColumnMapping) : undefined,
+      }),
+    onSuccess: (data) => {
+      setResult(data);
+      if (data.imported > 0) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.events });
+        queryClient.invalidateQueries({ queryKey: queryKeys.geofences });
+      }
+      const description = `${data.imported} of ${data.total} rows imported${data.failed ? ` · ${data.failed} rejected` : ''}`;
+      if (data.failed) {
+        toast.warning('Import finished with errors', { description });
+      } else {
+        toast.success('Import complete', { description });
+      }
+      onImported?.(data);
+    },
+    onError: (error: unknown) => {
+      toast.error('Could not import events', { description: getErrorMessage(error) });
+    },
+  });
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    const text = await file.text();
+    if (text.length > MAX_IMPORT_CONTENT_LENGTH) {
+      toast.error('File is too large to import', { description: 'Split it into smaller files and try again.' });
+      event.target.value = '';
+      return;
+    }
+    const detected = detectImportFormat(file.name, text) ?? 'csv';
+    setFileName(file.name);
+    setContent(text);
+    setFormat(detected);
+    setMapping(detected === 'csv' ? guessCsvMapping(readCsvHeaders(text)) : {});
+    setResult(null);
+  };
+
+  const reset = () => {
+    setFileName(null);
+    setContent('');
+    setMapping({});
+    setResult(null);
+  };
+
+  const results = result?.results ?? previewResults(preview.rows);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" className="w-full gap-2">
+          <FileUp className="h-4 w-4" /> Bulk import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Bulk import reports</DialogTitle>
+          <DialogDescription>
+            Upload GeoJSON, CSV or CAP 1.2 XML. Rows are checked with the same rules as a single report, and rows with
+            coordinates are previewed on the mission map.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 sm:grid-cols-[1fr_160px]">
+          <div className="space-y-1.5">
+            <Label htmlFor="import-file">File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept={Object.values(EVENT_IMPORT_FORMATS)
+                .map((meta) => meta.accept)
+                .join(',')}
+              onChange={handleFileChange}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Format</Label>
+            <Select
+              value={format}
+              onValueChange={(value) => {
+                const next = value as EventImportFormat;
+                setFormat(next);
+                setMapping(next === 'csv' && content ? guessCsvMapping(readCsvHeaders(content)) : {});
+                setResult(null);
+              }}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(EVENT_IMPORT_FORMATS) as EventImportFormat[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {EVENT_IMPORT_FORMATS[value].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {format === 'csv' && csvHeaders.length ? (
+          <div className="grid gap-3 rounded-2xl border border-border/60 p-3 sm:grid-cols-2">
+            {MAPPING_FIELDS.map(({ field, label }) => (
+              <div key={field} className="space-y-1.5">
+                <Label className="text-xs">{label}</Label>
+                <Select
+                  value={mapping[field] ?? UNMAPPED}
+                  onValueChange={(value) => {
+                    setMapping((current) => ({ ...current, [field]: value === UNMAPPED ? undefined : value }));
+                    setResult(null);
+                  }}
+                >
+                  <SelectTrigger className="h-8 w-full text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>{field === 'text' ? 'Choose a column' : 'Not mapped'}</SelectItem>
+                    {csvHeaders.map((header) => (
+                      <SelectItem key={header} value={header}>
+                        {header}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        ) : null}
+
+        {preview.error ? (
+          <p className="rounded-2xl border border-destructive/40 bg-destructive/5 p-3 text-sm text-destructive">
+            {preview.error}
+          </p>
+        ) : null}
+
+        {results.length ? (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>{fileName}</span>
+              <span className="flex gap-2">
+                {result ? (
+                  <>
+                    <Badge variant="secondary">{result.imported} imported</Badge>
+                    {result.failed ? <Badge variant="destructive">{result.failed} rejected</Badge> : null}
+                  </>
+                ) : (
+                  <>
+                    <Badge variant="secondary">{validCount} valid</Badge>
+                    {preview.rows.length - validCount ? (
+                      <Badge variant="destructive">{preview.rows.length - validCount} invalid</Badge>
+                    ) : null}
+                  </>
+                )}
+              </span>
+            </div>
+            <ol className="max-h-64 space-y-1 overflow-y-auto text-xs">
+              {results.map((row) => {
+                const meta = ROW_STATUS_META[row.status];
+                const ok = row.status === 'valid' || row.status === 'imported';
+                return (
+                  <li key={row.row} className="flex items-start gap-2 rounded-xl bg-muted/40 px-3 py-2">
+                    {ok ? (
+                      <CheckCircle2 className={cn('mt-0.5 h-3.5 w-3.5 shrink-0', meta.className)} />
+                    ) : (
+                      <XCircle className={cn('mt-0.5 h-3.5 w-3.5 shrink-0', meta.className)} />
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <p className="font-medium">
+                        Row {row.row} · <span className={meta.className}>{meta.label}</span>
+                        {row.eventId ? (
+                          <span className="text-muted-foreground">
+                            {' '}
+                            · {row.duplicateOf ? `duplicate of ${row.duplicateOf.slice(0, 8)}` : row.eventId.slice(0, 8)}
+                          </span>
+                        ) : null}
+                      </p>
+                      {row.errors?.length ? <p className="text-destructive">{row.errors.join('; ')}</p> : null}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          {content ? (
+            <Button type="button" variant="ghost" onClick={reset}>
+              Clear
+            </Button>
+          ) : null}
+          <Button
+            type="button"
+            disabled={!validCount || !!result || importMutation.isPending}
+            onClick={() => importMutation.mutate()}
+          >
+            {importMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+            Import {validCount || ''} {validCount === 1 ? 'row' : 'rows'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function previewResults(rows: ValidatedImportRow[]): BulkImportRowResult[] {
+  return rows.map((row) =>
+    row.ok ? { row: row.row, status: 'valid' } : { row: row.row, status: 'invalid', errors: row.errors },
+  );
+}
+
+// Invalid rows still plot when their coordinates are usable, so a bad row can be found on the map.
+function toPreviewPoints(rows: ValidatedImportRow[]): ImportPreviewPoint[] {
+  return rows.flatMap((row) => {
+    const source = row.ok ? row.request : row.values;
+    const lat = Number(source.lat);
+    const lon = Number(source.lon);
+    if (source.lat === undefined || source.lon === undefined || !Number.isFinite(lat) || !Number.isFinite(lon)) {
+      return [];
+    }
+    if (Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return [];
+    }
+    return [{ row: row.row, lat, lon, label: String(source.text ?? ''), valid: row.ok }];
+  });
+}
@@ -1,42 +1,88 @@
 'use client';
 
-import { useEffect, useMemo, useRef, useState } from 'react';
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { LatLngTuple, Map as LeafletMap } from 'leaflet';
-import { Navigation, Pin } from 'lucide-react';
+import { Check, Navigation, Pin, Undo2 } from 'lucide-react';
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { isZoneGeofence, type BoundingBox } from '@/lib/geo';
+import { buildDensityGrid, clusterPoints, severityWeight } from '@/lib/map-aggregation';
 import { decodeGooglePolyline } from '@/lib/polyline';
-import type { SarEvent } from '@/types/sar';
+import { getRouteOptionLabel, getRouteOptionStyle } from '@/lib/routing';
+import type { GeofenceRequest, SarEvent } from '@/types/sar';
 import { formatCoordinate, formatEventTimestamp, getSeverityMeta } from '@/lib/event-utils';
-import type { RoutePlanPayload, CoordinateSelectionRequest } from './operations-panel';
+import type { ImportPreviewPoint } from './import-dialog';
+import type { MissionPlanOverlay } from './mission-planner';
+import type { CoordinateSelectionRequest, GeofenceOverlay, RouteOptionsPreview, RoutePlanPayload } from './operations-panel';
 
 interface MissionMapProps {
   events?: SarEvent[];
   selectedEventId?: string | null;
   onSelect: (eventId: string) => void;
   routePlan?: RoutePlanPayload | null;
+  routeOptions?: RouteOptionsPreview | null;
+  missionPlan?: MissionPlanOverlay | null;
+  /** Events queued for the multi-stop planner; ringed until a plan numbers them. */
+  missionStopIds?: string[];
+  onToggleMissionStop?: (event: SarEvent) => void;
   coordinateRequest?: CoordinateSelectionRequest | null;
   onCoordinatePick?: (coords: { lat: number; lon: number }) => void;
+  onCoordinateShapeComplete?: (points: Array<{ lat: number; lon: number }>) => void;
+  onViewportChange?: (bbox: BoundingBox) => void;
+  geofences?: GeofenceOverlay[];
+  importPreview?: ImportPreviewPoint[];
 }
 
 const DEFAULT_CENTER: LatLngTuple = [3.089, 101.586];
+const DEFAULT_ZOOM = 12;
+
+type DisplayMode = 'severity' | 'simple' | 'cluster' | 'heatmap';
+
+const DISPLAY_MODES: Array<{ value: DisplayMode; label: string }> = [
+  { value: 'severity', label: 'Severity' },
+  { value: 'simple', label: 'Simple' },
+  { value: 'cluster', label: 'Clusters' },
+  { value: 'heatmap', label: 'Heatmap' },
+];
+
+const SEVERITY_ORDER = ['Critical', 'High', 'Elevated', 'Low', 'Unknown'];
+
+const GEOFENCE_COLOR = '#a855f7';
+const IMPORT_PREVIEW_COLOR = '#14b8a6';
+const HAZARD_COLOR = '#ef4444';
+const MISSION_COLOR = '#0ea5e9';
 
 export function MissionMap({
   events = [],
   selectedEventId,
   onSelect,
   routePlan,
+  routeOptions,
+  missionPlan,
+  missionStopIds = [],
+  onToggleMissionStop,
   coordinateRequest,
   onCoordinatePick,
+  onCoordinateShapeComplete,
+  onViewportChange,
+  geofences = [],
+  importPreview = [],
 }: MissionMapProps) {
   const mapRef = useRef<LeafletMap | null>(null);
+  const [mapInstance, setMapInstance] = useState<LeafletMap | null>(null);
+  const hasFittedMarkersRef = useRef(false);
+  const fittedRouteKeyRef = useRef<string | null>(null);
   const [leaflet, setLeaflet] = useState<null | typeof import('react-leaflet')>(null);
-  const [displayMode, setDisplayMode] = useState<'severity' | 'simple'>('severity');
+  const [displayMode, setDisplayMode] = useState<DisplayMode>('severity');
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
   const [showRouteOverlay, setShowRouteOverlay] = useState(true);
   const [legendOpen, setLegendOpen] = useState(false);
   const [selectionPreview, setSelectionPreview] = useState<LatLngTuple | null>(null);
+  const [draftPoints, setDraftPoints] = useState<LatLngTuple[]>([]);
+  const [showGeofences, setShowGeofences] = useState(true);
+  const drawMode = coordinateRequest?.mode ?? 'point';
 
   useEffect(() => {
     let mounted = true;
@@ -86,33 +132,155 @@ export function MissionMap({
     return routeAnchors;
   }, [routePlan, routeAnchors]);
 
+  // Unselected candidates first so the selected one is drawn on top.
+  const routeOptionPaths = useMemo(() => {
+    if (!routeOptions) {
+      return [];
+    }
+    return routeOptions.options
+      .map((option) => ({
+        option,
+        selected: option.routeId === routeOptions.selectedRouteId,
+        positions: option.polyline
+          ? decodeGooglePolyline(option.polyline).map(([lat, lon]) => [lat, lon] as LatLngTuple)
+          : [],
+      }))
+      .filter((entry) => entry.positions.length >= 2)
+      .sort((a, b) => Number(a.selected) - Number(b.selected));
+  }, [routeOptions]);
+
+  const missionPath = useMemo<LatLngTuple[]>(() => {
+    const encoded = missionPlan?.route.polyline;
+    return encoded ? decodeGooglePolyline(encoded).map(([lat, lon]) => [lat, lon] as LatLngTuple) : [];
+  }, [missionPlan]);
+
+  const avoidAreas = useMemo(() => {
+    const routeAreas = (routeOptions ? routeOptions.avoidAreas : routePlan?.avoidAreas) ?? [];
+    const missionAreas = missionPlan?.route.avoidAreas ?? [];
+    const seen = new Set(routeAreas.map((area) => area.sourceId).filter(Boolean));
+    return [...routeAreas, ...missionAreas.filter((area) => !area.sourceId || !seen.has(area.sourceId))];
+  }, [routeOptions, routePlan, missionPlan]);
+
+  const handleMapRef = useCallback((instance: LeafletMap | null) => {
+    mapRef.current = instance;
+    setMapInstance(instance);
+  }, []);
+
+  useEffect(() => {
+    if (!mapInstance) {
+      return;
+    }
+    const syncZoom = () => setZoom(mapInstance.getZoom());
+    mapInstance.on('zoomend', syncZoom);
+    syncZoom();
+    return () => {
+      mapInstance.off('zoomend', syncZoom);
+    };
+  }, [mapInstance]);
+
+  const weightedMarkers = useMemo(
+    () =>
+      markers.map((marker) => ({
+        lat: marker.position[0],
+        lon: marker.position[1],
+        weight: severityWeight(marker.event.severity),
+        item: marker,
+      })),
+    [markers],
+  );
+
+  const clusters = useMemo(
+    () => (displayMode === 'cluster' ? clusterPoints(weightedMarkers, zoom) : []),
+    [displayMode, weightedMarkers, zoom],
+  );
+
+  const densityCells = useMemo(
+    () => (displayMode === 'heatmap' ? buildDensityGrid(weightedMarkers, zoom) : []),
+    [displayMode, weightedMarkers, zoom],
+  );
+
   useEffect(() => {
-    if (!mapRef.current) {
+    if (!mapInstance || !onViewportChange) {
       return;
     }
-    let boundsPoints: LatLngTuple[] = [];
+    const emitViewport = () => {
+      const bounds = mapInstance.getBounds();
+      onViewportChange([bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()]);
+    };
+    mapInstance.on('moveend', emitViewport);
+    emitViewport();
+    return () => {
+      mapInstance.off('moveend', emitViewport);
+    };
+  }, [mapInstance, onViewportChange]);
+
+  // Keyed on the geometry itself, so marker updates and re-renders that rebuild the same route
+  // do not pull the map back onto it after the user has panned away.
+  const routeFit = useMemo(() => {
+    if (routeOptionPaths.length) {
+      return {
+        key: routeOptionPaths.map((entry) => entry.option.polyline).sort().join('|'),
+        points: routeOptionPaths.flatMap((entry) => entry.positions),
+      };
+    }
+    if (missionPath.length >= 2) {
+      return { key: missionPlan?.route.polyline ?? '', points: missionPath };
+    }
     if (routePath.length >= 2) {
-      boundsPoints = routePath;
-    } else if (markers.length) {
-      boundsPoints = markers.map((marker) => marker.position);
+      return { key: routePlan?.summary.polyline ?? routePath.join(';'), points: routePath };
     }
+    return null;
+  }, [routeOptionPaths, missionPath, missionPlan, routePath, routePlan]);
 
-    if (!boundsPoints.length) {
+  useEffect(() => {
+    if (!routeFit) {
+      fittedRouteKeyRef.current = null;
       return;
     }
+    if (!mapInstance || fittedRouteKeyRef.current === routeFit.key) {
+      return;
+    }
+    fittedRouteKeyRef.current = routeFit.key;
+    mapInstance.fitBounds(routeFit.points, { maxZoom: 12, padding: [48, 48] });
+  }, [mapInstance, routeFit]);
 
-    mapRef.current.fitBounds(boundsPoints, {
-      maxZoom: routePath.length >= 2 ? 12 : 13,
-      padding: [48, 48],
-    });
-  }, [markers, routePath]);
+  useEffect(() => {
+    if (!mapInstance || routeFit || !markers.length || hasFittedMarkersRef.current) {
+      return;
+    }
+    // Markers follow the viewport, so only frame them once or panning would snap back.
+    hasFittedMarkersRef.current = true;
+    mapInstance.fitBounds(
+      markers.map((marker) => marker.position),
+      { maxZoom: 13, padding: [48, 48] },
+    );
+  }, [mapInstance, markers, routeFit]);
+
+  useEffect(() => {
+    if (!mapRef.current || !importPreview.length) {
+      return;
+    }
+    mapRef.current.fitBounds(
+      importPreview.map((point) => [point.lat, point.lon] as LatLngTuple),
+      { maxZoom: 13, padding: [48, 48] },
+    );
+  }, [importPreview]);
 
   useEffect(() => {
     if (coordinateRequest) {
       setSelectionPreview(null);
     }
+    setDraftPoints([]);
   }, [coordinateRequest]);
 
+  const completeShape = useCallback(
+    (points: LatLngTuple[]) => {
+      setDraftPoints([]);
+      onCoordinateShapeComplete?.(points.map(([lat, lon]) => ({ lat, lon })));
+    },
+    [onCoordinateShapeComplete],
+  );
+
   const selectedMarker = markers.find((marker) => marker.event.eventId === selectedEventId);
   const defaultCenter = useMemo<LatLngTuple>(() => {
     if (selectedMarker) {
@@ -150,14 +318,71 @@ export function MissionMap({
     );
   }
 
-  const { MapContainer, TileLayer, CircleMarker, Popup, Polyline, useMapEvents } = leaflet;
+  const { MapContainer, TileLayer, Circle, CircleMarker, Polygon, Popup, Polyline, Rectangle, Tooltip, useMapEvents } =
+    leaflet;
+
+  const renderEventMarker = ({ position, event }: { position: LatLngTuple; event: SarEvent }) => {
+    const severity = getSeverityMeta(event.severity);
+    const isSelected = event.eventId === selectedEventId;
+    const isStop = missionStopIds.includes(event.eventId);
+    const color = displayMode === 'simple' ? '#2563eb' : severityToColor(severity.label);
+    return (
+      <CircleMarker
+        key={event.eventId}
+        center={position}
+        radius={isSelected ? 12 : 8}
+        pathOptions={{
+          color,
+          fillOpacity: isSelected ? 0.85 : 0.65,
+          weight: isSelected ? 3 : 2,
+        }}
+        eventHandlers={{
+          click: () => onSelect(event.eventId),
+        }}
+      >
+        <Popup>
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <span className={cn('rounded-full px-2 py-0.5 text-xs font-semibold', severity.className)}>
+                {severity.label}
+              </span>
+              <span className="text-xs text-muted-foreground">{formatEventTimestamp(event)}</span>
+            </div>
+            <p className="text-sm font-medium leading-relaxed">{event.text}</p>
+            <p className="text-xs text-muted-foreground">
+              {formatCoordinate(event.lat)}, {formatCoordinate(event.lon)}
+            </p>
+            {onToggleMissionStop ? (
+              <Button
+                size="sm"
+                variant={isStop ? 'secondary' : 'outline'}
+                className="h-7 w-full rounded-full text-xs"
+                onClick={() => onToggleMissionStop(event)}
+              >
+                {isStop ? 'Remove from mission' : 'Add mission stop'}
+              </Button>
+            ) : null}
+          </div>
+        </Popup>
+      </CircleMarker>
+    );
+  };
 
   const ClickHandler = () => {
     useMapEvents({
       click(event) {
         const coords = { lat: event.latlng.lat, lon: event.latlng.lng };
-        setSelectionPreview([coords.lat, coords.lon]);
-        onCoordinatePick?.(coords);
+        if (drawMode === 'point') {
+          setSelectionPreview([coords.lat, coords.lon]);
+          onCoordinatePick?.(coords);
+          return;
+        }
+        const next = [...draftPoints, [coords.lat, coords.lon] as LatLngTuple];
+        if (drawMode === 'circle' && next.length === 2) {
+          completeShape(next);
+        } else {
+          setDraftPoints(next);
+        }
       },
     });
     return null;
@@ -170,6 +395,7 @@ export function MissionMap({
           <CardTitle className="text-lg font-semibold">Mission Map</CardTitle>
           <p className="text-sm text-muted-foreground">
             {markers.length ? `${markers.length} plotted event${markers.length === 1 ? '' : 's'}` : 'Awaiting coordinates'}
+            {displayMode === 'cluster' && clusters.length ? ` · ${clusters.length} cluster${clusters.length === 1 ? '' : 's'}` : null}
           </p>
         </div>
         {selectedMarker ? (
@@ -186,18 +412,34 @@ export function MissionMap({
         <div className="relative h-[28rem]">
           <div className="absolute right-4 top-4 z-[1000] flex flex-col items-end gap-2">
             <div className="flex flex-wrap gap-2 rounded-full bg-background/80 px-2 py-1 shadow-sm">
-              <Button
-                size="sm"
-                variant="ghost"
-                className={cn(
-                  'h-8 rounded-full px-3 text-[11px] font-medium text-muted-foreground hover:bg-primary/10 hover:text-primary',
-                  displayMode === 'severity' && 'bg-primary/10 text-primary shadow-sm',
-                )}
-                onClick={() => setDisplayMode(displayMode === 'severity' ? 'simple' : 'severity')}
-              >
-                {displayMode === 'severity' ? 'Severity view' : 'Simple view'}
-              </Button>
-              {routePlan ? (
+              {DISPLAY_MODES.map((mode) => (
+                <Button
+                  key={mode.value}
+                  size="sm"
+                  variant="ghost"
+                  className={cn(
+                    'h-8 rounded-full px-3 text-[11px] font-medium text-muted-foreground hover:bg-primary/10 hover:text-primary',
+                    displayMode === mode.value && 'bg-primary/10 text-primary shadow-sm',
+                  )}
+                  onClick={() => setDisplayMode(mode.value)}
+                >
+                  {mode.label}
+                </Button>
+              ))}
+              {geofences.length ? (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className={cn(
+                    'h-8 rounded-full px-3 text-[11px] font-medium text-muted-foreground hover:bg-primary/10 hover:text-primary',
+                    showGeofences && 'bg-primary/10 text-primary shadow-sm',
+                  )}
+                  onClick={() => setShowGeofences((value) => !value)}
+                >
+                  {showGeofences ? 'Zones on' : 'Zones off'}
+                </Button>
+              ) : null}
+              {routePlan || routeOptions || missionPlan ? (
                 <Button
                   size="sm"
                   variant="ghost"
@@ -225,26 +467,93 @@ export function MissionMap({
             {legendOpen ? <SeverityLegend align="right" /> : null}
           </div>
           {coordinateRequest ? (
-            <div className="pointer-events-none absolute inset-x-0 bottom-4 z-[1000] mx-auto w-fit rounded-full bg-background/80 px-3 py-1.5 text-[11px] font-medium text-foreground shadow-sm">
-              Tap map to set {coordinateRequest.label}
+            <div className="pointer-events-none absolute inset-x-0 bottom-4 z-[1000] mx-auto flex w-fit items-center gap-2 rounded-full bg-background/80 px-3 py-1.5 text-[11px] font-medium text-foreground shadow-sm">
+              <span>
+                {drawMode === 'polygon'
+                  ? `Tap map to add ${coordinateRequest.label} · ${draftPoints.length} placed`
+                  : `Tap map to set ${coordinateRequest.label}`}
+              </span>
+              {drawMode !== 'point' && draftPoints.length ? (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="pointer-events-auto h-6 gap-1 rounded-full px-2 text-[11px]"
+                  onClick={() => setDraftPoints((points) => points.slice(0, -1))}
+                >
+                  <Undo2 className="h-3 w-3" /> Undo
+                </Button>
+              ) : null}
+              {drawMode === 'polygon' ? (
+                <Button
+                  size="sm"
+                  className="pointer-events-auto h-6 gap-1 rounded-full px-2 text-[11px]"
+                  disabled={draftPoints.length < 3}
+                  onClick={() => completeShape(draftPoints)}
+                >
+                  <Check className="h-3 w-3" /> Finish
+                </Button>
+              ) : null}
             </div>
           ) : null}
           <MapContainer
             center={defaultCenter}
-            zoom={12}
+            zoom={DEFAULT_ZOOM}
             scrollWheelZoom
             className={cn('h-full w-full', coordinateRequest ? 'cursor-crosshair' : '')}
-            ref={(instance) => {
-              mapRef.current = instance ?? null;
-            }}
+            ref={handleMapRef}
           >
             {coordinateRequest ? (
               <ClickHandler />
             ) : null}
             <TileLayer attribution='&copy; OpenStreetMap contributors' url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png" />
 
-            {routePlan && routePath.length >= 2 && showRouteOverlay ? (
+            {routeOptionPaths.length && showRouteOverlay ? (
+              <>
+                {routeOptionPaths.map(({ option, selected, positions }) => {
+                  const style = getRouteOptionStyle(option.rank);
+                  return (
+                    <Fragment key={`route-option-${option.routeId}`}>
+                      {option.crossesHazard ? (
+                        <Polyline
+                          positions={positions}
+                          pathOptions={{ color: HAZARD_COLOR, weight: selected ? 14 : 10, opacity: 0.3 }}
+                        />
+                      ) : null}
+                      <Polyline
+                        positions={positions}
+                        pathOptions={{
+                          color: style.color,
+                          dashArray: style.dashArray,
+                          weight: selected ? 6 : 3,
+                          opacity: selected ? 0.95 : 0.55,
+                        }}
+                      >
+                        <Tooltip sticky>
+                          {getRouteOptionLabel(option)} · {option.distanceKm.toFixed(1)} km · {option.etaMin} min
+                          {option.crossesHazard ? ' · crosses a hazard' : ''}
+                        </Tooltip>
+                      </Polyline>
+                    </Fragment>
+                  );
+                })}
+                {[routeOptions?.origin, routeOptions?.destination].map((point, index) =>
+                  point ? (
+                    <CircleMarker
+                      key={`route-option-anchor-${index}`}
+                      center={[point.lat, point.lon]}
+                      radius={index === 0 ? 8 : 7}
+                      pathOptions={{ color: index === 0 ? '#22d3ee' : '#0ea5e9', fillOpacity: 0.9, weight: 2 }}
+                    />
+                  ) : null,
+                )}
+              </>
+            ) : null}
+
+            {!routeOptionPaths.length && routePlan && routePath.length >= 2 && showRouteOverlay ? (
               <>
+                {routePlan.summary.crossesHazard ? (
+                  <Polyline positions={routePath} pathOptions={{ color: HAZARD_COLOR, weight: 12, opacity: 0.3 }} />
+                ) : null}
                 <Polyline
                   positions={routePath}
                   pathOptions={{ color: '#22d3ee', weight: 4, opacity: 0.85 }}
@@ -260,6 +569,159 @@ export function MissionMap({
               </>
             ) : null}
 
+            {missionPlan && missionPath.length >= 2 && showRouteOverlay ? (
+              <>
+                {missionPlan.route.crossesHazard ? (
+                  <Polyline positions={missionPath} pathOptions={{ color: HAZARD_COLOR, weight: 12, opacity: 0.3 }} />
+                ) : null}
+                <Polyline positions={missionPath} pathOptions={{ color: MISSION_COLOR, weight: 4, opacity: 0.85 }}>
+                  <Tooltip sticky>
+                    Mission · {missionPlan.route.stops.length} stops · {missionPlan.route.distanceKm.toFixed(1)} km ·{' '}
+                    {missionPlan.route.etaMin} min
+                  </Tooltip>
+                </Polyline>
+                <CircleMarker
+                  center={[missionPlan.start.lat, missionPlan.start.lon]}
+                  radius={8}
+                  pathOptions={{ color: MISSION_COLOR, fillColor: '#ffffff', fillOpacity: 0.9, weight: 3 }}
+                >
+                  <Tooltip>Mission start</Tooltip>
+                </CircleMarker>
+                {missionPlan.route.stops.map((stop) => (
+                  <CircleMarker
+                    key={`mission-stop-${stop.order}`}
+                    center={[stop.lat, stop.lon]}
+                    radius={11}
+                    pathOptions={{ color: MISSION_COLOR, fillColor: MISSION_COLOR, fillOpacity: 0.9, weight: 2 }}
+                    eventHandlers={{ click: () => stop.eventId && onSelect(stop.eventId) }}
+                  >
+                    <Tooltip
+                      direction="center"
+                      permanent
+                      interactive={false}
+                      className="border-0! bg-transparent! p-0! text-xs font-semibold text-white shadow-none!"
+                    >
+                      {stop.order}
+                    </Tooltip>
+                  </CircleMarker>
+                ))}
+              </>
+            ) : null}
+
+            {!missionPlan
+              ? markers
+                  .filter((marker) => missionStopIds.includes(marker.event.eventId))
+                  .map((marker) => (
+                    <CircleMarker
+                      key={`mission-pending-${marker.event.eventId}`}
+                      center={marker.position}
+                      radius={15}
+                      interactive={false}
+                      pathOptions={{ color: MISSION_COLOR, weight: 2, dashArray: '4 4', fill: false }}
+                    />
+                  ))
+              : null}
+
+            {showRouteOverlay
+              ? avoidAreas.map((avoidArea, index) => {
+                  const pathOptions = { color: HAZARD_COLOR, weight: 1.5, fillOpacity: 0.12, dashArray: '4 6' };
+                  const tooltip = (
+                    <Tooltip sticky>
+                      Avoid · {avoidArea.label ?? avoidArea.source}
+                      {avoidArea.severity !== undefined ? ` · severity ${avoidArea.severity}` : ''}
+                    </Tooltip>
+                  );
+                  const key = `avoid-${avoidArea.sourceId ?? index}`;
+                  return isZoneGeofence(avoidArea.area) ? (
+                    <Polygon key={key} positions={toLeafletPolygons(avoidArea.area)} pathOptions={pathOptions}>
+                      {tooltip}
+                    </Polygon>
+                  ) : (
+                    <Circle
+                      key={key}
+                      center={[avoidArea.area.lat, avoidArea.area.lon]}
+                      radius={avoidArea.area.radiusKm * 1000}
+                      pathOptions={pathOptions}
+                    >
+                      {tooltip}
+                    </Circle>
+                  );
+                })
+              : null}
+
+            {showGeofences
+              ? geofences.map((overlay) => {
+                  const isDraft = overlay.delivered === undefined;
+                  const pathOptions = {
+                    color: GEOFENCE_COLOR,
+                    weight: 2,
+                    fillOpacity: isDraft ? 0.08 : 0.15,
+                    dashArray: isDraft ? '6 6' : undefined,
+                  };
+                  const tooltip = (
+                    <Tooltip sticky>
+                      {overlay.label}
+                      {isDraft ? ' · draft' : ` · ${overlay.delivered} delivered`}
+                    </Tooltip>
+                  );
+                  return isZoneGeofence(overlay.request) ? (
+                    <Polygon key={`geofence-${overlay.id}`} positions={toLeafletPolygons(overlay.request)} pathOptions={pathOptions}>
+                      {tooltip}
+                    </Polygon>
+                  ) : (
+                    <Circle
+                      key={`geofence-${overlay.id}`}
+                      center={[overlay.request.lat, overlay.request.lon]}
+                      radius={overlay.request.radiusKm * 1000}
+                      pathOptions={pathOptions}
+                    >
+                      {tooltip}
+                    </Circle>
+                  );
+                })
+              : null}
+
+            {importPreview.map((point) => (
+              <CircleMarker
+                key={`import-preview-${point.row}`}
+                center={[point.lat, point.lon]}
+                radius={7}
+                pathOptions={{
+                  color: point.valid ? IMPORT_PREVIEW_COLOR : '#ef4444',
+                  weight: 2,
+                  dashArray: '3 4',
+                  fillOpacity: 0.25,
+                }}
+              >
+                <Tooltip>
+                  Import row {point.row}
+                  {point.valid ? '' : ' · invalid'}
+                  {point.label ? ` · ${point.label.slice(0, 60)}` : ''}
+                </Tooltip>
+              </CircleMarker>
+            ))}
+
+            {draftPoints.length ? (
+              drawMode === 'circle' ? (
+                <CircleMarker center={draftPoints[0]} radius={6} pathOptions={{ color: GEOFENCE_COLOR, fillOpacity: 0.8 }} />
+              ) : (
+                <>
+                  <Polyline
+                    positions={draftPoints.length >= 3 ? [...draftPoints, draftPoints[0]] : draftPoints}
+                    pathOptions={{ color: GEOFENCE_COLOR, weight: 2, dashArray: '4 6' }}
+                  />
+                  {draftPoints.map((point, index) => (
+                    <CircleMarker
+                      key={`draft-vertex-${index}`}
+                      center={point}
+                      radius={4}
+                      pathOptions={{ color: GEOFENCE_COLOR, fillOpacity: 0.9, weight: 1 }}
+                    />
+                  ))}
+                </>
+              )
+            ) : null}
+
             {selectionPreview ? (
               <CircleMarker
                 center={selectionPreview}
@@ -268,43 +730,81 @@ export function MissionMap({
               />
             ) : null}
 
-            {markers.length === 0
-              ? null
-              : markers.map(({ position, event }) => {
-                  const severity = getSeverityMeta(event.severity);
-                  const isSelected = event.eventId === selectedEventId;
-                  const color = displayMode === 'severity' ? severityToColor(severity.label) : '#2563eb';
+            {displayMode === 'heatmap'
+              ? densityCells.map((cell) => (
+                  <Rectangle
+                    key={`density-${cell.id}`}
+                    bounds={cell.bounds}
+                    interactive={false}
+                    pathOptions={{
+                      stroke: false,
+                      fillColor: densityToColor(cell.intensity),
+                      fillOpacity: 0.12 + cell.intensity * 0.5,
+                    }}
+                  />
+                ))
+              : null}
+
+            {displayMode === 'cluster'
+              ? clusters.map((cluster) => {
+                  if (cluster.items.length === 1) {
+                    return renderEventMarker(cluster.items[0]);
+                  }
+                  const counts = countBySeverity(cluster.items.map((item) => item.event.severity));
+                  const peak = Math.max(...cluster.items.map((item) => item.event.severity ?? -1));
+                  const color = severityToColor(getSeverityMeta(peak >= 0 ? peak : undefined).label);
                   return (
                     <CircleMarker
-                      key={event.eventId}
-                      center={position}
-                      radius={isSelected ? 12 : 8}
-                      pathOptions={{
-                        color,
-                        fillOpacity: isSelected ? 0.85 : 0.65,
-                        weight: isSelected ? 3 : 2,
-                      }}
-                      eventHandlers={{
-                        click: () => onSelect(event.eventId),
-                      }}
+                      key={`cluster-${cluster.id}`}
+                      center={[cluster.lat, cluster.lon]}
+                      radius={Math.min(28, 12 + Math.sqrt(cluster.items.length) * 3)}
+                      pathOptions={{ color, fillColor: color, fillOpacity: 0.55, weight: 2 }}
                     >
+                      <Tooltip
+                        direction="center"
+                        permanent
+                        interactive={false}
+                        className="border-0! bg-transparent! p-0! text-xs font-semibold text-white shadow-none!"
+                      >
+                        {cluster.items.length}
+                      </Tooltip>
                       <Popup>
                         <div className="space-y-2">
-                          <div className="flex items-center gap-2">
-                            <span className={cn('rounded-full px-2 py-0.5 text-xs font-semibold', severity.className)}>
-                              {severity.label}
-                            </span>
-                            <span className="text-xs text-muted-foreground">{formatEventTimestamp(event)}</span>
-                          </div>
-                          <p className="text-sm font-medium leading-relaxed">{event.text}</p>
-                          <p className="text-xs text-muted-foreground">
-                            {formatCoordinate(event.lat)}, {formatCoordinate(event.lon)}
-                          </p>
+                          <p className="text-sm font-semibold">{cluster.items.length} events in this area</p>
+                          <ul className="space-y-1 text-xs">
+                            {counts.map(({ label, count }) => (
+                              <li key={label} className="flex items-center justify-between gap-4">
+                                <span className="flex items-center gap-2">
+                                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: severityToColor(label) }} />
+                                  {label}
+                                </span>
+                                <span className="font-medium">{count}</span>
+                              </li>
+                            ))}
+                          </ul>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-7 w-full rounded-full text-xs"
+                            onClick={() => {
+                              mapRef.current?.closePopup();
+                              mapRef.current?.fitBounds(cluster.bounds, { padding: [48, 48], maxZoom: 17 });
+                            }}
+                          >
+                            Zoom to cluster
+                          </Button>
                         </div>
                       </Popup>
                     </CircleMarker>
                   );
-                })}
+                })
+              : null}
+
+            {displayMode === 'severity' || displayMode === 'simple'
+              ? markers.map(renderEventMarker)
+              : displayMode === 'heatmap' && selectedMarker
+                ? renderEventMarker(selectedMarker)
+                : null}
           </MapContainer>
         </div>
       </CardContent>
@@ -340,6 +840,35 @@ function SeverityLegend({ align = 'left' }: { align?: 'left' | 'right' }) {
   );
 }
 
+function countBySeverity(severities: Array<number | undefined>) {
+  const counts = new Map<string, number>();
+  for (const severity of severities) {
+    const { label } = getSeverityMeta(severity);
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  }
+  return SEVERITY_ORDER.filter((label) => counts.has(label)).map((label) => ({ label, count: counts.get(label) ?? 0 }));
+}
+
+// GeoJSON rings are [lon, lat]; Leaflet wants [lat, lon] nested as polygons → rings → points.
+function toLeafletPolygons(request: GeofenceRequest): LatLngTuple[][][] {
+  if (!isZoneGeofence(request)) {
+    return [];
+  }
+  const { geometry } = request;
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.map((rings) => rings.map((ring) => ring.map(([lon, lat]) => [lat, lon] as LatLngTuple)));
+}
+
+function densityToColor(intensity: number): string {
+  if (intensity >= 0.66) {
+    return '#ef4444';
+  }
+  if (intensity >= 0.33) {
+    return '#f97316';
+  }
+  return '#facc15';
+}
+
 function severityToColor(label: string): string {
   switch (label) {
     case 'Critical':
@@ -0,0 +1,259 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Loader2, MapPin, Route, X } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { getErrorMessage, requestMissionRoute } from '@/lib/api-client';
+import { getSeverityMeta } from '@/lib/event-utils';
+import { MISSION_ORDER_STRATEGIES } from '@/lib/mission-planning';
+import { MAX_MISSION_STOPS } from '@/lib/sar-contracts';
+import { cn } from '@/lib/utils';
+import type { MissionOrderStrategy, MissionRouteResponse, SarEvent } from '@/types/sar';
+import type { CoordinateSelectionRequest } from './operations-panel';
+
+/** A planned mission as drawn on the map; the response does not echo the start point. */
+export interface MissionPlanOverlay {
+  start: { lat: number; lon: number };
+  route: MissionRouteResponse;
+}
+
+interface MissionPlannerProps {
+  stops: SarEvent[];
+  plan: MissionPlanOverlay | null;
+  onPlanChange: (plan: MissionPlanOverlay | null) => void;
+  onRemoveStop: (eventId: string) => void;
+  onClearStops: () => void;
+  onSelectEvent?: (eventId: string) => void;
+  onCoordinateSelectionRequest?: (request: CoordinateSelectionRequest | null) => void;
+  activeCoordinateSelection?: string | null;
+}
+
+// Same staging point as the Routing tab's default origin.
+const DEFAULT_START = { lat: '3.043', lon: '101.449' };
+
+export function MissionPlanner({
+  stops,
+  plan,
+  onPlanChange,
+  onRemoveStop,
+  onClearStops,
+  onSelectEvent,
+  onCoordinateSelectionRequest,
+  activeCoordinateSelection,
+}: MissionPlannerProps) {
+  const [start, setStart] = useState(DEFAULT_START);
+  const [strategy, setStrategy] = useState<MissionOrderStrategy>('nearest');
+
+  const planMutation = useMutation({
+    mutationFn: () =>
+      requestMissionRoute({
+        startLat: Number(start.lat),
+        startLon: Number(start.lon),
+        strategy,
+        stops: stops.map((event) => ({
+          eventId: event.eventId,
+          lat: event.lat as number,
+          lon: event.lon as number,
+          label: event.text,
+          severity: event.severity,
+        })),
+      }),
+    onSuccess: (route) => {
+      onPlanChange({ start: { lat: Number(start.lat), lon: Number(start.lon) }, route });
+      toast.success(`Mission planned · ${route.stops.length} stops`, {
+        description: `${route.distanceKm.toFixed(1)} km · last arrival in ${route.etaMin} min`,
+      });
+    },
+    onError: (error: unknown) => {
+      toast.error('Could not plan mission', { description: getErrorMessage(error) });
+    },
+  });
+
+  const startValid = isCoordinate(start.lat, 90) && isCoordinate(start.lon, 180);
+  const plannedStops = plan?.route.stops ?? [];
+  const pickingStart = activeCoordinateSelection === 'mission-start';
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between pb-4">
+        <div>
+          <CardTitle className="text-lg font-semibold">Mission stops</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {stops.length ? `${stops.length} of ${MAX_MISSION_STOPS} incidents selected` : 'Visit several incidents in one run'}
+          </p>
+        </div>
+        <Route className="h-5 w-5 text-muted-foreground" />
+      </CardHeader>
+      <CardContent className="space-y-4 pb-6 text-sm">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="mission-start-lat" className="text-xs">
+              Start latitude
+            </Label>
+            <Input
+              id="mission-start-lat"
+              inputMode="decimal"
+              value={start.lat}
+              onChange={(event) => setStart((previous) => ({ ...previous, lat: event.target.value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="mission-start-lon" className="text-xs">
+              Start longitude
+            </Label>
+            <Input
+              id="mission-start-lon"
+              inputMode="decimal"
+              value={start.lon}
+              onChange={(event) => setStart((previous) => ({ ...previous, lon: event.target.value }))}
+            />
+          </div>
+        </div>
+        <Button
+          type="button"
+          size="sm"
+          variant={pickingStart ? 'default' : 'ghost'}
+          className="w-full gap-2 rounded-full text-xs"
+          onClick={() => {
+            if (pickingStart) {
+              onCoordinateSelectionRequest?.(null);
+              return;
+            }
+            onCoordinateSelectionRequest?.({
+              id: 'mission-start',
+              label: 'mission start',
+              onSelect: ({ lat, lon }) => setStart({ lat: lat.toFixed(5), lon: lon.toFixed(5) }),
+            });
+          }}
+        >
+          <MapPin className="h-4 w-4" />
+          {pickingStart ? 'Set start via map…' : 'Pick start on map'}
+        </Button>
+
+        <ToggleGroup
+          type="single"
+          value={strategy}
+          onValueChange={(value) => value && setStrategy(value as MissionOrderStrategy)}
+          className="grid w-full grid-cols-2 gap-1 rounded-full bg-muted/30 p-0.5"
+          aria-label="Stop ordering"
+        >
+          {(Object.keys(MISSION_ORDER_STRATEGIES) as MissionOrderStrategy[]).map((value) => (
+            <ToggleGroupItem
+              key={value}
+              value={value}
+              title={MISSION_ORDER_STRATEGIES[value].description}
+              className="rounded-full px-3 py-1 text-xs font-medium text-muted-foreground data-[state=on]:bg-background data-[state=on]:text-foreground data-[state=on]:shadow-sm"
+            >
+              {MISSION_ORDER_STRATEGIES[value].label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+
+        {stops.length === 0 ? (
+          <p className="rounded-2xl border border-dashed border-border/60 p-4 text-xs text-muted-foreground">
+            Use “Add stop” in the feed or on a map marker to queue incidents for this run.
+          </p>
+        ) : plannedStops.length ? (
+          <ol className="space-y-2">
+            {plannedStops.map((stop) => (
+              <li key={stop.eventId ?? stop.order} className="flex items-start gap-3 rounded-xl border border-border/60 p-3">
+                <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-sky-500 text-xs font-semibold text-white">
+                  {stop.order}
+                </span>
+                <button
+                  type="button"
+                  className="min-w-0 flex-1 text-left"
+                  onClick={() => stop.eventId && onSelectEvent?.(stop.eventId)}
+                >
+                  <p className="truncate font-medium">{stop.label ?? stop.eventId}</p>
+                  <p className="text-xs text-muted-foreground">
+                    +{stop.legEtaMin} min · {stop.legDistanceKm.toFixed(1)} km · arrive T+{stop.arrivalMin} min
+                  </p>
+                  {stop.crossesHazard ? <p className="text-xs text-red-500">Leg crosses a hazard zone</p> : null}
+                </button>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <ul className="space-y-2">
+            {stops.map((event) => {
+              const severity = getSeverityMeta(event.severity);
+              return (
+                <li key={event.eventId} className="flex items-center gap-2 rounded-xl border border-border/60 p-2 pl-3">
+                  <Badge className={cn('rounded-full px-2 py-0.5 text-[10px]', severity.className)}>{severity.label}</Badge>
+                  <button
+                    type="button"
+                    className="min-w-0 flex-1 truncate text-left text-xs"
+                    onClick={() => onSelectEvent?.(event.eventId)}
+                  >
+                    {event.text}
+                  </button>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    aria-label="Remove stop"
+                    onClick={() => onRemoveStop(event.eventId)}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {plan ? (
+          <div className="rounded-2xl bg-muted/40 p-3 text-xs">
+            <p className="font-medium text-foreground">
+              {plan.route.distanceKm.toFixed(1)} km · all stops reached in {plan.route.etaMin} min
+            </p>
+            <p className="text-muted-foreground">
+              {MISSION_ORDER_STRATEGIES[plan.route.strategy].label}
+              {plan.route.engine === 'offline' ? ' · offline road graph' : ''}
+              {plan.route.crossesHazard ? ' · crosses a hazard zone' : ''}
+            </p>
+          </div>
+        ) : null}
+
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            className="flex-1 rounded-full"
+            disabled={stops.length === 0 || !startValid || planMutation.isPending}
+            onClick={() => planMutation.mutate()}
+          >
+            {planMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+            {plan ? 'Re-plan mission' : 'Plan mission'}
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            className="rounded-full"
+            disabled={stops.length === 0 && !plan}
+            onClick={() => {
+              onPlanChange(null);
+              onClearStops();
+            }}
+          >
+            Clear
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function isCoordinate(value: string, limit: number) {
+  const parsed = Number(value);
+  return value.trim() !== '' && Number.isFinite(parsed) && Math.abs(parsed) <= limit;
+}
@@ -1,7 +1,7 @@
 'use client';
 
-import { useState } from 'react';
-import { useForm, type Resolver } from 'react-hook-form';
+import { useEffect, useMemo, useState } from 'react';
+import { useForm, type FieldValues, type Path, type Resolver, type UseFormReturn } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
@@ -16,43 +16,96 @@ import {
   MapPin,
   CheckCircle2,
   XCircle,
+  Circle as CircleIcon,
+  Download,
+  Hexagon,
+  Share2,
 } from 'lucide-react';
 
+import { ImportDialog, type ImportPreviewPoint } from '@/components/dashboard/import-dialog';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useIdempotencyKey } from '@/hooks/use-idempotency-key';
+import { EVENT_IMPORT_FORMATS } from '@/lib/event-import';
+import { haversineKm, isZoneGeofence, toGeoJsonRing } from '@/lib/geo';
+import { DEFAULT_GEOFENCE_MIN_SEVERITY } from '@/lib/geofences';
+import { coordinateSchema, ingestEventSchema } from '@/lib/ingest-schema';
 import { queryKeys } from '@/lib/query-keys';
+import {
+  ROUTE_EXPORT_FORMATS,
+  getRouteExportFilename,
+  serializeRoute,
+  type RouteExportFormat,
+} from '@/lib/route-export';
+import { getLegDurationMin, getRouteOptionLabel, getRouteOptionStyle, getRouteOptions } from '@/lib/routing';
+import { getRouteShareUrl } from '@/lib/saved-routes';
 import { cn } from '@/lib/utils';
 import {
-  ApiError,
+  createGeofence,
+  getErrorMessage,
+  getFieldErrors,
   ingestEvent,
   requestAltRoute,
+  saveRoute,
   setGeofenceAlert,
   simulateReplay,
 } from '@/lib/api-client';
 import type {
+  AltRouteOption,
   AltRouteRequest,
-  AltRouteResponse,
+  AvoidArea,
+  CircleGeofenceRequest,
+  CreateGeofenceRequest,
+  GeoJsonPosition,
+  GeofenceGeometry,
   GeofenceRequest,
   GeofenceResponse,
   IngestEventRequest,
   IngestEventResponse,
+  RouteEngine,
   SimulateReplayResponse,
 } from '@/types/sar';
 
 export interface RoutePlanPayload {
   origin: { lat: number; lon: number };
   destination: { lat: number; lon: number };
-  summary: AltRouteResponse;
+  summary: AltRouteOption;
+  avoidAreas?: AvoidArea[];
+  engine?: RouteEngine;
+  /** Set once the route has been saved behind a share link. */
+  savedRouteId?: string;
+}
+
+/** Ranked candidates awaiting the operator's pick in the Routing tab. */
+export interface RouteOptionsPreview {
+  origin: { lat: number; lon: number };
+  destination: { lat: number; lon: number };
+  options: AltRouteOption[];
+  selectedRouteId: string;
+  avoidAreas?: AvoidArea[];
+  engine?: RouteEngine;
 }
 
 export interface CoordinateSelectionRequest {
   id: string;
   label: string;
-  onSelect: (coords: { lat: number; lon: number }) => void;
+  /** `point` resolves on the first click; `polygon` collects vertices until finished; `circle` takes a centre then an edge. */
+  mode?: 'point' | 'polygon' | 'circle';
+  onSelect?: (coords: { lat: number; lon: number }) => void;
+  onComplete?: (points: Array<{ lat: number; lon: number }>) => void;
+}
+
+export interface GeofenceOverlay {
+  id: string;
+  label: string;
+  request: GeofenceRequest;
+  /** Absent while the zone is still being drafted. */
+  delivered?: number;
 }
 
 interface ActivityLogEntry {
@@ -66,40 +119,22 @@ interface ActivityLogEntry {
 interface OperationsPanelProps {
   onEventCreated?: (eventId: string) => void;
   onRoutePlanned?: (payload: RoutePlanPayload) => void;
+  onRouteShared?: (routeId: string) => void;
+  /** A saved route opened from a share link; becomes the active route when it arrives. */
+  restoredRoute?: RoutePlanPayload | null;
+  onRouteOptionsChange?: (preview: RouteOptionsPreview | null) => void;
   onCoordinateSelectionRequest?: (request: CoordinateSelectionRequest | null) => void;
   activeCoordinateSelection?: string | null;
+  onGeofenceDelivered?: (overlay: GeofenceOverlay) => void;
+  onGeofenceDraftChange?: (overlay: GeofenceOverlay | null) => void;
+  onImportPreviewChange?: (points: ImportPreviewPoint[]) => void;
+  /** Only the local backend keeps watched zones; hide "Watch zone" elsewhere. */
+  canWatchZones?: boolean;
 }
 
-const coordinateSchema = (min: number, max: number, label: string) =>
-  z.preprocess(
-    (value) => {
-      if (value === '' || value === null || value === undefined) {
-        return undefined;
-      }
-      const numberValue = typeof value === 'string' ? Number(value) : value;
-      return Number.isFinite(Number(numberValue)) ? Number(numberValue) : value;
-    },
-    z
-      .number()
-      .min(min, `${label} must be ≥ ${min}`)
-      .max(max, `${label} must be ≤ ${max}`)
-      .optional(),
-  );
-
-const optionalUrlSchema = z.preprocess(
-  (value) => {
-    if (typeof value !== 'string') return value;
-    const trimmed = value.trim();
-    return trimmed.length === 0 ? undefined : trimmed;
-  },
-  z.string().url('Provide a valid URL').optional(),
-);
-
-const ingestSchema = z.object({
-  text: z.string().min(3, 'Add a short summary of the incident'),
+const ingestSchema = ingestEventSchema.extend({
   lat: coordinateSchema(-90, 90, 'Latitude').default(3.043),
   lon: coordinateSchema(-180, 180, 'Longitude').default(101.449),
-  mediaUrl: optionalUrlSchema,
 });
 
 type IngestSchema = z.infer<typeof ingestSchema>;
@@ -133,14 +168,40 @@ type GeofenceSchema = z.infer<typeof geofenceSchema>;
 export function OperationsPanel({
   onEventCreated,
   onRoutePlanned,
+  onRouteShared,
+  restoredRoute,
+  onRouteOptionsChange,
   onCoordinateSelectionRequest,
   activeCoordinateSelection,
+  onGeofenceDelivered,
+  onGeofenceDraftChange,
+  onImportPreviewChange,
+  canWatchZones = false,
 }: OperationsPanelProps) {
   const queryClient = useQueryClient();
-  const [routeSummary, setRouteSummary] = useState<AltRouteResponse | null>(null);
+  const ingestKey = useIdempotencyKey();
+  const geofenceKey = useIdempotencyKey();
+  const simulationKey = useIdempotencyKey();
+  const [routeOptions, setRouteOptions] = useState<RouteOptionsPreview | null>(null);
+  const [activeRoute, setActiveRoute] = useState<RoutePlanPayload | null>(null);
   const [geofenceSummary, setGeofenceSummary] = useState<GeofenceResponse | null>(null);
   const [lastSimulation, setLastSimulation] = useState<SimulateReplayResponse | null>(null);
   const [activityLog, setActivityLog] = useState<ActivityLogEntry[]>([]);
+  const [geofenceShape, setGeofenceShape] = useState<'circle' | 'zone'>('circle');
+  const [zoneDraft, setZoneDraft] = useState<GeoJsonPosition[][][]>([]);
+  const [zoneLabel, setZoneLabel] = useState('');
+  const [watchThreshold, setWatchThreshold] = useState(String(DEFAULT_GEOFENCE_MIN_SEVERITY));
+  const zoneGeometry = useMemo(() => buildZoneGeometry(zoneDraft), [zoneDraft]);
+
+  useEffect(() => {
+    onRouteOptionsChange?.(routeOptions);
+  }, [routeOptions, onRouteOptionsChange]);
+
+  useEffect(() => {
+    onGeofenceDraftChange?.(
+      zoneGeometry ? { id: 'draft', label: zoneLabel.trim() || 'Draft zone', request: { geometry: zoneGeometry } } : null,
+    );
+  }, [zoneGeometry, zoneLabel, onGeofenceDraftChange]);
 
   const pushActivity = (entry: Omit<ActivityLogEntry, 'id' | 'timestamp'>) => {
     setActivityLog((previous) => {
@@ -183,28 +244,42 @@ export function OperationsPanel({
   });
 
   const ingestMutation = useMutation({
-    mutationFn: async (values: IngestSchema) => ingestEvent(sanitisePayload(values)),
+    mutationFn: async (values: IngestSchema) => {
+      const payload = sanitisePayload(values);
+      return ingestEvent(payload, ingestKey.keyFor(payload));
+    },
     onSuccess: (data: IngestEventResponse, variables: IngestSchema) => {
-      toast.success('Event broadcast', {
-        description: `Nova Lite will classify report ${data.eventId.slice(0, 8)}…`,
-      });
+      ingestKey.settle();
+      if (data.duplicateOf) {
+        toast.info('Linked to an existing incident', {
+          description: `Report corroborates incident ${data.duplicateOf.slice(0, 8)}…`,
+        });
+      } else {
+        toast.success('Event broadcast', {
+          description: `Nova Lite will classify report ${data.eventId.slice(0, 8)}…`,
+        });
+      }
       queryClient.invalidateQueries({ queryKey: queryKeys.events });
-      onEventCreated?.(data.eventId);
+      queryClient.invalidateQueries({ queryKey: queryKeys.geofences });
+      onEventCreated?.(data.duplicateOf ?? data.eventId);
       ingestForm.reset({ ...variables, text: '', mediaUrl: undefined });
       pushActivity({
         label: `Report dispatched (${data.eventId.slice(0, 6)})`,
         status: 'success',
-        detail: 'Awaiting Nova Lite classification',
+        detail: data.duplicateOf
+          ? `Duplicate of ${data.duplicateOf.slice(0, 6)}`
+          : 'Awaiting Nova Lite classification',
       });
     },
     onError: (error: unknown) => {
+      applyFieldErrors(ingestForm, error);
       toast.error('Could not ingest event', {
-        description: extractErrorMessage(error),
+        description: getErrorMessage(error),
       });
       pushActivity({
         label: 'Report dispatch failed',
         status: 'error',
-        detail: extractErrorMessage(error),
+        detail: getErrorMessage(error),
       });
     },
   });
@@ -212,45 +287,132 @@ export function OperationsPanel({
   const altRouteMutation = useMutation({
     mutationFn: (values: AltRouteSchema) => requestAltRoute(values as AltRouteRequest),
     onSuccess: (data, variables) => {
-      setRouteSummary(data);
-      toast.success('Alternate route ready', {
-        description: `ETA ${data.etaMin} min · ${data.distanceKm.toFixed(2)} km`,
+      const options = getRouteOptions(data);
+      setRouteOptions({
+        origin: {
+          lat: ensureNumber(variables.originLat),
+          lon: ensureNumber(variables.originLon),
+        },
+        destination: {
+          lat: ensureNumber(variables.destLat),
+          lon: ensureNumber(variables.destLon),
+        },
+        options,
+        selectedRouteId: options[0].routeId,
+        avoidAreas: data.avoidAreas,
+        engine: data.engine,
+      });
+      toast.success(options.length === 1 ? 'Alternate route ready' : `${options.length} routes to compare`, {
+        description: `Fastest: ETA ${options[0].etaMin} min · ${options[0].distanceKm.toFixed(2)} km${
+          data.engine === 'offline' ? ' · offline road graph' : ''
+        }`,
       });
-      if (variables && onRoutePlanned) {
-        onRoutePlanned({
-          origin: {
-            lat: ensureNumber(variables.originLat),
-            lon: ensureNumber(variables.originLon),
-          },
-          destination: {
-            lat: ensureNumber(variables.destLat),
-            lon: ensureNumber(variables.destLon),
-          },
-          summary: data,
-        });
-      }
       pushActivity({
-        label: 'Alternate route generated',
+        label: 'Alternate routes generated',
         status: 'success',
-        detail: `${data.distanceKm.toFixed(1)} km · ${data.etaMin} min`,
+        detail: `${options.length} option${options.length === 1 ? '' : 's'} · best ${options[0].etaMin} min`,
       });
     },
     onError: (error: unknown) => {
+      applyFieldErrors(altRouteForm, error);
       toast.error('Route planner failed', {
-        description: extractErrorMessage(error),
+        description: getErrorMessage(error),
       });
       pushActivity({
         label: 'Route planning failed',
         status: 'error',
-        detail: extractErrorMessage(error),
+        detail: getErrorMessage(error),
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (!restoredRoute) {
+      return;
+    }
+    setActiveRoute(restoredRoute);
+    setRouteOptions(null);
+    altRouteForm.reset({
+      originLat: restoredRoute.origin.lat,
+      originLon: restoredRoute.origin.lon,
+      destLat: restoredRoute.destination.lat,
+      destLon: restoredRoute.destination.lon,
+    });
+  }, [restoredRoute, altRouteForm]);
+
+  const commitRouteOption = () => {
+    const option = routeOptions?.options.find((candidate) => candidate.routeId === routeOptions.selectedRouteId);
+    if (!routeOptions || !option) {
+      return;
+    }
+    const plan: RoutePlanPayload = {
+      origin: routeOptions.origin,
+      destination: routeOptions.destination,
+      summary: option,
+      avoidAreas: routeOptions.avoidAreas,
+      engine: routeOptions.engine,
+    };
+    setActiveRoute(plan);
+    setRouteOptions(null);
+    onRoutePlanned?.(plan);
+    pushActivity({
+      label: `Route committed (${getRouteOptionLabel(option)})`,
+      status: 'success',
+      detail: `${option.distanceKm.toFixed(1)} km · ${option.etaMin} min`,
+    });
+  };
+
+  // A route is saved once; sharing it again reuses the same link.
+  const shareRouteMutation = useMutation({
+    mutationFn: async (plan: RoutePlanPayload) => {
+      if (plan.savedRouteId) {
+        return plan.savedRouteId;
+      }
+      const { route } = await saveRoute({
+        origin: plan.origin,
+        destination: plan.destination,
+        summary: plan.summary,
+        avoidAreas: plan.avoidAreas,
+        engine: plan.engine,
+      });
+      return route.routeId;
+    },
+    onSuccess: async (routeId, plan) => {
+      setActiveRoute((current) => (current === plan ? { ...plan, savedRouteId: routeId } : current));
+      onRouteShared?.(routeId);
+      const url = getRouteShareUrl(routeId, window.location.origin);
+      const copied = await navigator.clipboard?.writeText(url).then(
+        () => true,
+        () => false,
+      );
+      toast.success(copied ? 'Share link copied' : 'Route saved', { description: url });
+      if (!plan.savedRouteId) {
+        pushActivity({ label: 'Route shared', status: 'success', detail: `Link ${routeId.slice(0, 8)}…` });
+      }
+    },
+    onError: (error: unknown) => {
+      toast.error('Could not share route', {
+        description: getErrorMessage(error),
       });
     },
   });
 
   const geofenceMutation = useMutation({
-    mutationFn: (values: GeofenceSchema) => setGeofenceAlert(values as GeofenceRequest),
-    onSuccess: (data) => {
+    mutationFn: (payload: GeofenceRequest) => setGeofenceAlert(payload, geofenceKey.keyFor(payload)),
+    onSuccess: (data, variables) => {
+      geofenceKey.settle();
       setGeofenceSummary(data);
+      const zone = isZoneGeofence(variables);
+      onGeofenceDelivered?.({
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        label: zone ? variables.label ?? 'Drawn zone' : `${variables.radiusKm} km radius`,
+        request: variables,
+        delivered: data.delivered,
+      });
+      if (zone) {
+        setZoneDraft([]);
+        setZoneLabel('');
+      }
       toast.success('Alert delivered', {
         description: `${data.delivered} responder${data.delivered === 1 ? '' : 's'} notified in geofence`,
       });
@@ -261,25 +423,80 @@ export function OperationsPanel({
       });
     },
     onError: (error: unknown) => {
+      applyFieldErrors(geofenceForm, error);
       toast.error('Could not set geofence', {
-        description: extractErrorMessage(error),
+        description: getErrorMessage(error),
       });
       pushActivity({
         label: 'Geofence alert failed',
         status: 'error',
-        detail: extractErrorMessage(error),
+        detail: getErrorMessage(error),
+      });
+    },
+  });
+
+  const watchZoneMutation = useMutation({
+    mutationFn: (payload: CreateGeofenceRequest) => createGeofence(payload),
+    onSuccess: ({ geofence }) => {
+      toast.success('Zone saved', {
+        description: `${geofence.name} will alert on reports at severity ≥ ${geofence.minSeverity}`,
+      });
+      queryClient.invalidateQueries({ queryKey: queryKeys.geofences });
+      if (isZoneGeofence(geofence.area)) {
+        setZoneDraft([]);
+        setZoneLabel('');
+      }
+      pushActivity({
+        label: `Watching ${geofence.name}`,
+        status: 'success',
+        detail: `Auto-alert at severity ≥ ${geofence.minSeverity}`,
+      });
+    },
+    onError: (error: unknown) => {
+      applyFieldErrors(geofenceForm, error, 'area.');
+      toast.error('Could not save zone', {
+        description: getErrorMessage(error),
       });
     },
   });
 
+  const watchCurrentArea = async () => {
+    const minSeverity = Number(watchThreshold);
+    if (!Number.isFinite(minSeverity) || minSeverity < 0 || minSeverity > 100) {
+      toast.error('Severity threshold must be between 0 and 100');
+      return;
+    }
+    if (geofenceShape === 'zone') {
+      if (zoneGeometry) {
+        watchZoneMutation.mutate({
+          name: zoneLabel.trim() || 'Drawn zone',
+          area: { geometry: zoneGeometry, label: zoneLabel.trim() || undefined },
+          minSeverity,
+        });
+      }
+      return;
+    }
+    if (!(await geofenceForm.trigger())) {
+      return;
+    }
+    const { lat, lon, radiusKm } = geofenceForm.getValues() as CircleGeofenceRequest;
+    watchZoneMutation.mutate({
+      name: `${radiusKm} km around ${roundCoord(lat)}, ${roundCoord(lon)}`,
+      area: { lat, lon, radiusKm },
+      minSeverity,
+    });
+  };
+
   const simulationMutation = useMutation({
-    mutationFn: simulateReplay,
+    mutationFn: () => simulateReplay(simulationKey.keyFor(null)),
     onSuccess: (data) => {
+      simulationKey.settle();
       setLastSimulation(data);
       toast.success('Replay kicked off', {
         description: `${data.count} demo events streaming in`,
       });
       queryClient.invalidateQueries({ queryKey: queryKeys.events });
+      queryClient.invalidateQueries({ queryKey: queryKeys.geofences });
       pushActivity({
         label: 'Demo replay launched',
         status: 'success',
@@ -288,12 +505,12 @@ export function OperationsPanel({
     },
     onError: (error: unknown) => {
       toast.error('Simulation failed', {
-        description: extractErrorMessage(error),
+        description: getErrorMessage(error),
       });
       pushActivity({
         label: 'Replay launch failed',
         status: 'error',
-        detail: extractErrorMessage(error),
+        detail: getErrorMessage(error),
       });
     },
   });
@@ -429,6 +646,16 @@ export function OperationsPanel({
                 </Button>
               </form>
             </Form>
+            <ImportDialog
+              onPreviewChange={onImportPreviewChange}
+              onImported={(result) =>
+                pushActivity({
+                  label: `Bulk import (${EVENT_IMPORT_FORMATS[result.format].label})`,
+                  status: result.imported ? 'success' : 'error',
+                  detail: `${result.imported} of ${result.total} rows imported`,
+                })
+              }
+            />
             <InlineHint>
               <AlertTriangle className="h-4 w-4" /> Severity and trust are auto-scored by Nova Lite downstream.
             </InlineHint>
@@ -550,102 +777,299 @@ export function OperationsPanel({
                 </div>
               </form>
             </Form>
-            {routeSummary ? (
+            {routeOptions ? (
+              <div className="space-y-3 rounded-2xl border border-border/60 bg-card/80 p-4 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-semibold">Compare routes</p>
+                  <span className="text-xs text-muted-foreground">
+                    {routeOptions.engine === 'offline' ? 'Offline road graph · ' : ''}
+                    Checked against {routeOptions.avoidAreas?.length ?? 0} hazard zone
+                    {routeOptions.avoidAreas?.length === 1 ? '' : 's'}
+                  </span>
+                </div>
+                <div className="space-y-2" role="radiogroup" aria-label="Route options">
+                  {routeOptions.options.map((option) => (
+                    <RouteOptionCard
+                      key={option.routeId}
+                      option={option}
+                      fastest={routeOptions.options[0]}
+                      selected={option.routeId === routeOptions.selectedRouteId}
+                      onSelect={() => setRouteOptions({ ...routeOptions, selectedRouteId: option.routeId })}
+                    />
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Button type="button" size="sm" className="flex-1" onClick={commitRouteOption}>
+                    Commit selected route
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" onClick={() => setRouteOptions(null)}>
+                    Discard
+                  </Button>
+                </div>
+              </div>
+            ) : activeRoute ? (
               <div className="rounded-2xl border border-border/60 bg-card/80 p-4 text-sm">
-                <p className="font-semibold">Route summary</p>
+                <p className="font-semibold">Active route · {getRouteOptionLabel(activeRoute.summary)}</p>
+                <RouteHazardNote option={activeRoute.summary} />
                 <p className="text-muted-foreground">
-                  Distance <span className="font-medium text-foreground">{routeSummary.distanceKm.toFixed(2)} km</span> · ETA{' '}
-                  <span className="font-medium text-foreground">{routeSummary.etaMin} mins</span>
+                  Distance{' '}
+                  <span className="font-medium text-foreground">{activeRoute.summary.distanceKm.toFixed(2)} km</span> · ETA{' '}
+                  <span className="font-medium text-foreground">{activeRoute.summary.etaMin} mins</span>
                 </p>
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {(Object.keys(ROUTE_EXPORT_FORMATS) as RouteExportFormat[]).map((format) => (
+                    <Button
+                      key={format}
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      className="gap-1 rounded-full text-xs"
+                      onClick={() => downloadRoute(activeRoute, format)}
+                    >
+                      <Download className="h-3.5 w-3.5" /> {ROUTE_EXPORT_FORMATS[format].label}
+                    </Button>
+                  ))}
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="ml-auto gap-1 rounded-full text-xs"
+                    disabled={shareRouteMutation.isPending}
+                    onClick={() => shareRouteMutation.mutate(activeRoute)}
+                  >
+                    {shareRouteMutation.isPending ? (
+                      <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                    ) : (
+                      <Share2 className="h-3.5 w-3.5" />
+                    )}
+                    {activeRoute.savedRouteId ? 'Copy link' : 'Share link'}
+                  </Button>
+                </div>
               </div>
             ) : null}
           </TabsContent>
 
           <TabsContent value="alerts" className="mt-5 space-y-4">
-            <Form {...geofenceForm}>
-              <form
-                className="space-y-4"
-                onSubmit={geofenceForm.handleSubmit((values) => geofenceMutation.mutate(values))}
-              >
-                <div className="grid gap-3 sm:grid-cols-2">
-                  <FormField
-                    control={geofenceForm.control}
-                    name="lat"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Latitude</FormLabel>
-                        <FormControl>
-                          <Input type="number" step="0.001" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+            <ToggleGroup
+              type="single"
+              value={geofenceShape}
+              onValueChange={(value) => {
+                if (value) {
+                  setGeofenceShape(value as 'circle' | 'zone');
+                }
+              }}
+              className="grid w-full grid-cols-2 rounded-full bg-muted/30 p-1"
+              aria-label="Geofence shape"
+            >
+              <ToggleGroupItem value="circle" className={shapeToggleClass}>
+                <CircleIcon className="h-3.5 w-3.5" /> Radius
+              </ToggleGroupItem>
+              <ToggleGroupItem value="zone" className={shapeToggleClass}>
+                <Hexagon className="h-3.5 w-3.5" /> Polygon zones
+              </ToggleGroupItem>
+            </ToggleGroup>
+            {geofenceShape === 'circle' ? (
+              <Form {...geofenceForm}>
+                <form
+                  className="space-y-4"
+                  onSubmit={geofenceForm.handleSubmit((values) => geofenceMutation.mutate(values as CircleGeofenceRequest))}
+                >
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <FormField
+                      control={geofenceForm.control}
+                      name="lat"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Latitude</FormLabel>
+                          <FormControl>
+                            <Input type="number" step="0.001" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={geofenceForm.control}
+                      name="lon"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Longitude</FormLabel>
+                          <FormControl>
+                            <Input type="number" step="0.001" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
                   <FormField
                     control={geofenceForm.control}
-                    name="lon"
+                    name="radiusKm"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Longitude</FormLabel>
+                        <FormLabel>Radius (km)</FormLabel>
                         <FormControl>
-                          <Input type="number" step="0.001" {...field} />
+                          <Input type="number" step="0.1" min="0" {...field} />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
-                </div>
-                <FormField
-                  control={geofenceForm.control}
-                  name="radiusKm"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Radius (km)</FormLabel>
-                      <FormControl>
-                        <Input type="number" step="0.1" min="0" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
+                  <Button type="submit" className="w-full" disabled={geofenceMutation.isPending}>
+                    {geofenceMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                    Send geofence alert
+                  </Button>
+                  <div className="flex justify-end">
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={activeCoordinateSelection === 'geofence-center' ? 'default' : 'ghost'}
+                      className="gap-2 rounded-full text-xs"
+                      onClick={() => {
+                        if (activeCoordinateSelection === 'geofence-center') {
+                          onCoordinateSelectionRequest?.(null);
+                          return;
+                        }
+                        onCoordinateSelectionRequest?.({
+                          id: 'geofence-center',
+                          label: 'geofence center',
+                          onSelect: ({ lat, lon }) => {
+                            geofenceForm.setValue('lat', roundCoord(lat), { shouldDirty: true, shouldTouch: true });
+                            geofenceForm.setValue('lon', roundCoord(lon), { shouldDirty: true, shouldTouch: true });
+                            toast.success('Geofence center set from map');
+                          },
+                        });
+                      }}
+                    >
+                      <MapPin className="h-4 w-4" />
+                      {activeCoordinateSelection === 'geofence-center' ? 'Tap map to confirm…' : 'Select center on map'}
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={activeCoordinateSelection === 'geofence-circle' ? 'default' : 'ghost'}
+                      className="gap-2 rounded-full text-xs"
+                      onClick={() => {
+                        if (activeCoordinateSelection === 'geofence-circle') {
+                          onCoordinateSelectionRequest?.(null);
+                          return;
+                        }
+                        onCoordinateSelectionRequest?.({
+                          id: 'geofence-circle',
+                          label: 'geofence center, then its edge',
+                          mode: 'circle',
+                          onComplete: ([center, edge]) => {
+                            const radius = Math.min(Math.max(haversineKm(center, edge), 0.1), 50);
+                            geofenceForm.setValue('lat', roundCoord(center.lat), { shouldDirty: true, shouldTouch: true });
+                            geofenceForm.setValue('lon', roundCoord(center.lon), { shouldDirty: true, shouldTouch: true });
+                            geofenceForm.setValue('radiusKm', Number(radius.toFixed(1)), { shouldDirty: true, shouldTouch: true });
+                            toast.success('Geofence radius drawn on map');
+                          },
+                        });
+                      }}
+                    >
+                      <CircleIcon className="h-4 w-4" />
+                      {activeCoordinateSelection === 'geofence-circle' ? 'Drawing radius…' : 'Draw radius on map'}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            ) : (
+              <div className="space-y-4">
+                <Input
+                  placeholder="Zone name (e.g. Klang riverbank)"
+                  value={zoneLabel}
+                  onChange={(event) => setZoneLabel(event.target.value)}
                 />
-                <Button type="submit" className="w-full" disabled={geofenceMutation.isPending}>
-                  {geofenceMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
-                  Send geofence alert
-                </Button>
-                <div className="flex justify-end">
+                <div className="rounded-2xl border border-dashed border-border/60 p-3 text-xs text-muted-foreground">
+                  {zoneDraft.length === 0
+                    ? 'Draw one or more polygons on the mission map; they are sent together as a single alert.'
+                    : `${zoneDraft.length} zone${zoneDraft.length === 1 ? '' : 's'} drafted · ${zoneDraft.reduce(
+                        (sum, polygon) => sum + polygon[0].length - 1,
+                        0,
+                      )} vertices`}
+                </div>
+                <div className="grid gap-2 sm:grid-cols-2">
                   <Button
                     type="button"
                     size="sm"
-                    variant={activeCoordinateSelection === 'geofence-center' ? 'default' : 'ghost'}
+                    variant={activeCoordinateSelection === 'geofence-zone' ? 'default' : 'ghost'}
                     className="gap-2 rounded-full text-xs"
                     onClick={() => {
-                      if (activeCoordinateSelection === 'geofence-center') {
+                      if (activeCoordinateSelection === 'geofence-zone') {
                         onCoordinateSelectionRequest?.(null);
                         return;
                       }
                       onCoordinateSelectionRequest?.({
-                        id: 'geofence-center',
-                        label: 'geofence center',
-                        onSelect: ({ lat, lon }) => {
-                          geofenceForm.setValue('lat', roundCoord(lat), { shouldDirty: true, shouldTouch: true });
-                          geofenceForm.setValue('lon', roundCoord(lon), { shouldDirty: true, shouldTouch: true });
-                          toast.success('Geofence center set from map');
+                        id: 'geofence-zone',
+                        label: 'zone vertices',
+                        mode: 'polygon',
+                        onComplete: (points) => {
+                          setZoneDraft((previous) => [...previous, [toGeoJsonRing(points)]]);
+                          toast.success('Zone added to draft');
                         },
                       });
                     }}
                   >
-                    <MapPin className="h-4 w-4" />
-                    {activeCoordinateSelection === 'geofence-center' ? 'Tap map to confirm…' : 'Select center on map'}
+                    <Hexagon className="h-4 w-4" />
+                    {activeCoordinateSelection === 'geofence-zone' ? 'Drawing zone…' : zoneDraft.length ? 'Add another zone' : 'Draw zone on map'}
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="rounded-full text-xs"
+                    disabled={zoneDraft.length === 0}
+                    onClick={() => setZoneDraft([])}
+                  >
+                    Clear zones
                   </Button>
                 </div>
-              </form>
-            </Form>
+                <Button
+                  type="button"
+                  className="w-full"
+                  disabled={!zoneGeometry || geofenceMutation.isPending}
+                  onClick={() => {
+                    if (zoneGeometry) {
+                      geofenceMutation.mutate({ geometry: zoneGeometry, label: zoneLabel.trim() || undefined });
+                    }
+                  }}
+                >
+                  {geofenceMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                  Send zone alert
+                </Button>
+              </div>
+            )}
+            {canWatchZones ? (
+              <div className="flex items-end gap-2 rounded-2xl border border-border/60 p-3">
+                <label className="flex-1 space-y-1 text-xs text-muted-foreground">
+                  <span>Watch and auto-alert at severity ≥</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={watchThreshold}
+                    onChange={(event) => setWatchThreshold(event.target.value)}
+                  />
+                </label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="gap-2"
+                  disabled={watchZoneMutation.isPending || (geofenceShape === 'zone' && !zoneGeometry)}
+                  onClick={() => void watchCurrentArea()}
+                >
+                  {watchZoneMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <BellRing className="h-4 w-4" />}
+                  Watch zone
+                </Button>
+              </div>
+            ) : null}
             {geofenceSummary ? (
               <div className="rounded-2xl border bg-muted/50 p-4 text-sm">
                 <p className="font-semibold">Alert status</p>
                 <p className="text-muted-foreground">
                   Delivered to <span className="font-medium text-foreground">{geofenceSummary.delivered}</span> unit
-                  {geofenceSummary.delivered === 1 ? '' : 's'} in radius.
+                  {geofenceSummary.delivered === 1 ? '' : 's'} in the geofence.
                 </p>
               </div>
             ) : null}
@@ -692,24 +1116,115 @@ function sanitisePayload(values: IngestSchema): IngestEventRequest {
   };
 }
 
+function buildZoneGeometry(polygons: GeoJsonPosition[][][]): GeofenceGeometry | null {
+  if (polygons.length === 0) {
+    return null;
+  }
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+}
+
+const shapeToggleClass =
+  'gap-1 rounded-full text-xs font-medium text-muted-foreground data-[state=on]:bg-background data-[state=on]:text-foreground data-[state=on]:shadow-sm';
+
+// Shows field errors from a 400 problem response under the inputs they belong to.
+function applyFieldErrors<T extends FieldValues>(form: UseFormReturn<T>, error: unknown, prefix = '') {
+  const fields = Object.keys(form.getValues());
+  for (const { path, message } of getFieldErrors(error)) {
+    const field = path.startsWith(prefix) ? path.slice(prefix.length) : '';
+    if (fields.includes(field)) {
+      form.setError(field as Path<T>, { type: 'server', message });
+    }
+  }
+}
+
+function downloadRoute(route: RoutePlanPayload, format: RouteExportFormat) {
+  const generatedAt = Date.now();
+  const blob = new Blob([serializeRoute(route, format, generatedAt)], {
+    type: ROUTE_EXPORT_FORMATS[format].contentType,
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getRouteExportFilename(format, generatedAt);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 function ensureNumber(value: number | undefined) {
   return typeof value === 'number' ? value : Number(value ?? 0);
 }
 
-function extractErrorMessage(error: unknown) {
-  if (error instanceof ApiError) {
-    if (typeof error.details === 'object' && error.details && 'message' in (error.details as Record<string, unknown>)) {
-      return String((error.details as Record<string, unknown>).message);
-    }
-    if (typeof error.details === 'string') {
-      return error.details;
-    }
-    return `${error.status} · ${error.message}`;
+function RouteOptionCard({
+  option,
+  fastest,
+  selected,
+  onSelect,
+}: {
+  option: AltRouteOption;
+  fastest: AltRouteOption;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  const style = getRouteOptionStyle(option.rank);
+  const extraMin = option.etaMin - fastest.etaMin;
+  return (
+    <button
+      type="button"
+      role="radio"
+      aria-checked={selected}
+      onClick={onSelect}
+      className={cn(
+        'w-full rounded-xl border border-border/60 p-3 text-left transition hover:border-primary/50',
+        selected && 'border-primary bg-primary/5 shadow-sm',
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <svg width="28" height="8" aria-hidden className="shrink-0">
+          <line x1="0" y1="4" x2="28" y2="4" stroke={style.color} strokeWidth="3" strokeDasharray={style.dashArray} />
+        </svg>
+        <span className="font-medium">{getRouteOptionLabel(option)}</span>
+        <span className="ml-auto text-xs text-muted-foreground">
+          {option.distanceKm.toFixed(1)} km · {option.etaMin} min
+          {extraMin > 0 ? <span className="text-amber-500"> (+{extraMin})</span> : null}
+        </span>
+      </div>
+      <RouteHazardNote option={option} className="pl-9" />
+      {option.legs && option.legs.length > 1 ? (
+        <ol className="mt-2 space-y-0.5 pl-9 text-xs text-muted-foreground">
+          {option.legs.map((leg, index) => {
+            const minutes = getLegDurationMin(leg);
+            return (
+              <li key={index}>
+                Leg {index + 1}: {leg.distanceMeters !== undefined ? `${(leg.distanceMeters / 1000).toFixed(1)} km` : '—'}
+                {minutes !== undefined ? ` · ${minutes} min` : ''}
+              </li>
+            );
+          })}
+        </ol>
+      ) : null}
+    </button>
+  );
+}
+
+function RouteHazardNote({ option, className }: { option: AltRouteOption; className?: string }) {
+  if (!option.hazards) {
+    return null;
   }
-  if (error instanceof Error) {
-    return error.message;
+  const [nearest] = option.hazards;
+  if (!nearest) {
+    return <p className={cn('mt-1 text-xs text-emerald-600', className)}>Clear of known hazards</p>;
   }
-  return 'Unexpected error';
+  return (
+    <p className={cn('mt-1 flex items-center gap-1 text-xs', option.crossesHazard ? 'text-red-500' : 'text-amber-500', className)}>
+      <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+      <span className="truncate">
+        {nearest.crosses ? 'Crosses' : `Passes ${nearest.distanceKm.toFixed(1)} km from`} {nearest.label}
+        {option.hazards.length > 1 ? ` (+${option.hazards.length - 1} more)` : ''}
+      </span>
+    </p>
+  );
 }
 
 function InlineHint({ children }: { children: React.ReactNode }) {
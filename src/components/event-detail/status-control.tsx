@@ -0,0 +1,125 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { History, Loader2 } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import { getErrorMessage, transitionEventStatus } from '@/lib/api-client';
+import { INCIDENT_STATUS_META, getAllowedTransitions, getIncidentStatus } from '@/lib/incident-lifecycle';
+import { queryKeys } from '@/lib/query-keys';
+import { cn } from '@/lib/utils';
+import type { IncidentStatus, SarEvent } from '@/types/sar';
+
+const OPERATOR_STORAGE_KEY = 'sar-operator-name';
+
+interface StatusControlProps {
+  event: SarEvent;
+  /** False when the backend cannot store status changes (the AWS backend); the history stays visible. */
+  editable: boolean;
+}
+
+export function StatusControl({ event, editable }: StatusControlProps) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [actor, setActor] = useState('');
+  const [note, setNote] = useState('');
+  const status = getIncidentStatus(event);
+  const meta = INCIDENT_STATUS_META[status];
+  const history = [...(event.statusHistory ?? [])].reverse();
+
+  useEffect(() => {
+    setActor(window.localStorage.getItem(OPERATOR_STORAGE_KEY) ?? '');
+  }, []);
+
+  const mutation = useMutation({
+    mutationFn: (next: IncidentStatus) =>
+      transitionEventStatus(event.eventId, { status: next, actor: actor.trim(), note: note.trim() || undefined }),
+    onSuccess: (_, next) => {
+      window.localStorage.setItem(OPERATOR_STORAGE_KEY, actor.trim());
+      toast.success(`Incident marked ${INCIDENT_STATUS_META[next].label.toLowerCase()}`);
+      setNote('');
+      queryClient.invalidateQueries({ queryKey: queryKeys.events });
+      router.refresh();
+    },
+    onError: (error: unknown) => {
+      toast.error('Could not update status', {
+        description: getErrorMessage(error),
+      });
+    },
+  });
+
+  const transitions = getAllowedTransitions(status);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-lg font-semibold">Incident status</CardTitle>
+        <Badge className={cn('rounded-full px-3 py-1 text-xs font-semibold', meta.className)}>{meta.label}</Badge>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <p className="text-xs text-muted-foreground">
+          {event.statusUpdatedBy
+            ? `Updated by ${event.statusUpdatedBy} · ${new Date(event.statusUpdatedAt ?? Date.now()).toLocaleString()}`
+            : 'No status changes recorded yet.'}
+        </p>
+        {editable ? (
+          <>
+            <div className="space-y-2">
+              <Input placeholder="Your name or call sign" value={actor} onChange={(change) => setActor(change.target.value)} />
+              <Input placeholder="Note (optional)" value={note} onChange={(change) => setNote(change.target.value)} />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {transitions.map((next) => (
+                <Button
+                  key={next}
+                  size="sm"
+                  variant={next === 'false-alarm' ? 'outline' : 'default'}
+                  className="rounded-full text-xs"
+                  disabled={mutation.isPending || actor.trim().length === 0}
+                  onClick={() => mutation.mutate(next)}
+                >
+                  {mutation.isPending && mutation.variables === next ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" /> : null}
+                  Mark {INCIDENT_STATUS_META[next].label.toLowerCase()}
+                </Button>
+              ))}
+            </div>
+          </>
+        ) : (
+          <p className="rounded-xl bg-muted/50 px-3 py-2 text-xs text-muted-foreground">
+            Status changes are stored only by the local backend (<code>SAR_BACKEND_MODE=local</code>).
+          </p>
+        )}
+        {history.length > 0 ? (
+          <>
+            <Separator />
+            <div>
+              <p className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                <History className="h-3.5 w-3.5" /> History
+              </p>
+              <ol className="mt-2 space-y-2 text-xs">
+                {history.map((change) => (
+                  <li key={`${change.at}-${change.to}`} className="rounded-xl bg-muted/50 px-3 py-2">
+                    <p className="font-medium text-foreground">
+                      {INCIDENT_STATUS_META[change.from].label} → {INCIDENT_STATUS_META[change.to].label}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {change.actor} · {new Date(change.at).toLocaleString()}
+                    </p>
+                    {change.note ? <p className="text-muted-foreground">{change.note}</p> : null}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+
+import { getEventStreamUrl } from '@/lib/api-client';
+import { applyEventDeltas } from '@/lib/event-utils';
+import { queryKeys } from '@/lib/query-keys';
+import type { EventStreamMessages, ListEventsResponse } from '@/types/sar';
+
+export type EventStreamState = 'connecting' | 'live' | 'degraded' | 'offline';
+
+const RECONNECT_DELAY_MS = 30_000;
+
+// Mirrors `/api/events/stream` into the `queryKeys.events` cache. Callers should
+// keep polling whenever the returned state is not `live`.
+export function useEventStream(enabled = true) {
+  const queryClient = useQueryClient();
+  const [state, setState] = useState<EventStreamState>(enabled ? 'connecting' : 'offline');
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') {
+      setState('offline');
+      return;
+    }
+
+    setState('connecting');
+    const source = new EventSource(getEventStreamUrl());
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    // Filtered, paged and viewport lists cannot be patched locally; refetch them instead.
+    const refreshDerivedLists = () =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.events, predicate: (query) => query.queryKey.length > 1 });
+
+    const parse = <K extends keyof EventStreamMessages>(message: MessageEvent<string>) =>
+      JSON.parse(message.data) as EventStreamMessages[K];
+
+    const handleSnapshot = (message: MessageEvent<string>) => {
+      const payload = parse<'snapshot'>(message);
+      queryClient.setQueryData<ListEventsResponse>(queryKeys.events, { events: payload.events });
+      void refreshDerivedLists();
+      setState('live');
+    };
+
+    const handleDelta = (message: MessageEvent<string>) => {
+      const { deltas } = parse<'delta'>(message);
+      queryClient.setQueryData<ListEventsResponse>(queryKeys.events, (previous) => ({
+        events: applyEventDeltas(previous?.events ?? [], deltas),
+      }));
+      void refreshDerivedLists();
+      setState('live');
+    };
+
+    const handleBackendError = () => setState('degraded');
+
+    source.addEventListener('snapshot', handleSnapshot);
+    source.addEventListener('delta', handleDelta);
+    source.addEventListener('error', (event) => {
+      if (event instanceof MessageEvent) {
+        handleBackendError();
+        return;
+      }
+      // Transport error: EventSource retries on its own unless the server refused outright.
+      if (source.readyState !== EventSource.CLOSED) {
+        setState('connecting');
+        return;
+      }
+      setState('offline');
+      reconnectTimer = setTimeout(() => setAttempt((value) => value + 1), RECONNECT_DELAY_MS);
+    });
+
+    return () => {
+      clearTimeout(reconnectTimer);
+      source.close();
+    };
+  }, [enabled, queryClient, attempt]);
+
+  return state;
+}
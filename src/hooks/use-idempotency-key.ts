@@ -0,0 +1,26 @@
+'use client';
+
+import { useCallback, useRef } from 'react';
+
+import { createIdempotencyKey } from '@/lib/api-client';
+
+// Hands out one Idempotency-Key per distinct payload, so a double click or a retry of the
+// same submission reuses it. Call `settle` once the submission succeeds so the next one,
+// even with an identical payload, counts as new.
+export function useIdempotencyKey() {
+  const current = useRef<{ key: string; fingerprint: string } | null>(null);
+
+  const keyFor = useCallback((payload: unknown) => {
+    const fingerprint = JSON.stringify(payload ?? null);
+    if (current.current?.fingerprint !== fingerprint) {
+      current.current = { key: createIdempotencyKey(), fingerprint };
+    }
+    return current.current.key;
+  }, []);
+
+  const settle = useCallback(() => {
+    current.current = null;
+  }, []);
+
+  return { keyFor, settle };
+}
@@ -3,14 +3,33 @@
 import type {
   AltRouteRequest,
   AltRouteResponse,
+  BackendHealthResponse,
+  BulkImportRequest,
+  BulkImportResponse,
+  CreateGeofenceRequest,
+  DeleteGeofenceResponse,
   ExplainEventResponse,
+  FieldError,
   GeofenceRequest,
   GeofenceResponse,
   IngestEventRequest,
   IngestEventResponse,
+  ListEventsParams,
   ListEventsResponse,
+  ListGeofenceAlertsResponse,
+  ListGeofencesResponse,
+  MissionRouteRequest,
+  MissionRouteResponse,
+  SaveGeofenceResponse,
+  SaveRouteRequest,
+  SavedRouteResponse,
   SimulateReplayResponse,
+  TransitionEventStatusRequest,
+  TransitionEventStatusResponse,
+  UpdateGeofenceRequest,
 } from '@/types/sar';
+import type { EventExportFormat } from '@/lib/event-export';
+import { serializeListEventsParams } from '@/lib/event-query';
 
 export class ApiError extends Error {
   readonly status: number;
@@ -23,6 +42,38 @@ export class ApiError extends Error {
   }
 }
 
+export function getErrorMessage(error: unknown) {
+  if (error instanceof ApiError) {
+    // Next routes answer with problem details; the AWS backend with `{ message }`.
+    const details = typeof error.details === 'object' && error.details ? (error.details as Record<string, unknown>) : {};
+    const message = details.detail ?? details.title ?? details.message;
+    if (typeof message === 'string') {
+      return message;
+    }
+    if (typeof error.details === 'string') {
+      return error.details;
+    }
+    return `${error.status} · ${error.message}`;
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return 'Unexpected error';
+}
+
+// Field-level problems from a 400 problem response, e.g. `{ path: 'originLat', message: 'Latitude must be ≤ 90' }`.
+export function getFieldErrors(error: unknown): FieldError[] {
+  if (!(error instanceof ApiError) || typeof error.details !== 'object' || !error.details) {
+    return [];
+  }
+  const { errors } = error.details as { errors?: unknown };
+  return Array.isArray(errors)
+    ? errors.filter(
+        (entry): entry is FieldError => typeof entry?.path === 'string' && typeof entry?.message === 'string',
+      )
+    : [];
+}
+
 const PUBLIC_API_BASE = process.env.NEXT_PUBLIC_SAR_API_BASE?.replace(/\/$/, '') ?? null;
 
 function buildUrl(path: string) {
@@ -33,16 +84,30 @@ function buildUrl(path: string) {
   return `/api/${trimmed}`;
 }
 
-async function fetchJson<T>(path: string, init: RequestInit = {}): Promise<T> {
+// One key per logical submission; repeats of that submission must reuse it.
+export function createIdempotencyKey() {
+  return globalThis.crypto?.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 14)}`;
+}
+
+// Only the Next.js routes keep a key store, and API Gateway's CORS allow-list may not admit the header.
+function idempotencyHeaders(key: string): Record<string, string> {
+  return PUBLIC_API_BASE ? {} : { 'Idempotency-Key': key };
+}
+
+function fetchJson<T>(path: string, init: RequestInit = {}): Promise<T> {
+  return requestJson<T>(buildUrl(path), init);
+}
+
+async function requestJson<T>(url: string, init: RequestInit = {}): Promise<T> {
   const headers = new Headers(init.headers);
   if (init.body && !headers.has('content-type')) {
     headers.set('content-type', 'application/json');
   }
 
-  const response = await fetch(buildUrl(path), {
+  const response = await fetch(url, {
     ...init,
     headers,
-    cache: 'no-store',
+    cache: init.cache ?? 'no-store',
   });
 
   if (!response.ok) {
@@ -59,12 +124,41 @@ async function fetchJson<T>(path: string, init: RequestInit = {}): Promise<T> {
   return (await response.json()) as T;
 }
 
-export function getEvents() {
-  return fetchJson<ListEventsResponse>('events');
+export function getEvents(params: ListEventsParams = {}) {
+  const query = new URLSearchParams(serializeListEventsParams(params)).toString();
+  // Revalidates against the browser cache, so an unchanged list comes back as a bodiless 304.
+  return fetchJson<ListEventsResponse>(query ? `events?${query}` : 'events', { cache: 'no-cache' });
 }
 
-export function ingestEvent(payload: IngestEventRequest) {
+// Always served by the Next.js proxy: the AWS backend has no streaming endpoint.
+export function getEventStreamUrl() {
+  return '/api/events/stream';
+}
+
+// Exports are rendered by the Next.js route, which applies the same filters as `getEvents`.
+export function getEventExportUrl(params: ListEventsParams, format: EventExportFormat) {
+  const query = new URLSearchParams({
+    ...serializeListEventsParams({ ...params, cursor: undefined, limit: undefined }),
+    format,
+  });
+  return `/api/events/export?${query.toString()}`;
+}
+
+// The circuit breaker lives in the Next.js server, so this never goes to the AWS backend directly.
+export function getBackendHealth() {
+  return requestJson<BackendHealthResponse>('/api/health');
+}
+
+export function ingestEvent(payload: IngestEventRequest, idempotencyKey = createIdempotencyKey()) {
   return fetchJson<IngestEventResponse>('ingest', {
+    method: 'POST',
+    headers: idempotencyHeaders(idempotencyKey),
+    body: JSON.stringify(payload),
+  });
+}
+
+export function importEvents(payload: BulkImportRequest) {
+  return fetchJson<BulkImportResponse>('ingest/bulk', {
     method: 'POST',
     body: JSON.stringify(payload),
   });
@@ -74,6 +168,13 @@ export function explainEvent(eventId: string) {
   return fetchJson<ExplainEventResponse>(`events/${encodeURIComponent(eventId)}/explain`);
 }
 
+export function transitionEventStatus(eventId: string, payload: TransitionEventStatusRequest) {
+  return fetchJson<TransitionEventStatusResponse>(`events/${encodeURIComponent(eventId)}/status`, {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+}
+
 export function requestAltRoute(payload: AltRouteRequest) {
   return fetchJson<AltRouteResponse>('routes/alt', {
     method: 'POST',
@@ -81,16 +182,65 @@ export function requestAltRoute(payload: AltRouteRequest) {
   });
 }
 
-export function setGeofenceAlert(payload: GeofenceRequest) {
+// Always served by the Next.js route, which routes each leg through `/routes/alt`.
+export function requestMissionRoute(payload: MissionRouteRequest) {
+  return requestJson<MissionRouteResponse>('/api/routes/mission', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+}
+
+export function saveRoute(payload: SaveRouteRequest) {
+  return fetchJson<SavedRouteResponse>('routes/saved', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+}
+
+export function getSavedRoute(routeId: string) {
+  return fetchJson<SavedRouteResponse>(`routes/saved/${encodeURIComponent(routeId)}`);
+}
+
+export function setGeofenceAlert(payload: GeofenceRequest, idempotencyKey = createIdempotencyKey()) {
   return fetchJson<GeofenceResponse>('alerts/geofence', {
+    method: 'POST',
+    headers: idempotencyHeaders(idempotencyKey),
+    body: JSON.stringify(payload),
+  });
+}
+
+export function getGeofences() {
+  return fetchJson<ListGeofencesResponse>('geofences');
+}
+
+export function createGeofence(payload: CreateGeofenceRequest) {
+  return fetchJson<SaveGeofenceResponse>('geofences', {
     method: 'POST',
     body: JSON.stringify(payload),
   });
 }
 
-export function simulateReplay() {
+export function updateGeofence(geofenceId: string, payload: UpdateGeofenceRequest) {
+  return fetchJson<SaveGeofenceResponse>(`geofences/${encodeURIComponent(geofenceId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(payload),
+  });
+}
+
+export function deleteGeofence(geofenceId: string) {
+  return fetchJson<DeleteGeofenceResponse>(`geofences/${encodeURIComponent(geofenceId)}`, {
+    method: 'DELETE',
+  });
+}
+
+export function getGeofenceAlerts(geofenceId: string) {
+  return fetchJson<ListGeofenceAlertsResponse>(`geofences/${encodeURIComponent(geofenceId)}/alerts`);
+}
+
+export function simulateReplay(idempotencyKey = createIdempotencyKey()) {
   return fetchJson<SimulateReplayResponse>('simulate/replay', {
     method: 'POST',
+    headers: idempotencyHeaders(idempotencyKey),
     body: JSON.stringify({}),
   });
 }
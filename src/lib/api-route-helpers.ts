@@ -1,18 +1,113 @@
+import { createHash } from "node:crypto";
 import { NextResponse } from "next/server";
+import type { z } from "zod";
+
+import type { FieldError, ProblemDetails } from "@/types/sar";
 
 import { BackendRequestError } from "./server-api";
 
+export const PROBLEM_CONTENT_TYPE = "application/problem+json";
+
+// Thrown while reading a request; `backendErrorResponse` answers it with a 400 problem.
+export class RequestValidationError extends Error {
+  readonly errors: FieldError[];
+
+  constructor(message: string, errors: FieldError[] = []) {
+    super(message);
+    this.errors = errors;
+  }
+}
+
+// RFC 9457 problem details. `detail` is what the dashboard shows the operator.
+export function problemResponse(
+  status: number,
+  title: string,
+  extras: Pick<ProblemDetails, "detail" | "errors"> = {},
+) {
+  const body: ProblemDetails = { type: "about:blank", title, status, ...extras };
+  return NextResponse.json(body, { status, headers: { "content-type": PROBLEM_CONTENT_TYPE } });
+}
+
+// Strong ETag over the serialized body. Clients revalidate on every request (`no-cache`) and a
+// matching If-None-Match gets an empty 304 instead of the full payload.
+export function jsonWithETag(request: Request, body: unknown) {
+  const json = JSON.stringify(body);
+  const etag = `"${createHash("sha1").update(json).digest("base64url")}"`;
+  const headers = { etag, "cache-control": "private, no-cache" };
+  if (matchesETag(request.headers.get("if-none-match"), etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  return new NextResponse(json, { headers: { ...headers, "content-type": "application/json" } });
+}
+
+// If-None-Match uses weak comparison, so a `W/` prefix added by a proxy still matches.
+function matchesETag(header: string | null, etag: string) {
+  return (header ?? "").split(",").some((candidate) => {
+    const value = candidate.trim();
+    return value === "*" || value.replace(/^W\//, "") === etag;
+  });
+}
+
+export async function readJsonBody<S extends z.ZodType>(request: Request, schema: S): Promise<z.output<S>> {
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    throw new RequestValidationError("Request body must be valid JSON");
+  }
+  return validate(payload, schema);
+}
+
+export async function readParams<S extends z.ZodType>(params: Promise<unknown>, schema: S): Promise<z.output<S>> {
+  return validate(await params, schema);
+}
+
+function validate<S extends z.ZodType>(value: unknown, schema: S): z.output<S> {
+  const parsed = schema.safeParse(value);
+  if (!parsed.success) {
+    const errors = toFieldErrors(parsed.error.issues);
+    const detail = errors.map((error) => (error.path ? `${error.path}: ${error.message}` : error.message)).join("; ");
+    throw new RequestValidationError(detail, errors);
+  }
+  return parsed.data;
+}
+
+// A failed union reports every branch's issues; the branch with the fewest is the one the caller meant.
+function toFieldErrors(issues: readonly z.core.$ZodIssue[], prefix: PropertyKey[] = []): FieldError[] {
+  return issues.flatMap((issue) => {
+    const path = [...prefix, ...issue.path];
+    if (issue.code === "invalid_union" && issue.errors.length > 0) {
+      const closest = issue.errors.reduce((best, branch) => (branch.length < best.length ? branch : best));
+      return toFieldErrors(closest, path);
+    }
+    return [{ path: path.map(String).join("."), message: issue.message }];
+  });
+}
+
 export function backendErrorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof RequestValidationError) {
+    return problemResponse(400, "Invalid request", {
+      detail: error.message,
+      errors: error.errors.length > 0 ? error.errors : undefined,
+    });
+  }
   if (error instanceof BackendRequestError) {
-    return NextResponse.json(
-      {
-        message: fallbackMessage,
-        details: error.payload,
-      },
-      { status: error.status },
-    );
+    return problemResponse(error.status, fallbackMessage, { detail: readBackendMessage(error.payload) });
   }
 
   console.error(fallbackMessage, error);
-  return NextResponse.json({ message: fallbackMessage }, { status: 500 });
+  return problemResponse(500, fallbackMessage);
+}
+
+function readBackendMessage(text: string) {
+  try {
+    const payload = JSON.parse(text) as Record<string, unknown>;
+    const message = payload?.detail ?? payload?.message ?? payload?.error;
+    if (typeof message === "string") {
+      return message;
+    }
+  } catch {
+    // Not JSON; fall back to the raw body.
+  }
+  return text.trim() || undefined;
 }
@@ -0,0 +1,91 @@
+import "server-only";
+
+import { callBackendJson } from "./server-api";
+import type { ExplainEventResponse, ListEventsResponse } from "@/types/sar";
+
+const EVENTS_TTL_MS = Number(process.env.SAR_EVENTS_CACHE_TTL_MS ?? 5_000);
+// Explanations are a Bedrock call each and only change when the event is reclassified.
+const EXPLANATION_TTL_MS = Number(process.env.SAR_EXPLAIN_CACHE_TTL_MS ?? 5 * 60_000);
+const MAX_ENTRIES = 500;
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+// Read-through cache for backend reads. Concurrent misses for one key share a single backend
+// call, and a load that was already running when the cache was cleared is never stored, so a
+// write is always visible to the next read. Cached values are shared: callers must not mutate them.
+export class BackendCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+  private generation = 0;
+
+  get<T>(key: string, ttlMs: number, load: () => Promise<T>): Promise<T> {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return Promise.resolve(entry.value as T);
+    }
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const generation = this.generation;
+    const promise = load()
+      .then((value) => {
+        if (generation === this.generation) {
+          this.store(key, value, ttlMs);
+        }
+        return value;
+      })
+      .finally(() => {
+        if (this.inFlight.get(key) === promise) {
+          this.inFlight.delete(key);
+        }
+      });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  clear() {
+    this.generation += 1;
+    this.entries.clear();
+    this.inFlight.clear();
+  }
+
+  private store(key: string, value: unknown, ttlMs: number) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= MAX_ENTRIES) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+// Route handlers can be bundled separately in dev, so keep a single cache per process.
+const globalForCache = globalThis as typeof globalThis & { __sarBackendCache?: BackendCache };
+const cache = (globalForCache.__sarBackendCache ??= new BackendCache());
+
+export function getCachedEvents(searchParams: Record<string, string | undefined> = {}) {
+  const entries = Object.entries(searchParams)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  const key = `events?${new URLSearchParams(entries).toString()}`;
+  return cache.get(key, EVENTS_TTL_MS, () =>
+    callBackendJson<ListEventsResponse>("events", { searchParams: Object.fromEntries(entries) }),
+  );
+}
+
+export function getCachedExplanation(eventId: string) {
+  const path = `events/${encodeURIComponent(eventId)}/explain`;
+  return cache.get(path, EXPLANATION_TTL_MS, () => callBackendJson<ExplainEventResponse>(path));
+}
+
+// Called after writes made through this server, before the event stream re-polls.
+export function invalidateEventCache() {
+  cache.clear();
+}
@@ -0,0 +1,124 @@
+import { haversineKm, hasCoordinates } from '@/lib/geo';
+import { getIncidentStatus, isIncidentOpen } from '@/lib/incident-lifecycle';
+import type { IngestEventRequest, SarEvent } from '@/types/sar';
+
+export const DUPLICATE_WINDOW_MS = 3 * 60 * 60 * 1000;
+export const DUPLICATE_RADIUS_KM = 1.5;
+export const DUPLICATE_THRESHOLD = 0.6;
+// Proximity and recency alone never make a duplicate: two different emergencies can share a street and a minute.
+export const MIN_DUPLICATE_TEXT_SIMILARITY = 0.2;
+
+const STOPWORDS = new Set([
+  // Bahasa Malaysia
+  'di', 'ke', 'dari', 'dan', 'yang', 'ini', 'itu', 'ada', 'dengan', 'untuk', 'pada', 'sudah', 'telah', 'akan',
+  'sangat', 'juga', 'kami', 'kita', 'saya', 'mereka', 'beberapa', 'sini', 'sana', 'kawasan', 'tu', 'ni', 'la', 'lah',
+  // English
+  'the', 'a', 'an', 'and', 'or', 'in', 'on', 'at', 'of', 'to', 'is', 'are', 'was', 'be', 'near', 'with', 'for',
+  'from', 'by', 'some', 'still', 'area', 'very', 'we', 'our', 'there', 'here', 'now',
+]);
+
+// Folds common BM vocabulary onto English so bilingual reports of one incident overlap.
+const SYNONYMS: Record<string, string> = {
+  banjir: 'flood',
+  flooding: 'flood',
+  flooded: 'flood',
+  kilat: 'flash',
+  air: 'water',
+  naik: 'rising',
+  rise: 'rising',
+  cepat: 'fast',
+  sungai: 'river',
+  jalan: 'road',
+  jln: 'road',
+  rumah: 'house',
+  kereta: 'car',
+  terperangkap: 'trapped',
+  terkandas: 'stranded',
+  mangsa: 'victim',
+  tolong: 'help',
+  bantuan: 'help',
+  segera: 'urgent',
+  runtuh: 'landslide',
+  tanah: 'landslide',
+  pindah: 'evacuate',
+  evacuating: 'evacuate',
+  evacuation: 'evacuate',
+};
+
+export interface DuplicateMatch {
+  event: SarEvent;
+  score: number;
+}
+
+export function tokenizeReport(text: string) {
+  const tokens = text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token))
+    .map((token) => SYNONYMS[token] ?? stripPlural(token));
+  return new Set(tokens);
+}
+
+// Jaccard overlap of the normalised token sets, 0–1.
+export function textSimilarity(a: string, b: string) {
+  const left = tokenizeReport(a);
+  const right = tokenizeReport(b);
+  if (left.size === 0 || right.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const token of left) {
+    if (right.has(token)) {
+      shared += 1;
+    }
+  }
+  return shared / (left.size + right.size - shared);
+}
+
+// Blends proximity, recency and wording; reports without coordinates lean on text alone.
+export function scoreDuplicate(report: IngestEventRequest, reportedAt: number, event: SarEvent) {
+  const elapsed = Math.abs(reportedAt - (event.createdAt ?? 0));
+  if (elapsed > DUPLICATE_WINDOW_MS) {
+    return 0;
+  }
+  const timeScore = 1 - elapsed / DUPLICATE_WINDOW_MS;
+  const textScore = textSimilarity(report.text, event.text);
+  if (textScore < MIN_DUPLICATE_TEXT_SIMILARITY) {
+    return 0;
+  }
+
+  if (hasCoordinates(report) && hasCoordinates(event)) {
+    const distance = haversineKm(report, event);
+    if (distance > DUPLICATE_RADIUS_KM) {
+      return 0;
+    }
+    const spatialScore = 1 - distance / DUPLICATE_RADIUS_KM;
+    return 0.4 * spatialScore + 0.2 * timeScore + 0.4 * textScore;
+  }
+  return 0.7 * textScore + 0.3 * timeScore;
+}
+
+// Only open, canonical incidents can absorb a report, so chains of duplicates never form.
+export function findDuplicateOf(report: IngestEventRequest, reportedAt: number, events: SarEvent[]): DuplicateMatch | null {
+  let best: DuplicateMatch | null = null;
+  for (const event of events) {
+    if (event.duplicateOf || !isIncidentOpen(getIncidentStatus(event))) {
+      continue;
+    }
+    const score = scoreDuplicate(report, reportedAt, event);
+    if (score >= DUPLICATE_THRESHOLD && (!best || score > best.score)) {
+      best = { event, score };
+    }
+  }
+  return best;
+}
+
+export function getCorroboratingCount(event: SarEvent) {
+  return event.corroboratingEventIds?.length ?? 0;
+}
+
+function stripPlural(token: string) {
+  return token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token;
+}
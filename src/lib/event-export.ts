@@ -0,0 +1,304 @@
+import { getCorroboratingCount } from '@/lib/event-dedup';
+import { getSeverityMeta } from '@/lib/event-utils';
+import { hasCoordinates } from '@/lib/geo';
+import { INCIDENT_STATUS_META, getIncidentStatus, isIncidentOpen } from '@/lib/incident-lifecycle';
+import type { SarEvent } from '@/types/sar';
+
+export type EventExportFormat = 'geojson' | 'kml' | 'csv' | 'cap';
+
+export const EVENT_EXPORT_FORMATS: Record<EventExportFormat, { label: string; contentType: string; extension: string }> = {
+  geojson: { label: 'GeoJSON', contentType: 'application/geo+json', extension: 'geojson' },
+  kml: { label: 'KML', contentType: 'application/vnd.google-earth.kml+xml', extension: 'kml' },
+  csv: { label: 'CSV', contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  cap: { label: 'CAP 1.2', contentType: 'application/atom+xml', extension: 'cap.xml' },
+};
+
+export const MAX_EXPORT_EVENTS = 5_000;
+
+const CAP_AREA_RADIUS_KM = 1;
+
+export interface EventExportOptions {
+  /** Origin used for per-event links, e.g. `https://console.example.org`. */
+  baseUrl?: string;
+  /** CAP `<sender>`; should be a stable, globally unique identifier for this console. */
+  sender?: string;
+  generatedAt?: number;
+}
+
+export function isEventExportFormat(value: unknown): value is EventExportFormat {
+  return typeof value === 'string' && Object.hasOwn(EVENT_EXPORT_FORMATS, value);
+}
+
+export function getExportFilename(format: EventExportFormat, generatedAt = Date.now()) {
+  const stamp = new Date(generatedAt).toISOString().slice(0, 16).replace(/[-:]/g, '').replace('T', '-');
+  return `sar-events-${stamp}.${EVENT_EXPORT_FORMATS[format].extension}`;
+}
+
+export function serializeEvents(events: SarEvent[], format: EventExportFormat, options: EventExportOptions = {}) {
+  switch (format) {
+    case 'geojson':
+      return toGeoJson(events, options);
+    case 'kml':
+      return toKml(events, options);
+    case 'csv':
+      return toCsv(events);
+    case 'cap':
+      return toCapFeed(events, options);
+  }
+}
+
+function toGeoJson(events: SarEvent[], options: EventExportOptions) {
+  const collection = {
+    type: 'FeatureCollection',
+    features: events.map((event) => ({
+      type: 'Feature',
+      id: event.eventId,
+      geometry: hasCoordinates(event) ? { type: 'Point', coordinates: [event.lon, event.lat] } : null,
+      properties: {
+        ...exportProperties(event),
+        url: eventUrl(event, options),
+      },
+    })),
+  };
+  return JSON.stringify(collection, null, 2);
+}
+
+// KML colours are aabbggrr.
+const KML_STYLES: Record<string, string> = {
+  Critical: 'ff4444ef',
+  High: 'ff1673f9',
+  Elevated: 'ffe9a50e',
+  Low: 'ff5ec522',
+  Unknown: 'ff807266',
+};
+
+function toKml(events: SarEvent[], options: EventExportOptions) {
+  const styles = Object.entries(KML_STYLES)
+    .map(
+      ([label, color]) =>
+        `    <Style id="severity-${label.toLowerCase()}"><IconStyle><color>${color}</color><scale>1.1</scale>` +
+        `<Icon><href>http://maps.google.com/mapfiles/kml/shapes/placemark_circle.png</href></Icon></IconStyle></Style>`,
+    )
+    .join('\n');
+
+  const placemarks = events
+    .filter(hasCoordinates)
+    .map((event) => {
+      const properties = exportProperties(event);
+      const data = Object.entries(properties)
+        .filter(([, value]) => value !== null && value !== '')
+        .map(([key, value]) => `        <Data name="${key}"><value>${escapeXml(String(value))}</value></Data>`)
+        .join('\n');
+      const link = eventUrl(event, options);
+      return [
+        '    <Placemark>',
+        `      <name>${escapeXml(truncate(event.text, 80))}</name>`,
+        `      <description>${escapeXml(link ? `${event.text}\n${link}` : event.text)}</description>`,
+        event.createdAt ? `      <TimeStamp><when>${new Date(event.createdAt).toISOString()}</when></TimeStamp>` : null,
+        `      <styleUrl>#severity-${properties.severityLabel.toLowerCase()}</styleUrl>`,
+        '      <ExtendedData>',
+        data,
+        '      </ExtendedData>',
+        `      <Point><coordinates>${event.lon},${event.lat},0</coordinates></Point>`,
+        '    </Placemark>',
+      ]
+        .filter((line) => line !== null)
+        .join('\n');
+    })
+    .join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    '    <name>SAR incidents</name>',
+    styles,
+    placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+const CSV_COLUMNS = [
+  'eventId',
+  'createdAt',
+  'text',
+  'lat',
+  'lon',
+  'severity',
+  'severityLabel',
+  'trust',
+  'status',
+  'corroboratingReports',
+  'duplicateOf',
+  'mediaUrl',
+] as const;
+
+function toCsv(events: SarEvent[]) {
+  const rows = events.map((event) => {
+    const properties = exportProperties(event);
+    return CSV_COLUMNS.map((column) => escapeCsv(properties[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+// CAP 1.2 allows one incident per <alert>, so a list ships as an Atom index of alerts.
+function toCapFeed(events: SarEvent[], options: EventExportOptions) {
+  const generatedAt = options.generatedAt ?? Date.now();
+  const sender = options.sender ?? 'sar-mission-console';
+  const entries = events
+    .map((event) => {
+      const sent = formatCapDate(event.statusUpdatedAt ?? event.createdAt ?? generatedAt);
+      return [
+        '  <entry>',
+        `    <id>urn:sar:event:${escapeXml(event.eventId)}</id>`,
+        `    <title>${escapeXml(truncate(event.text, 160))}</title>`,
+        `    <updated>${sent}</updated>`,
+        '    <content type="text/xml">',
+        indent(toCapAlert(event, sender, options), 6),
+        '    </content>',
+        '  </entry>',
+      ].join('\n');
+    })
+    .join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>urn:sar:export:${generatedAt}</id>`,
+    '  <title>SAR incidents (CAP 1.2)</title>',
+    `  <updated>${formatCapDate(generatedAt)}</updated>`,
+    `  <author><name>${escapeXml(sender)}</name></author>`,
+    entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+function toCapAlert(event: SarEvent, sender: string, options: EventExportOptions) {
+  const status = getIncidentStatus(event);
+  const sent = formatCapDate(event.statusUpdatedAt ?? event.createdAt ?? options.generatedAt ?? Date.now());
+  const link = eventUrl(event, options);
+  const area = hasCoordinates(event)
+    ? [
+        `      <areaDesc>${event.lat.toFixed(4)}, ${event.lon.toFixed(4)}</areaDesc>`,
+        `      <circle>${event.lat},${event.lon} ${CAP_AREA_RADIUS_KM}</circle>`,
+      ]
+    : ['      <areaDesc>Location not reported</areaDesc>'];
+
+  return [
+    '<alert xmlns="urn:oasis:names:tc:emergency:cap:1.2">',
+    `  <identifier>${escapeXml(event.eventId)}</identifier>`,
+    `  <sender>${escapeXml(sender)}</sender>`,
+    `  <sent>${sent}</sent>`,
+    '  <status>Actual</status>',
+    // `Update` would need <references> to the earlier message, which a stateless export cannot know.
+    '  <msgType>Alert</msgType>',
+    '  <scope>Public</scope>',
+    '  <info>',
+    '    <category>Rescue</category>',
+    '    <event>Search and rescue incident</event>',
+    `    <responseType>${isIncidentOpen(status) ? 'Monitor' : 'AllClear'}</responseType>`,
+    `    <urgency>${isIncidentOpen(status) ? 'Immediate' : 'Past'}</urgency>`,
+    `    <severity>${toCapSeverity(event.severity)}</severity>`,
+    `    <certainty>${status === 'false-alarm' ? 'Unlikely' : toCapCertainty(event.trust)}</certainty>`,
+    `    <senderName>${escapeXml(sender)}</senderName>`,
+    `    <headline>${escapeXml(truncate(event.text, 160))}</headline>`,
+    `    <description>${escapeXml(event.text)}</description>`,
+    link ? `    <web>${escapeXml(link)}</web>` : null,
+    '    <parameter><valueName>incidentStatus</valueName>' +
+      `<value>${escapeXml(INCIDENT_STATUS_META[status].label)}</value></parameter>`,
+    '    <area>',
+    ...area,
+    '    </area>',
+    '  </info>',
+    '</alert>',
+  ]
+    .filter((line) => line !== null)
+    .join('\n');
+}
+
+function toCapSeverity(severity?: number) {
+  switch (getSeverityMeta(severity).label) {
+    case 'Critical':
+      return 'Extreme';
+    case 'High':
+      return 'Severe';
+    case 'Elevated':
+      return 'Moderate';
+    case 'Low':
+      return 'Minor';
+    default:
+      return 'Unknown';
+  }
+}
+
+function toCapCertainty(trust?: number) {
+  if (typeof trust !== 'number') {
+    return 'Unknown';
+  }
+  if (trust >= 75) {
+    return 'Observed';
+  }
+  return trust >= 50 ? 'Likely' : 'Possible';
+}
+
+// CAP requires second precision with an explicit offset, e.g. 2024-05-01T08:15:00+00:00.
+function formatCapDate(epochMs: number) {
+  return new Date(epochMs).toISOString().replace(/\.\d{3}Z$/, '+00:00');
+}
+
+function exportProperties(event: SarEvent) {
+  return {
+    eventId: event.eventId,
+    createdAt: event.createdAt ? new Date(event.createdAt).toISOString() : null,
+    text: event.text,
+    lat: event.lat ?? null,
+    lon: event.lon ?? null,
+    severity: event.severity ?? null,
+    severityLabel: getSeverityMeta(event.severity).label,
+    trust: event.trust ?? null,
+    status: getIncidentStatus(event),
+    corroboratingReports: getCorroboratingCount(event),
+    duplicateOf: event.duplicateOf ?? null,
+    mediaUrl: event.mediaUrl ?? null,
+  };
+}
+
+function eventUrl(event: SarEvent, options: EventExportOptions) {
+  return options.baseUrl ? `${options.baseUrl.replace(/\/$/, '')}/events/${encodeURIComponent(event.eventId)}` : undefined;
+}
+
+export function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Quotes per RFC 4180 and defuses spreadsheet formulas in free text.
+function escapeCsv(value: string | number | null) {
+  if (value === null) {
+    return '';
+  }
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function truncate(value: string, length: number) {
+  return value.length > length ? `${value.slice(0, length - 1)}…` : value;
+}
+
+function indent(block: string, spaces: number) {
+  const padding = ' '.repeat(spaces);
+  return block
+    .split('\n')
+    .map((line) => padding + line)
+    .join('\n');
+}
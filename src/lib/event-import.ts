@@ -0,0 +1,342 @@
+import { ingestEventSchema } from '@/lib/ingest-schema';
+import type {
+  BulkImportResponse,
+  BulkImportRowResult,
+  CsvColumnMapping,
+  EventImportFormat,
+  IngestEventRequest,
+  IngestEventResponse,
+} from '@/types/sar';
+
+export const MAX_IMPORT_ROWS = 500;
+
+export const EVENT_IMPORT_FORMATS: Record<EventImportFormat, { label: string; accept: string }> = {
+  geojson: { label: 'GeoJSON', accept: '.geojson,.json' },
+  csv: { label: 'CSV', accept: '.csv,.txt' },
+  cap: { label: 'CAP 1.2 XML', accept: '.xml,.cap' },
+};
+
+export class EventImportError extends Error {}
+
+/** One source record, before validation. Values are raw strings or numbers from the file. */
+export interface ImportCandidate {
+  row: number;
+  values: Partial<Record<keyof IngestEventRequest, unknown>>;
+}
+
+export type ValidatedImportRow =
+  | { row: number; ok: true; request: IngestEventRequest }
+  | { row: number; ok: false; errors: string[]; values: ImportCandidate['values'] };
+
+const importRowSchema = ingestEventSchema.refine(
+  (value) => (value.lat === undefined) === (value.lon === undefined),
+  { message: 'Provide both latitude and longitude, or neither', path: ['lat'] },
+);
+
+export function detectImportFormat(filename: string, content: string): EventImportFormat | null {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'geojson' || extension === 'json') return 'geojson';
+  if (extension === 'csv' || extension === 'txt') return 'csv';
+  if (extension === 'xml' || extension === 'cap') return 'cap';
+
+  const head = content.trimStart().slice(0, 200);
+  if (head.startsWith('{')) return 'geojson';
+  if (head.startsWith('<')) return 'cap';
+  return head.includes(',') ? 'csv' : null;
+}
+
+export function parseImport(content: string, format: EventImportFormat, mapping?: CsvColumnMapping): ImportCandidate[] {
+  const candidates =
+    format === 'geojson'
+      ? parseGeoJson(content)
+      : format === 'cap'
+        ? parseCapAlerts(content)
+        : parseCsvRecords(content, mapping);
+  if (candidates.length === 0) {
+    throw new EventImportError('No events found in the file');
+  }
+  if (candidates.length > MAX_IMPORT_ROWS) {
+    throw new EventImportError(`Imports are limited to ${MAX_IMPORT_ROWS} rows; split the file and try again`);
+  }
+  return candidates;
+}
+
+export function validateImportCandidates(candidates: ImportCandidate[]): ValidatedImportRow[] {
+  return candidates.map(({ row, values }) => {
+    const result = importRowSchema.safeParse({
+      ...values,
+      text: typeof values.text === 'string' ? values.text.trim() : values.text,
+    });
+    if (!result.success) {
+      return {
+        row,
+        ok: false,
+        values,
+        errors: result.error.issues.map((issue) =>
+          issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+        ),
+      };
+    }
+    const { text, lat, lon, mediaUrl } = result.data;
+    return { row, ok: true, request: { text, lat, lon, mediaUrl } };
+  });
+}
+
+// Ingests valid rows one at a time so per-row failures are reported, not fatal.
+export async function runBulkImport(
+  format: EventImportFormat,
+  rows: ValidatedImportRow[],
+  ingest: ((request: IngestEventRequest) => Promise<IngestEventResponse>) | null,
+): Promise<BulkImportResponse> {
+  const results: BulkImportRowResult[] = [];
+  for (const entry of rows) {
+    if (!entry.ok) {
+      results.push({ row: entry.row, status: 'invalid', errors: entry.errors });
+      continue;
+    }
+    if (!ingest) {
+      results.push({ row: entry.row, status: 'valid' });
+      continue;
+    }
+    try {
+      const { eventId, duplicateOf } = await ingest(entry.request);
+      results.push({ row: entry.row, status: 'imported', eventId, duplicateOf });
+    } catch (error) {
+      results.push({ row: entry.row, status: 'failed', errors: [error instanceof Error ? error.message : String(error)] });
+    }
+  }
+
+  return {
+    format,
+    total: rows.length,
+    imported: results.filter((result) => result.status === 'imported').length,
+    failed: results.filter((result) => result.status === 'invalid' || result.status === 'failed').length,
+    results,
+  };
+}
+
+const CSV_FIELD_PATTERNS: Record<keyof CsvColumnMapping, RegExp> = {
+  text: /^(text|description|report|message|headline|summary|laporan)$/i,
+  lat: /^(lat|latitude|y)$/i,
+  lon: /^(lon|lng|long|longitude|x)$/i,
+  mediaUrl: /^(media|media_?url|image|photo|gambar)$/i,
+};
+
+export function guessCsvMapping(headers: string[]): Partial<CsvColumnMapping> {
+  const mapping: Partial<CsvColumnMapping> = {};
+  for (const field of Object.keys(CSV_FIELD_PATTERNS) as Array<keyof CsvColumnMapping>) {
+    const header = headers.find((candidate) => CSV_FIELD_PATTERNS[field].test(candidate.trim()));
+    if (header) {
+      mapping[field] = header;
+    }
+  }
+  return mapping;
+}
+
+export function readCsvHeaders(content: string) {
+  return parseCsv(content)[0]?.map((header) => header.trim()) ?? [];
+}
+
+function parseCsvRecords(content: string, mapping?: CsvColumnMapping): ImportCandidate[] {
+  const [headerRow, ...records] = parseCsv(content);
+  if (!headerRow) {
+    return [];
+  }
+  const headers = headerRow.map((header) => header.trim());
+  const resolved = { ...guessCsvMapping(headers), ...mapping };
+  if (!resolved.text) {
+    throw new EventImportError('Choose which CSV column holds the report text');
+  }
+  for (const column of Object.values(resolved)) {
+    if (column && !headers.includes(column)) {
+      throw new EventImportError(`CSV has no column named "${column}"`);
+    }
+  }
+
+  const read = (record: string[], column?: string) => {
+    if (!column) return undefined;
+    const value = record[headers.indexOf(column)]?.trim();
+    return value ? value : undefined;
+  };
+
+  return records
+    .map((record, index) => ({ record, row: index + 1 }))
+    .filter(({ record }) => record.some((cell) => cell.trim() !== ''))
+    .map(({ record, row }) => ({
+      row,
+      values: {
+        text: read(record, resolved.text) ?? '',
+        lat: read(record, resolved.lat),
+        lon: read(record, resolved.lon),
+        mediaUrl: read(record, resolved.mediaUrl),
+      },
+    }));
+}
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and line breaks.
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function parseGeoJson(content: string): ImportCandidate[] {
+  let document: { type?: string; features?: unknown[] };
+  try {
+    document = JSON.parse(content);
+  } catch {
+    throw new EventImportError('File is not valid JSON');
+  }
+  const features =
+    document.type === 'FeatureCollection' && Array.isArray(document.features)
+      ? document.features
+      : document.type === 'Feature'
+        ? [document]
+        : null;
+  if (!features) {
+    throw new EventImportError('GeoJSON must be a Feature or FeatureCollection');
+  }
+
+  return features.map((feature, index) => {
+    const { geometry, properties = {} } = (feature ?? {}) as {
+      geometry?: { type?: string; coordinates?: unknown } | null;
+      properties?: Record<string, unknown> | null;
+    };
+    const props = properties ?? {};
+    const position = geometryPosition(geometry);
+    return {
+      row: index + 1,
+      values: {
+        text: props.text ?? props.description ?? props.name ?? props.title ?? '',
+        lat: position?.[1] ?? props.lat,
+        lon: position?.[0] ?? props.lon,
+        mediaUrl: props.mediaUrl ?? undefined,
+      },
+    };
+  });
+}
+
+// Points map directly; polygons are reduced to the mean of their outer ring.
+function geometryPosition(geometry?: { type?: string; coordinates?: unknown } | null): [number, number] | null {
+  if (!geometry) {
+    return null;
+  }
+  if (geometry.type === 'Point' && Array.isArray(geometry.coordinates)) {
+    return [Number(geometry.coordinates[0]), Number(geometry.coordinates[1])];
+  }
+  if (geometry.type === 'Polygon' && Array.isArray(geometry.coordinates) && Array.isArray(geometry.coordinates[0])) {
+    return centroid((geometry.coordinates[0] as unknown[]).map((point) => point as [number, number]));
+  }
+  return null;
+}
+
+function centroid(points: Array<[number, number]>): [number, number] | null {
+  const valid = points.filter((point) => Array.isArray(point) && point.every((part) => Number.isFinite(Number(part))));
+  if (valid.length === 0) {
+    return null;
+  }
+  const sum = valid.reduce((total, [x, y]) => [total[0] + Number(x), total[1] + Number(y)], [0, 0]);
+  return [sum[0] / valid.length, sum[1] / valid.length];
+}
+
+// Tag-level extraction rather than a full XML parser so the same code runs in the
+// browser preview, the API route and the MCP server. Namespace prefixes are ignored.
+function parseCapAlerts(content: string): ImportCandidate[] {
+  const alerts = [...content.matchAll(/<(?:[\w-]+:)?alert\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?alert>/g)].map(
+    (match) => match[1],
+  );
+  if (alerts.length === 0 && !content.trimStart().startsWith('<')) {
+    throw new EventImportError('File is not CAP XML');
+  }
+
+  return alerts.map((alert, index) => {
+    const info = readElement(alert, 'info') ?? alert;
+    const area = readElement(info, 'area') ?? '';
+    const circle = readText(area, 'circle');
+    const polygon = readText(area, 'polygon');
+    const position = circle
+      ? capPosition(circle.split(/\s+/)[0])
+      : polygon
+        ? centroid(polygon.split(/\s+/).map(capPosition))
+        : null;
+    const resource = readElement(info, 'resource');
+    const mediaUrl =
+      resource && /image|video/.test(readText(resource, 'mimeType') ?? '') ? readText(resource, 'uri') : undefined;
+
+    return {
+      row: index + 1,
+      values: {
+        text: readText(info, 'description') ?? readText(info, 'headline') ?? '',
+        lat: position ? position[1] : undefined,
+        lon: position ? position[0] : undefined,
+        mediaUrl,
+      },
+    };
+  });
+}
+
+// CAP writes points as "lat,lon"; returned as [lon, lat] to match GeoJSON.
+function capPosition(pair: string): [number, number] {
+  const [lat, lon] = pair.split(',').map(Number);
+  return [lon, lat];
+}
+
+function readElement(xml: string, tag: string) {
+  const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`));
+  return match?.[1];
+}
+
+function readText(xml: string, tag: string) {
+  const inner = readElement(xml, tag);
+  return inner === undefined ? undefined : decodeXml(inner).trim();
+}
+
+function decodeXml(value: string) {
+  const cdata = value.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdata) {
+    return cdata[1];
+  }
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,177 @@
+import { hasCoordinates, isWithinBoundingBox, parseBoundingBox } from '@/lib/geo';
+import { getIncidentStatus, isIncidentStatus } from '@/lib/incident-lifecycle';
+import type { EventSortField, ListEventsParams, ListEventsResponse, SarEvent } from '@/types/sar';
+
+export const MAX_EVENT_PAGE_SIZE = 500;
+
+const SORT_FIELDS: EventSortField[] = ['createdAt', 'severity', 'trust'];
+
+// Query-string keys forwarded to the backend's `/events`: the Lambda filters on the first three
+// natively, and backends that fold duplicates (like the local one) only return them when asked.
+export const BACKEND_EVENT_FILTERS = ['since', 'minSeverity', 'bbox', 'includeDuplicates'] as const;
+
+export class EventQueryError extends Error {}
+
+type CursorKey = [number, string];
+
+export function parseListEventsParams(searchParams: URLSearchParams): ListEventsParams {
+  const params: ListEventsParams = {
+    since: readNumber(searchParams, 'since'),
+    until: readNumber(searchParams, 'until'),
+    minSeverity: readNumber(searchParams, 'minSeverity'),
+    maxSeverity: readNumber(searchParams, 'maxSeverity'),
+    minTrust: readNumber(searchParams, 'minTrust'),
+    q: searchParams.get('q')?.trim() || undefined,
+    cursor: searchParams.get('cursor') || undefined,
+  };
+
+  const includeDuplicates = searchParams.get('includeDuplicates');
+  if (includeDuplicates) {
+    if (includeDuplicates !== 'true' && includeDuplicates !== 'false') {
+      throw new EventQueryError('includeDuplicates must be true or false');
+    }
+    params.includeDuplicates = includeDuplicates === 'true';
+  }
+
+  const bbox = searchParams.get('bbox');
+  if (bbox) {
+    const parsed = parseBoundingBox(bbox);
+    if (!parsed) {
+      throw new EventQueryError('bbox must be "minLon,minLat,maxLon,maxLat"');
+    }
+    params.bbox = parsed;
+  }
+
+  const status = searchParams.get('status');
+  if (status) {
+    const values = status.split(',').map((value) => value.trim()).filter(Boolean);
+    const unknown = values.filter((value) => !isIncidentStatus(value));
+    if (unknown.length > 0) {
+      throw new EventQueryError(`Unknown status: ${unknown.join(', ')}`);
+    }
+    params.status = values.filter(isIncidentStatus);
+  }
+
+  const sort = searchParams.get('sort');
+  if (sort) {
+    if (!(SORT_FIELDS as string[]).includes(sort)) {
+      throw new EventQueryError(`sort must be one of ${SORT_FIELDS.join(', ')}`);
+    }
+    params.sort = sort as EventSortField;
+  }
+
+  const order = searchParams.get('order');
+  if (order) {
+    if (order !== 'asc' && order !== 'desc') {
+      throw new EventQueryError('order must be asc or desc');
+    }
+    params.order = order;
+  }
+
+  const limit = readNumber(searchParams, 'limit');
+  if (limit !== undefined) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new EventQueryError('limit must be a positive integer');
+    }
+    params.limit = Math.min(limit, MAX_EVENT_PAGE_SIZE);
+  }
+
+  if (params.cursor) {
+    decodeCursor(params.cursor);
+  }
+
+  return params;
+}
+
+export function serializeListEventsParams(params: ListEventsParams): Record<string, string> {
+  const entries: Record<string, string> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    if (Array.isArray(value)) {
+      if (value.length > 0) {
+        entries[key] = value.join(',');
+      }
+      continue;
+    }
+    entries[key] = String(value);
+  }
+  return entries;
+}
+
+// Applies filters, keyset ordering and paging in memory. Safe to re-run over a list
+// the backend already filtered: every predicate is idempotent.
+export function queryEvents(events: SarEvent[], params: ListEventsParams): ListEventsResponse {
+  const keyword = params.q?.toLowerCase();
+  const statuses = params.status?.length ? new Set(params.status) : null;
+
+  const matching = events.filter((event) => {
+    const createdAt = event.createdAt ?? 0;
+    const severity = event.severity ?? 0;
+    if (params.since !== undefined && createdAt < params.since) return false;
+    if (params.until !== undefined && createdAt >= params.until) return false;
+    if (params.minSeverity !== undefined && severity < params.minSeverity) return false;
+    if (params.maxSeverity !== undefined && severity >= params.maxSeverity) return false;
+    if (params.minTrust !== undefined && (event.trust ?? 0) < params.minTrust) return false;
+    if (params.bbox && (!hasCoordinates(event) || !isWithinBoundingBox(event, params.bbox))) return false;
+    if (!params.includeDuplicates && event.duplicateOf) return false;
+    if (statuses && !statuses.has(getIncidentStatus(event))) return false;
+    if (keyword && !event.text.toLowerCase().includes(keyword)) return false;
+    return true;
+  });
+
+  const field = params.sort ?? 'createdAt';
+  const direction = params.order === 'asc' ? 1 : -1;
+  const compareKeys = (a: CursorKey, b: CursorKey) =>
+    direction * (a[0] !== b[0] ? a[0] - b[0] : a[1].localeCompare(b[1]));
+
+  const sorted = matching
+    .map((event) => ({ event, key: sortKey(event, field) }))
+    .sort((a, b) => compareKeys(a.key, b.key));
+
+  const cursor = params.cursor ? decodeCursor(params.cursor) : null;
+  const remaining = cursor ? sorted.filter((entry) => compareKeys(entry.key, cursor) > 0) : sorted;
+  const limit = params.limit ?? remaining.length;
+  const page = remaining.slice(0, limit);
+  const hasMore = remaining.length > page.length;
+
+  return {
+    events: page.map((entry) => entry.event),
+    nextCursor: hasMore && page.length > 0 ? encodeCursor(page[page.length - 1].key) : undefined,
+    total: matching.length,
+  };
+}
+
+function sortKey(event: SarEvent, field: EventSortField): CursorKey {
+  const value = field === 'createdAt' ? event.createdAt ?? 0 : event[field] ?? -1;
+  return [value, event.eventId];
+}
+
+function encodeCursor(key: CursorKey) {
+  return btoa(JSON.stringify(key));
+}
+
+function decodeCursor(cursor: string): CursorKey {
+  try {
+    const parsed = JSON.parse(atob(cursor)) as unknown;
+    if (Array.isArray(parsed) && typeof parsed[0] === 'number' && typeof parsed[1] === 'string') {
+      return [parsed[0], parsed[1]];
+    }
+  } catch {
+    // Fall through to the error below.
+  }
+  throw new EventQueryError('cursor is invalid or expired');
+}
+
+function readNumber(searchParams: URLSearchParams, key: string) {
+  const raw = searchParams.get(key);
+  if (raw === null || raw.trim() === '') {
+    return undefined;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new EventQueryError(`${key} must be a number`);
+  }
+  return value;
+}
@@ -0,0 +1,138 @@
+import "server-only";
+
+import { getCachedEvents } from "./backend-cache";
+import type { EventStreamMessages, SarEvent, SarEventDelta } from "@/types/sar";
+
+type EventStreamListener = <K extends keyof EventStreamMessages>(type: K, payload: EventStreamMessages[K]) => void;
+
+const POLL_INTERVAL_MS = Number(process.env.SAR_STREAM_POLL_MS ?? 5_000);
+
+// The AWS backend has no push channel, so one poller per server process diffs
+// successive `/events` snapshots and fans the deltas out to every open stream.
+class EventStreamHub {
+  private readonly listeners = new Set<EventStreamListener>();
+  private snapshot: Map<string, SarEvent> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private polling: Promise<void> | null = null;
+  private stale = false;
+  private failing = false;
+
+  subscribe(listener: EventStreamListener) {
+    this.listeners.add(listener);
+    if (this.snapshot) {
+      listener("snapshot", { events: [...this.snapshot.values()] });
+    }
+    if (this.listeners.size === 1) {
+      void this.refresh();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  refresh() {
+    if (this.listeners.size === 0) {
+      return Promise.resolve();
+    }
+    if (this.polling) {
+      // A write landed mid-poll; run again once this one settles so it is not missed.
+      this.stale = true;
+      return this.polling;
+    }
+    this.polling = this.poll().finally(() => {
+      this.polling = null;
+      if (this.stale) {
+        this.stale = false;
+        void this.refresh();
+      } else {
+        this.schedule();
+      }
+    });
+    return this.polling;
+  }
+
+  private async poll() {
+    let events: SarEvent[];
+    try {
+      ({ events } = await getCachedEvents());
+    } catch (error) {
+      console.error("[event-stream] failed to poll events", error);
+      this.failing = true;
+      this.broadcast("error", { message: "Event stream lost contact with the backend" });
+      return;
+    }
+
+    const next = new Map(events.map((event) => [event.eventId, event]));
+    const previous = this.snapshot;
+    this.snapshot = next;
+
+    // After a failed poll, a full snapshot tells clients the stream is healthy again even if nothing changed.
+    if (!previous || this.failing) {
+      this.failing = false;
+      this.broadcast("snapshot", { events });
+      return;
+    }
+
+    const deltas = diffSnapshots(previous, next);
+    if (deltas.length > 0) {
+      this.broadcast("delta", { deltas });
+    }
+  }
+
+  private schedule() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = this.listeners.size > 0 ? setTimeout(() => void this.refresh(), POLL_INTERVAL_MS) : null;
+  }
+
+  private stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.snapshot = null;
+    this.failing = false;
+  }
+
+  private broadcast<K extends keyof EventStreamMessages>(type: K, payload: EventStreamMessages[K]) {
+    for (const listener of this.listeners) {
+      listener(type, payload);
+    }
+  }
+}
+
+function diffSnapshots(previous: Map<string, SarEvent>, next: Map<string, SarEvent>): SarEventDelta[] {
+  const deltas: SarEventDelta[] = [];
+  for (const [eventId, event] of next) {
+    const before = previous.get(eventId);
+    if (!before) {
+      deltas.push({ type: "created", event });
+    } else if (JSON.stringify(before) !== JSON.stringify(event)) {
+      deltas.push({ type: "updated", event });
+    }
+  }
+  for (const eventId of previous.keys()) {
+    if (!next.has(eventId)) {
+      deltas.push({ type: "deleted", eventId });
+    }
+  }
+  return deltas;
+}
+
+// Route handlers can be bundled separately in dev, so keep a single hub per process.
+const globalForHub = globalThis as typeof globalThis & { __sarEventStreamHub?: EventStreamHub };
+const hub = (globalForHub.__sarEventStreamHub ??= new EventStreamHub());
+
+export function subscribeToEventStream(listener: EventStreamListener) {
+  return hub.subscribe(listener);
+}
+
+// Called after writes made through this server so open streams see them without waiting for the next poll.
+export function refreshEventStream() {
+  return hub.refresh();
+}
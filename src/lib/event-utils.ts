@@ -1,6 +1,6 @@
 import { formatDistanceToNow, fromUnixTime } from 'date-fns';
 
-import type { SarEvent } from '@/types/sar';
+import type { SarEvent, SarEventDelta } from '@/types/sar';
 
 const SEVERITY_LEVELS = [
   { threshold: 80, label: 'Critical', className: 'bg-destructive/10 text-destructive' },
@@ -44,3 +44,15 @@ export function formatCoordinate(value?: number) {
   }
   return value.toFixed(3);
 }
+
+export function applyEventDeltas(events: SarEvent[], deltas: SarEventDelta[]) {
+  const byId = new Map(events.map((event) => [event.eventId, event]));
+  for (const delta of deltas) {
+    if (delta.type === 'deleted') {
+      byId.delete(delta.eventId);
+    } else {
+      byId.set(delta.event.eventId, delta.event);
+    }
+  }
+  return [...byId.values()];
+}
@@ -0,0 +1,130 @@
+import type { GeoJsonPosition, GeofenceGeometry, GeofenceRequest, ZoneGeofenceRequest } from '@/types/sar';
+
+const EARTH_RADIUS_KM = 6371;
+
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+// [minLon, minLat, maxLon, maxLat], matching the backend `bbox` query string order.
+export type BoundingBox = [number, number, number, number];
+
+export function haversineKm(from: LatLon, to: LatLon) {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Equirectangular projection around `point`; accurate to well under 1% at city scale.
+export function distanceToSegmentKm(point: LatLon, start: LatLon, end: LatLon) {
+  const kmPerDegLat = (Math.PI * EARTH_RADIUS_KM) / 180;
+  const kmPerDegLon = kmPerDegLat * Math.cos(toRadians(point.lat));
+  const ax = (start.lon - point.lon) * kmPerDegLon;
+  const ay = (start.lat - point.lat) * kmPerDegLat;
+  const bx = (end.lon - point.lon) * kmPerDegLon;
+  const by = (end.lat - point.lat) * kmPerDegLat;
+  const lengthSquared = (bx - ax) ** 2 + (by - ay) ** 2;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * (bx - ax) + ay * (by - ay)) / lengthSquared));
+  return Math.hypot(ax + t * (bx - ax), ay + t * (by - ay));
+}
+
+export function isWithinBoundingBox(point: LatLon, bbox: BoundingBox) {
+  const [minLon, minLat, maxLon, maxLat] = bbox;
+  return point.lat >= minLat && point.lat <= maxLat && point.lon >= minLon && point.lon <= maxLon;
+}
+
+export function parseBoundingBox(value?: string | null): BoundingBox | null {
+  if (!value) {
+    return null;
+  }
+  const parts = value.split(',').map((part) => Number(part.trim()));
+  if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) {
+    return null;
+  }
+  return parts as BoundingBox;
+}
+
+// Smallest box containing the circle, or null when it would cross a pole or the antimeridian.
+export function boundingBoxAround(center: LatLon, radiusKm: number): BoundingBox | null {
+  const angularRadius = radiusKm / EARTH_RADIUS_KM;
+  const dLat = toDegrees(angularRadius);
+  const lonRatio = Math.sin(angularRadius) / Math.cos(toRadians(center.lat));
+  if (center.lat - dLat < -90 || center.lat + dLat > 90 || lonRatio >= 1) {
+    return null;
+  }
+  const dLon = toDegrees(Math.asin(lonRatio));
+  if (center.lon - dLon < -180 || center.lon + dLon > 180) {
+    return null;
+  }
+  return [center.lon - dLon, center.lat - dLat, center.lon + dLon, center.lat + dLat];
+}
+
+// Null when the area has no finite box, e.g. a circle spanning a pole or the antimeridian.
+export function getGeofenceBounds(request: GeofenceRequest): BoundingBox | null {
+  if (!isZoneGeofence(request)) {
+    return boundingBoxAround(request, request.radiusKm);
+  }
+  const polygons = request.geometry.type === 'Polygon' ? [request.geometry.coordinates] : request.geometry.coordinates;
+  const positions = polygons.flatMap(([outer]) => outer);
+  if (positions.length === 0) {
+    return null;
+  }
+  const lons = positions.map(([lon]) => lon);
+  const lats = positions.map(([, lat]) => lat);
+  return [Math.min(...lons), Math.min(...lats), Math.max(...lons), Math.max(...lats)];
+}
+
+export function hasCoordinates<T extends { lat?: number; lon?: number }>(value: T): value is T & LatLon {
+  return typeof value.lat === 'number' && typeof value.lon === 'number';
+}
+
+export function isZoneGeofence(request: GeofenceRequest): request is ZoneGeofenceRequest {
+  return 'geometry' in request;
+}
+
+export function toGeoJsonRing(points: LatLon[]): GeoJsonPosition[] {
+  const ring = points.map((point) => [point.lon, point.lat] as GeoJsonPosition);
+  if (ring.length > 0) {
+    ring.push([...ring[0]] as GeoJsonPosition);
+  }
+  return ring;
+}
+
+// Even-odd ray cast per polygon: inside the outer ring and outside every hole.
+export function isPointInGeometry(point: LatLon, geometry: GeofenceGeometry) {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.some(
+    ([outer, ...holes]) => isPointInRing(point, outer) && !holes.some((hole) => isPointInRing(point, hole)),
+  );
+}
+
+export function isPointInGeofence(point: LatLon, request: GeofenceRequest) {
+  return isZoneGeofence(request)
+    ? isPointInGeometry(point, request.geometry)
+    : haversineKm(point, request) <= request.radiusKm;
+}
+
+function isPointInRing(point: LatLon, ring: GeoJsonPosition[]) {
+  let inside = false;
+  for (let index = 0, previous = ring.length - 1; index < ring.length; previous = index++) {
+    const [lonA, latA] = ring[index];
+    const [lonB, latB] = ring[previous];
+    const crosses = latA > point.lat !== latB > point.lat;
+    if (crosses && point.lon < ((lonB - lonA) * (point.lat - latA)) / (latB - latA) + lonA) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function toRadians(value: number) {
+  return (value * Math.PI) / 180;
+}
+
+function toDegrees(value: number) {
+  return (value * 180) / Math.PI;
+}
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+import { hasCoordinates, isPointInGeofence } from '@/lib/geo';
+import type { Geofence, SarEvent } from '@/types/sar';
+
+export const DEFAULT_GEOFENCE_MIN_SEVERITY = 60;
+
+export class GeofenceInputError extends Error {}
+
+// Local backend entry point for geofence payloads; the Next routes validate the same schemas first.
+export function parseGeofenceInput<S extends z.ZodType>(schema: S, payload: unknown): z.output<S> {
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) {
+    throw new GeofenceInputError(z.prettifyError(parsed.error));
+  }
+  return parsed.data;
+}
+
+// Zones an ingested event should alert: active, containing the event, and at or above their threshold.
+export function findTriggeredGeofences(event: SarEvent, geofences: Geofence[]) {
+  if (!hasCoordinates(event) || typeof event.severity !== 'number') {
+    return [];
+  }
+  const severity = event.severity;
+  return geofences.filter(
+    (geofence) => geofence.active && severity >= geofence.minSeverity && isPointInGeofence(event, geofence.area),
+  );
+}
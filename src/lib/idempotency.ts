@@ -0,0 +1,123 @@
+import "server-only";
+
+import { createHash } from "node:crypto";
+import { NextResponse } from "next/server";
+
+import { RequestValidationError, problemResponse } from "./api-route-helpers";
+
+export const IDEMPOTENCY_KEY_HEADER = "idempotency-key";
+export const IDEMPOTENT_REPLAY_HEADER = "idempotent-replayed";
+
+const KEY_PATTERN = /^[\w.:-]{8,128}$/;
+const KEY_TTL_MS = Number(process.env.SAR_IDEMPOTENCY_TTL_MS ?? 10 * 60_000);
+const MAX_STORED_KEYS = 5_000;
+
+interface StoredResponse {
+  status: number;
+  body: unknown;
+}
+
+interface KeyRecord {
+  fingerprint: string;
+  expiresAt: number;
+  // Resolves with the response to replay, or null when the first attempt failed and released the key.
+  result: Promise<StoredResponse | null>;
+  settled: boolean;
+}
+
+// Route handlers can be bundled separately in dev, so keep a single store per process.
+const globalForIdempotency = globalThis as typeof globalThis & { __sarIdempotencyKeys?: Map<string, KeyRecord> };
+const records = (globalForIdempotency.__sarIdempotencyKeys ??= new Map<string, KeyRecord>());
+
+// Runs `handler` once per Idempotency-Key. A repeat of a key that succeeded gets the original
+// response back; a repeat that arrives while the first is still running waits for it. Failed
+// attempts are not stored, so the client can retry them with the same key.
+export async function withIdempotency(
+  request: Request,
+  scope: string,
+  payload: unknown,
+  handler: () => Promise<NextResponse>,
+): Promise<NextResponse> {
+  const key = readIdempotencyKey(request);
+  if (!key) {
+    return handler();
+  }
+
+  purgeExpired();
+  const id = `${scope}:${key}`;
+  const fingerprint = createHash("sha256").update(JSON.stringify(payload ?? null)).digest("hex");
+
+  const existing = records.get(id);
+  if (existing) {
+    if (existing.fingerprint !== fingerprint) {
+      return problemResponse(422, "Idempotency key reused", {
+        detail: "This Idempotency-Key was already used for a different request",
+      });
+    }
+    const stored = await existing.result;
+    if (!stored) {
+      return withIdempotency(request, scope, payload, handler);
+    }
+    return NextResponse.json(stored.body, { status: stored.status, headers: { [IDEMPOTENT_REPLAY_HEADER]: "true" } });
+  }
+
+  let resolve!: (stored: StoredResponse | null) => void;
+  const record: KeyRecord = {
+    fingerprint,
+    expiresAt: Date.now() + KEY_TTL_MS,
+    result: new Promise((done) => (resolve = done)),
+    settled: false,
+  };
+  const settle = (stored: StoredResponse | null) => {
+    record.settled = true;
+    resolve(stored);
+  };
+  records.set(id, record);
+
+  try {
+    const response = await handler();
+    if (response.ok) {
+      settle({ status: response.status, body: await response.clone().json() });
+    } else {
+      records.delete(id);
+      settle(null);
+    }
+    return response;
+  } catch (error) {
+    records.delete(id);
+    settle(null);
+    throw error;
+  }
+}
+
+// Passed on to the backend so it can de-duplicate too, and so `callBackend` may retry the write.
+export function forwardIdempotencyKey(request: Request): Record<string, string> {
+  const key = readIdempotencyKey(request);
+  return key ? { [IDEMPOTENCY_KEY_HEADER]: key } : {};
+}
+
+function readIdempotencyKey(request: Request) {
+  const key = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+  if (key === null) {
+    return undefined;
+  }
+  if (!KEY_PATTERN.test(key)) {
+    const message = "Must be 8–128 letters, digits, '_', '.', ':' or '-'";
+    throw new RequestValidationError(`Idempotency-Key: ${message}`, [{ path: "Idempotency-Key", message }]);
+  }
+  return key;
+}
+
+function purgeExpired() {
+  const now = Date.now();
+  // Insertion order is expiry order, so stop at the first live key once under the cap. Keys whose
+  // first request is still running stay, or a retry arriving now would run the handler twice.
+  for (const [id, record] of records) {
+    if (record.expiresAt > now && records.size <= MAX_STORED_KEYS) {
+      break;
+    }
+    if (record.settled) {
+      records.delete(id);
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import type { IncidentStatus, SarEvent } from '@/types/sar';
+
+export const INCIDENT_STATUSES: IncidentStatus[] = [
+  'reported',
+  'triaged',
+  'dispatched',
+  'on-scene',
+  'resolved',
+  'false-alarm',
+];
+
+export const INCIDENT_STATUS_META: Record<IncidentStatus, { label: string; className: string }> = {
+  reported: { label: 'Reported', className: 'bg-slate-500/10 text-slate-600 dark:text-slate-300' },
+  triaged: { label: 'Triaged', className: 'bg-violet-500/10 text-violet-600 dark:text-violet-400' },
+  dispatched: { label: 'Dispatched', className: 'bg-sky-500/10 text-sky-600 dark:text-sky-400' },
+  'on-scene': { label: 'On scene', className: 'bg-amber-500/10 text-amber-600 dark:text-amber-400' },
+  resolved: { label: 'Resolved', className: 'bg-emerald-500/10 text-emerald-600 dark:text-emerald-400' },
+  'false-alarm': { label: 'False alarm', className: 'bg-muted text-muted-foreground' },
+};
+
+// Closed incidents can be reopened into triage; everything else only moves forward
+// or is written off as a false alarm before a team is on scene.
+const TRANSITIONS: Record<IncidentStatus, IncidentStatus[]> = {
+  reported: ['triaged', 'false-alarm'],
+  triaged: ['dispatched', 'false-alarm'],
+  dispatched: ['on-scene', 'triaged', 'false-alarm'],
+  'on-scene': ['resolved'],
+  resolved: ['triaged'],
+  'false-alarm': ['triaged'],
+};
+
+export function isIncidentStatus(value: unknown): value is IncidentStatus {
+  return typeof value === 'string' && (INCIDENT_STATUSES as string[]).includes(value);
+}
+
+// Events stored before the lifecycle existed carry no status and count as freshly reported.
+export function getIncidentStatus(event: SarEvent): IncidentStatus {
+  return event.status ?? 'reported';
+}
+
+export function getAllowedTransitions(status: IncidentStatus) {
+  return TRANSITIONS[status];
+}
+
+export function canTransition(from: IncidentStatus, to: IncidentStatus) {
+  return TRANSITIONS[from].includes(to);
+}
+
+export function isIncidentOpen(status: IncidentStatus) {
+  return status !== 'resolved' && status !== 'false-alarm';
+}
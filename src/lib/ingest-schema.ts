@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+import { ingestEventRequestSchema } from '@/lib/sar-contracts';
+
+function toOptionalNumber(value: unknown) {
+  if (value === '' || value === null || value === undefined) {
+    return undefined;
+  }
+  const numberValue = typeof value === 'string' ? Number(value) : value;
+  return Number.isFinite(Number(numberValue)) ? Number(numberValue) : value;
+}
+
+function toOptionalTrimmed(value: unknown) {
+  if (typeof value !== 'string') return value;
+  const trimmed = value.trim();
+  return trimmed.length === 0 ? undefined : trimmed;
+}
+
+export const coordinateSchema = (min: number, max: number, label: string) =>
+  z.preprocess(
+    toOptionalNumber,
+    z
+      .number()
+      .min(min, `${label} must be ≥ ${min}`)
+      .max(max, `${label} must be ≤ ${max}`)
+      .optional(),
+  );
+
+// Form and file input arrive as strings; coerce them, then apply the `ingestEventRequestSchema` contract rules.
+export const ingestEventSchema = z.object({
+  text: ingestEventRequestSchema.shape.text,
+  lat: z.preprocess(toOptionalNumber, ingestEventRequestSchema.shape.lat),
+  lon: z.preprocess(toOptionalNumber, ingestEventRequestSchema.shape.lon),
+  mediaUrl: z.preprocess(toOptionalTrimmed, ingestEventRequestSchema.shape.mediaUrl),
+});
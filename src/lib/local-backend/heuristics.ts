@@ -0,0 +1,63 @@
+import type { IngestEventRequest } from "@/types/sar";
+
+interface SeverityCue {
+  label: string;
+  patterns: RegExp[];
+  weight: number;
+}
+
+// Bahasa Malaysia and English phrasing seen in social reports; weights are additive.
+const SEVERITY_CUES: SeverityCue[] = [
+  { label: "flash flood", patterns: [/banjir kilat/i, /flash flood/i], weight: 35 },
+  { label: "flood", patterns: [/banjir/i, /\bflood/i], weight: 20 },
+  { label: "landslide", patterns: [/tanah runtuh/i, /landslide/i, /mudslide/i], weight: 30 },
+  { label: "trapped people", patterns: [/terperangkap/i, /trapped/i, /stranded/i, /terkandas/i], weight: 25 },
+  { label: "casualties", patterns: [/mangsa/i, /cedera/i, /injur/i, /victim/i, /casualt/i, /mati/i, /dead/i], weight: 20 },
+  { label: "rising water", patterns: [/air naik/i, /water (is )?rising/i, /rising fast/i, /paras air/i], weight: 15 },
+  { label: "evacuation", patterns: [/pindah/i, /evacuat/i], weight: 10 },
+  { label: "call for help", patterns: [/tolong/i, /bantuan/i, /\bhelp\b/i, /\bsos\b/i, /urgent/i, /segera/i], weight: 10 },
+];
+
+const BASE_SEVERITY = 10;
+const BASE_TRUST = 35;
+
+export interface EventAssessment {
+  severity: number;
+  trust: number;
+  rationale: string;
+  cues: string[];
+}
+
+export function assessReport(report: IngestEventRequest): EventAssessment {
+  const text = report.text.trim();
+  const matched = SEVERITY_CUES.filter((cue) => cue.patterns.some((pattern) => pattern.test(text)));
+  const cues = matched.map((cue) => cue.label);
+
+  const emphasis = (text.match(/!/g)?.length ?? 0) >= 2 ? 5 : 0;
+  const severity = clampScore(BASE_SEVERITY + matched.reduce((sum, cue) => sum + cue.weight, 0) + emphasis);
+
+  const hasLocation = typeof report.lat === "number" && typeof report.lon === "number";
+  const wordCount = text.split(/\s+/).filter(Boolean).length;
+  const trust = clampScore(
+    BASE_TRUST +
+      (hasLocation ? 20 : 0) +
+      (report.mediaUrl ? 20 : 0) +
+      Math.min(wordCount, 15) +
+      Math.min(cues.length * 5, 15),
+  );
+
+  return { severity, trust, rationale: buildRationale(cues, { hasLocation, hasMedia: Boolean(report.mediaUrl) }), cues };
+}
+
+function buildRationale(cues: string[], context: { hasLocation: boolean; hasMedia: boolean }) {
+  const signals = cues.length > 0 ? `Matched ${cues.join(", ")}.` : "No hazard keywords matched.";
+  const evidence = [
+    context.hasLocation ? "geotagged" : "no coordinates",
+    context.hasMedia ? "media attached" : "no media",
+  ].join(", ");
+  return `Local heuristic: ${signals} Report is ${evidence}.`;
+}
+
+function clampScore(value: number) {
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
@@ -0,0 +1,476 @@
+import { randomUUID } from "node:crypto";
+
+import { canTransition, getIncidentStatus, isIncidentStatus } from "@/lib/incident-lifecycle";
+import { findDuplicateOf } from "@/lib/event-dedup";
+import { EventQueryError, parseListEventsParams, queryEvents } from "@/lib/event-query";
+import { haversineKm, hasCoordinates, isPointInGeofence, type LatLon } from "@/lib/geo";
+import {
+  DEFAULT_GEOFENCE_MIN_SEVERITY,
+  GeofenceInputError,
+  findTriggeredGeofences,
+  parseGeofenceInput,
+} from "@/lib/geofences";
+import { encodeGooglePolyline } from "@/lib/polyline";
+import { MAX_SAVED_ROUTES, SavedRouteInputError, parseSaveRouteRequest } from "@/lib/saved-routes";
+import {
+  MAX_ROUTE_ALTERNATIVES,
+  createGeofenceRequestSchema,
+  geofenceRequestSchema,
+  updateGeofenceRequestSchema,
+} from "@/lib/sar-contracts";
+import type {
+  AltRouteRequest,
+  AltRouteResponse,
+  DeleteGeofenceResponse,
+  ExplainEventResponse,
+  Geofence,
+  GeofenceRequest,
+  GeofenceResponse,
+  IngestEventRequest,
+  IngestEventResponse,
+  ListEventsResponse,
+  ListGeofenceAlertsResponse,
+  ListGeofencesResponse,
+  SarEvent,
+  SaveGeofenceResponse,
+  SavedRoute,
+  SavedRouteResponse,
+  SimulateReplayResponse,
+  TransitionEventStatusRequest,
+  TransitionEventStatusResponse,
+} from "@/types/sar";
+
+import { assessReport } from "./heuristics";
+import { readDatabase, updateDatabase, type LocalDatabase } from "./store";
+
+// Base URL callers resolve paths against when talking to the in-process backend.
+export const LOCAL_BACKEND_BASE_URL = "http://sar-local.invalid/";
+
+export function isLocalBackendEnabled() {
+  return process.env.SAR_BACKEND_MODE === "local";
+}
+
+const ROUTE_SPEED_KMH = 35;
+const ROUTE_SAMPLES = 12;
+// Curve bulge relative to the trip length; the first matches the original single-route planner.
+const ROUTE_CURVE_OFFSETS = [0.15, -0.22, 0.4];
+const MAX_GEOFENCE_ALERTS = 1_000;
+
+const REPLAY_SEED: IngestEventRequest[] = [
+  { text: "Banjir kilat di Klang area! Air naik dengan cepat", lat: 3.043, lon: 101.449 },
+  { text: "Flash flood near Klang river, cars stranded on Jalan Kota", lat: 3.038, lon: 101.446 },
+  { text: "Tanah runtuh di Bukit Antarabangsa, beberapa rumah terjejas", lat: 3.176, lon: 101.767 },
+  { text: "Water rising fast in Shah Alam Seksyen 13, residents evacuating", lat: 3.081, lon: 101.532 },
+  { text: "Mangsa terperangkap di tingkat atas rumah, perlukan bantuan segera!", lat: 3.06, lon: 101.49 },
+  { text: "Minor flooding reported near Kampung Baru, roads still passable", lat: 3.165, lon: 101.701 },
+];
+
+class LocalBackendError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Fetch-compatible entry point implementing the API Gateway contracts from `@/types/sar`.
+export async function handleLocalBackendRequest(request: Request): Promise<Response> {
+  const url = new URL(request.url);
+  const segments = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+  const method = request.method.toUpperCase();
+
+  try {
+    if (method === "GET" && segments.length === 1 && segments[0] === "events") {
+      return json(await listEvents(url.searchParams));
+    }
+    if (method === "GET" && segments.length === 3 && segments[0] === "events" && segments[2] === "explain") {
+      return json(await explainEvent(segments[1]));
+    }
+    if (method === "POST" && segments.length === 3 && segments[0] === "events" && segments[2] === "status") {
+      return json(await transitionEventStatus(segments[1], await readBody<TransitionEventStatusRequest>(request)));
+    }
+    if (method === "POST" && segments.length === 1 && segments[0] === "ingest") {
+      return json(await ingestEvent(await readBody<IngestEventRequest>(request)));
+    }
+    if (method === "POST" && segments.join("/") === "routes/alt") {
+      return json(planRoute(await readBody<AltRouteRequest>(request)));
+    }
+    if (method === "POST" && segments.join("/") === "routes/saved") {
+      return json(await saveRoute(await readBody(request)), 201);
+    }
+    if (method === "GET" && segments.length === 3 && segments[0] === "routes" && segments[1] === "saved") {
+      return json(await getSavedRoute(segments[2]));
+    }
+    if (method === "POST" && segments.join("/") === "alerts/geofence") {
+      return json(await deliverGeofenceAlert(await readBody(request)));
+    }
+    if (segments[0] === "geofences") {
+      return await handleGeofenceRequest(method, segments.slice(1), request);
+    }
+    if (method === "POST" && segments.join("/") === "simulate/replay") {
+      return json(await replaySeedEvents());
+    }
+    throw new LocalBackendError(`No local handler for ${method} ${url.pathname}`, 404);
+  } catch (error) {
+    if (error instanceof LocalBackendError) {
+      return json({ message: error.message }, error.status);
+    }
+    if (error instanceof GeofenceInputError || error instanceof SavedRouteInputError) {
+      return json({ message: error.message }, 400);
+    }
+    console.error("[local-backend] request failed", error);
+    return json({ message: "Local backend error" }, 500);
+  }
+}
+
+async function listEvents(searchParams: URLSearchParams): Promise<ListEventsResponse> {
+  const { events } = await readDatabase();
+  try {
+    return queryEvents(events, parseListEventsParams(searchParams));
+  } catch (error) {
+    if (error instanceof EventQueryError) {
+      throw new LocalBackendError(error.message, 400);
+    }
+    throw error;
+  }
+}
+
+async function ingestEvent(payload: IngestEventRequest, createdAt = Date.now()): Promise<IngestEventResponse> {
+  if (typeof payload.text !== "string" || payload.text.trim().length < 3) {
+    throw new LocalBackendError("text must be at least 3 characters", 400);
+  }
+
+  const assessment = assessReport(payload);
+  const event: SarEvent = {
+    eventId: randomUUID(),
+    text: payload.text.trim(),
+    lat: typeof payload.lat === "number" ? payload.lat : undefined,
+    lon: typeof payload.lon === "number" ? payload.lon : undefined,
+    mediaUrl: payload.mediaUrl || undefined,
+    createdAt,
+    severity: assessment.severity,
+    trust: assessment.trust,
+    rationale: "",
+    status: "reported",
+    statusUpdatedAt: createdAt,
+    statusHistory: [],
+  };
+
+  return updateDatabase((database) => {
+    const match = findDuplicateOf(payload, createdAt, database.events);
+    if (match) {
+      event.duplicateOf = match.event.eventId;
+      event.duplicateScore = Number(match.score.toFixed(2));
+      match.event.corroboratingEventIds = [...(match.event.corroboratingEventIds ?? []), event.eventId];
+    }
+    database.events.push(event);
+    // A corroborating report is not a new incident, so it does not re-trigger zone alerts.
+    if (!match) {
+      raiseGeofenceAlerts(database, event);
+    }
+    return { eventId: event.eventId, duplicateOf: event.duplicateOf };
+  });
+}
+
+async function transitionEventStatus(
+  eventId: string,
+  payload: TransitionEventStatusRequest,
+): Promise<TransitionEventStatusResponse> {
+  if (!isIncidentStatus(payload.status)) {
+    throw new LocalBackendError("status must be a known incident status", 400);
+  }
+  const actor = typeof payload.actor === "string" ? payload.actor.trim() : "";
+  if (!actor) {
+    throw new LocalBackendError("actor is required", 400);
+  }
+
+  return updateDatabase((database) => {
+    const event = database.events.find((record) => record.eventId === eventId);
+    if (!event) {
+      throw new LocalBackendError(`Event ${eventId} not found`, 404);
+    }
+
+    const from = getIncidentStatus(event);
+    if (!canTransition(from, payload.status)) {
+      throw new LocalBackendError(`Cannot move incident from ${from} to ${payload.status}`, 409);
+    }
+
+    const at = Date.now();
+    event.status = payload.status;
+    event.statusUpdatedAt = at;
+    event.statusUpdatedBy = actor;
+    event.statusHistory = [
+      ...(event.statusHistory ?? []),
+      { from, to: payload.status, actor, at, note: payload.note?.trim() || undefined },
+    ];
+    return { event };
+  });
+}
+
+async function explainEvent(eventId: string): Promise<ExplainEventResponse> {
+  const startedAt = Date.now();
+  const { events } = await readDatabase();
+  const event = events.find((record) => record.eventId === eventId);
+  if (!event) {
+    throw new LocalBackendError(`Event ${eventId} not found`, 404);
+  }
+  const lookupMs = Date.now() - startedAt;
+
+  const assessment = assessReport(event);
+  await updateDatabase((database) => {
+    const stored = database.events.find((record) => record.eventId === eventId);
+    if (stored) {
+      stored.rationale = assessment.rationale;
+      stored.trust = assessment.trust;
+    }
+  });
+
+  return {
+    eventId,
+    rationale: assessment.rationale,
+    cues: assessment.cues,
+    trustScore: assessment.trust,
+    trace: [
+      { tool: "localLookup", ms: lookupMs },
+      { tool: "localHeuristic", ms: Date.now() - startedAt - lookupMs },
+    ],
+  };
+}
+
+// Bends the straight line through an offset midpoint so the overlay reads as a detour.
+function planRoute(payload: AltRouteRequest): AltRouteResponse {
+  const coordinates = [payload.originLat, payload.originLon, payload.destLat, payload.destLon];
+  if (coordinates.some((value) => typeof value !== "number" || !Number.isFinite(value))) {
+    throw new LocalBackendError("originLat, originLon, destLat and destLon are required numbers", 400);
+  }
+  const alternatives = payload.alternatives ?? MAX_ROUTE_ALTERNATIVES;
+  if (!Number.isInteger(alternatives) || alternatives < 1 || alternatives > MAX_ROUTE_ALTERNATIVES) {
+    throw new LocalBackendError(`alternatives must be an integer between 1 and ${MAX_ROUTE_ALTERNATIVES}`, 400);
+  }
+
+  const origin = { lat: payload.originLat, lon: payload.originLon };
+  const destination = { lat: payload.destLat, lon: payload.destLon };
+  const routes = ROUTE_CURVE_OFFSETS.slice(0, alternatives)
+    .map((offset) => traceRoute(origin, destination, offset))
+    .sort((a, b) => a.etaMin - b.etaMin || a.distanceKm - b.distanceKm)
+    .map((route, index) => ({ ...route, routeId: `route-${index + 1}`, rank: index + 1 }));
+
+  const [recommended] = routes;
+  return {
+    distanceKm: recommended.distanceKm,
+    etaMin: recommended.etaMin,
+    polyline: recommended.polyline,
+    legs: recommended.legs,
+    routes,
+  };
+}
+
+// Bows a quadratic curve to one side of the straight line so alternatives fan out visibly.
+// Each route is split into two legs at its midpoint to give the operator a breakdown.
+function traceRoute(origin: LatLon, destination: LatLon, offset: number) {
+  const control = {
+    lat: (origin.lat + destination.lat) / 2 - (destination.lon - origin.lon) * offset,
+    lon: (origin.lon + destination.lon) / 2 + (destination.lat - origin.lat) * offset,
+  };
+
+  const path: Array<[number, number]> = [];
+  for (let index = 0; index <= ROUTE_SAMPLES; index += 1) {
+    const t = index / ROUTE_SAMPLES;
+    const lat = (1 - t) ** 2 * origin.lat + 2 * (1 - t) * t * control.lat + t ** 2 * destination.lat;
+    const lon = (1 - t) ** 2 * origin.lon + 2 * (1 - t) * t * control.lon + t ** 2 * destination.lon;
+    path.push([lat, lon]);
+  }
+
+  const midpoint = Math.floor(path.length / 2);
+  const legs = [path.slice(0, midpoint + 1), path.slice(midpoint)].map((segment) => {
+    const distanceKm = measurePath(segment);
+    const [startLat, startLon] = segment[0];
+    const [endLat, endLon] = segment[segment.length - 1];
+    return {
+      distanceMeters: Math.round(distanceKm * 1000),
+      duration: `${Math.round((distanceKm / ROUTE_SPEED_KMH) * 3600)}s`,
+      start: { latitude: startLat, longitude: startLon },
+      end: { latitude: endLat, longitude: endLon },
+    };
+  });
+
+  const distanceKm = measurePath(path);
+  const durationSeconds = Math.round((distanceKm / ROUTE_SPEED_KMH) * 3600);
+  return {
+    distanceKm: Number(distanceKm.toFixed(2)),
+    etaMin: Math.max(1, Math.round(durationSeconds / 60)),
+    polyline: encodeGooglePolyline(path),
+    legs,
+  };
+}
+
+function measurePath(path: Array<[number, number]>) {
+  let distanceKm = 0;
+  for (let index = 1; index < path.length; index += 1) {
+    distanceKm += haversineKm(
+      { lat: path[index - 1][0], lon: path[index - 1][1] },
+      { lat: path[index][0], lon: path[index][1] },
+    );
+  }
+  return distanceKm;
+}
+
+async function saveRoute(payload: unknown): Promise<SavedRouteResponse> {
+  const route: SavedRoute = {
+    ...parseSaveRouteRequest(payload),
+    routeId: randomUUID(),
+    createdAt: Date.now(),
+  };
+  await updateDatabase((database) => {
+    database.savedRoutes.push(route);
+    if (database.savedRoutes.length > MAX_SAVED_ROUTES) {
+      database.savedRoutes.splice(0, database.savedRoutes.length - MAX_SAVED_ROUTES);
+    }
+  });
+  return { route };
+}
+
+async function getSavedRoute(routeId: string): Promise<SavedRouteResponse> {
+  const { savedRoutes } = await readDatabase();
+  const route = savedRoutes.find((record) => record.routeId === routeId);
+  if (!route) {
+    throw new LocalBackendError(`Saved route ${routeId} not found`, 404);
+  }
+  return { route };
+}
+
+// There is no responder roster offline, so geotagged incidents inside the zone
+// stand in for the units that would be notified.
+async function deliverGeofenceAlert(payload: unknown): Promise<GeofenceResponse> {
+  const area = parseGeofenceInput(geofenceRequestSchema, payload);
+  const { events } = await readDatabase();
+  return { delivered: countIncidentsInArea(events, area) };
+}
+
+function countIncidentsInArea(events: SarEvent[], area: GeofenceRequest) {
+  return events.filter((event) => hasCoordinates(event) && isPointInGeofence(event, area)).length;
+}
+
+// Runs inside the ingest write so the event and the alerts it raises land together.
+function raiseGeofenceAlerts(database: LocalDatabase, event: SarEvent) {
+  const triggered = findTriggeredGeofences(event, database.geofences);
+  for (const geofence of triggered) {
+    geofence.hitCount += 1;
+    geofence.lastHitAt = event.createdAt;
+    database.geofenceAlerts.push({
+      alertId: randomUUID(),
+      geofenceId: geofence.geofenceId,
+      eventId: event.eventId,
+      severity: event.severity ?? 0,
+      delivered: countIncidentsInArea(database.events, geofence.area),
+      createdAt: event.createdAt ?? Date.now(),
+    });
+    console.info(`[local-backend] geofence "${geofence.name}" raised an alert for event ${event.eventId}`);
+  }
+  if (database.geofenceAlerts.length > MAX_GEOFENCE_ALERTS) {
+    database.geofenceAlerts.splice(0, database.geofenceAlerts.length - MAX_GEOFENCE_ALERTS);
+  }
+}
+
+async function handleGeofenceRequest(method: string, segments: string[], request: Request): Promise<Response> {
+  const [geofenceId, child] = segments;
+  if (segments.length === 0 && method === "GET") {
+    return json(await listGeofences());
+  }
+  if (segments.length === 0 && method === "POST") {
+    return json(await createGeofence(await readBody(request)), 201);
+  }
+  if (segments.length === 1 && method === "PATCH") {
+    return json(await updateGeofence(geofenceId, await readBody(request)));
+  }
+  if (segments.length === 1 && method === "DELETE") {
+    return json(await deleteGeofence(geofenceId));
+  }
+  if (segments.length === 2 && child === "alerts" && method === "GET") {
+    return json(await listGeofenceAlerts(geofenceId));
+  }
+  throw new LocalBackendError(`No local handler for ${method} /geofences/${segments.join("/")}`, 404);
+}
+
+async function listGeofences(): Promise<ListGeofencesResponse> {
+  const { geofences } = await readDatabase();
+  return { geofences: [...geofences].sort((a, b) => b.createdAt - a.createdAt) };
+}
+
+async function createGeofence(payload: unknown): Promise<SaveGeofenceResponse> {
+  const input = parseGeofenceInput(createGeofenceRequestSchema, payload);
+  const now = Date.now();
+  const geofence: Geofence = {
+    geofenceId: randomUUID(),
+    ...input,
+    minSeverity: input.minSeverity ?? DEFAULT_GEOFENCE_MIN_SEVERITY,
+    active: input.active ?? true,
+    createdAt: now,
+    updatedAt: now,
+    hitCount: 0,
+  };
+  await updateDatabase((database) => {
+    database.geofences.push(geofence);
+  });
+  return { geofence };
+}
+
+async function updateGeofence(geofenceId: string, payload: unknown): Promise<SaveGeofenceResponse> {
+  const update = parseGeofenceInput(updateGeofenceRequestSchema, payload);
+  return updateDatabase((database) => {
+    const geofence = findGeofence(database, geofenceId);
+    Object.assign(geofence, update, { updatedAt: Date.now() });
+    return { geofence };
+  });
+}
+
+async function deleteGeofence(geofenceId: string): Promise<DeleteGeofenceResponse> {
+  return updateDatabase((database) => {
+    findGeofence(database, geofenceId);
+    database.geofences = database.geofences.filter((record) => record.geofenceId !== geofenceId);
+    database.geofenceAlerts = database.geofenceAlerts.filter((alert) => alert.geofenceId !== geofenceId);
+    return { geofenceId, deleted: true };
+  });
+}
+
+async function listGeofenceAlerts(geofenceId: string): Promise<ListGeofenceAlertsResponse> {
+  const database = await readDatabase();
+  findGeofence(database, geofenceId);
+  return {
+    alerts: database.geofenceAlerts
+      .filter((alert) => alert.geofenceId === geofenceId)
+      .sort((a, b) => b.createdAt - a.createdAt),
+  };
+}
+
+function findGeofence(database: LocalDatabase, geofenceId: string) {
+  const geofence = database.geofences.find((record) => record.geofenceId === geofenceId);
+  if (!geofence) {
+    throw new LocalBackendError(`Geofence ${geofenceId} not found`, 404);
+  }
+  return geofence;
+}
+
+async function replaySeedEvents(): Promise<SimulateReplayResponse> {
+  const now = Date.now();
+  for (const [index, seed] of REPLAY_SEED.entries()) {
+    await ingestEvent(seed, now - (REPLAY_SEED.length - index) * 60_000);
+  }
+  return { started: true, count: REPLAY_SEED.length };
+}
+
+async function readBody<T>(request: Request): Promise<T> {
+  try {
+    return (await request.json()) as T;
+  } catch {
+    throw new LocalBackendError("Request body must be valid JSON", 400);
+  }
+}
+
+function json(payload: unknown, status = 200) {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
@@ -0,0 +1,102 @@
+import { mkdir, open, readFile, rename, stat, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { Geofence, GeofenceAlertRecord, SarEvent, SavedRoute } from "@/types/sar";
+
+export interface LocalDatabase {
+  events: SarEvent[];
+  geofences: Geofence[];
+  geofenceAlerts: GeofenceAlertRecord[];
+  savedRoutes: SavedRoute[];
+}
+
+const DEFAULT_DATA_FILE = ".sar-local/db.json";
+const LOCK_RETRY_MS = 20;
+const LOCK_TIMEOUT_MS = 5_000;
+// A lock older than this belongs to a process that died mid-write.
+const STALE_LOCK_MS = 30_000;
+
+function resolveDataFile() {
+  return path.resolve(process.cwd(), process.env.SAR_LOCAL_DATA_FILE ?? DEFAULT_DATA_FILE);
+}
+
+function emptyDatabase(): LocalDatabase {
+  return { events: [], geofences: [], geofenceAlerts: [], savedRoutes: [] };
+}
+
+// Every read goes back to disk so the dashboard and the MCP server, which run in
+// separate processes, observe each other's writes.
+export async function readDatabase(): Promise<LocalDatabase> {
+  try {
+    const raw = await readFile(resolveDataFile(), "utf8");
+    const parsed = JSON.parse(raw) as Partial<LocalDatabase>;
+    return { ...emptyDatabase(), ...parsed };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return emptyDatabase();
+    }
+    throw error;
+  }
+}
+
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Serialises read-modify-write cycles: the queue orders them within this process
+// and a lock file next to the database orders them across processes, so the
+// dashboard and the MCP server cannot overwrite each other's changes. The file is
+// swapped in atomically so a concurrent reader never sees a half-written document.
+export function updateDatabase<T>(mutate: (database: LocalDatabase) => T | Promise<T>): Promise<T> {
+  const run = writeQueue.then(async () => {
+    const file = resolveDataFile();
+    await mkdir(path.dirname(file), { recursive: true });
+    const release = await acquireLock(`${file}.lock`);
+    try {
+      const database = await readDatabase();
+      const result = await mutate(database);
+      const tempFile = `${file}.${process.pid}.tmp`;
+      await writeFile(tempFile, JSON.stringify(database, null, 2), "utf8");
+      await rename(tempFile, file);
+      return result;
+    } finally {
+      await release();
+    }
+  });
+
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+async function acquireLock(lockFile: string): Promise<() => Promise<void>> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      const handle = await open(lockFile, "wx");
+      await handle.writeFile(String(process.pid));
+      await handle.close();
+      return () => unlink(lockFile).catch(() => undefined);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+
+    if (await isStaleLock(lockFile)) {
+      await unlink(lockFile).catch(() => undefined);
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for the local database lock at ${lockFile}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+async function isStaleLock(lockFile: string) {
+  try {
+    const { mtimeMs } = await stat(lockFile);
+    return Date.now() - mtimeMs > STALE_LOCK_MS;
+  } catch (error) {
+    // Released between our open and stat: retry straight away.
+    return (error as NodeJS.ErrnoException).code === "ENOENT";
+  }
+}
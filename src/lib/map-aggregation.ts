@@ -0,0 +1,119 @@
+import type { LatLon } from '@/lib/geo';
+
+export interface WeightedPoint<T> extends LatLon {
+  weight: number;
+  item: T;
+}
+
+export interface PointCluster<T> extends LatLon {
+  id: string;
+  items: T[];
+  weight: number;
+  /** [[south, west], [north, east]] for fitBounds. */
+  bounds: [[number, number], [number, number]];
+}
+
+export interface DensityCell {
+  id: string;
+  bounds: [[number, number], [number, number]];
+  /** Normalised to the densest cell in view, 0–1. */
+  intensity: number;
+}
+
+// Width of a Web Mercator tile pixel in degrees of longitude at the given zoom.
+function degreesPerPixel(zoom: number) {
+  return 360 / (256 * 2 ** zoom);
+}
+
+// Latitude cells shrink with cos(lat) so grid squares stay roughly square on screen.
+function cellSize(zoom: number, cellPx: number, referenceLat: number) {
+  const lon = degreesPerPixel(zoom) * cellPx;
+  return { lat: lon * Math.cos((referenceLat * Math.PI) / 180), lon };
+}
+
+function referenceLatitude(points: LatLon[]) {
+  return points.reduce((sum, point) => sum + point.lat, 0) / (points.length || 1);
+}
+
+// Severity 0–100 maps to 0.25–1 so unscored reports still register.
+export function severityWeight(severity?: number) {
+  const clamped = Math.min(Math.max(severity ?? 0, 0), 100);
+  return 0.25 + (clamped / 100) * 0.75;
+}
+
+export function clusterPoints<T>(points: WeightedPoint<T>[], zoom: number, cellPx = 56): PointCluster<T>[] {
+  if (points.length === 0) {
+    return [];
+  }
+
+  const size = cellSize(zoom, cellPx, referenceLatitude(points));
+  const cells = new Map<string, WeightedPoint<T>[]>();
+  for (const point of points) {
+    const key = `${Math.floor(point.lat / size.lat)}:${Math.floor(point.lon / size.lon)}`;
+    const bucket = cells.get(key);
+    if (bucket) {
+      bucket.push(point);
+    } else {
+      cells.set(key, [point]);
+    }
+  }
+
+  return [...cells.entries()].map(([key, members]) => {
+    const weight = members.reduce((sum, member) => sum + member.weight, 0);
+    const lats = members.map((member) => member.lat);
+    const lons = members.map((member) => member.lon);
+    return {
+      id: key,
+      items: members.map((member) => member.item),
+      weight,
+      lat: members.reduce((sum, member) => sum + member.lat * member.weight, 0) / weight,
+      lon: members.reduce((sum, member) => sum + member.lon * member.weight, 0) / weight,
+      bounds: [
+        [Math.min(...lats), Math.min(...lons)],
+        [Math.max(...lats), Math.max(...lons)],
+      ],
+    };
+  });
+}
+
+const KERNEL: Array<[number, number, number]> = [
+  [0, 0, 1],
+  [-1, 0, 0.5],
+  [1, 0, 0.5],
+  [0, -1, 0.5],
+  [0, 1, 0.5],
+  [-1, -1, 0.25],
+  [-1, 1, 0.25],
+  [1, -1, 0.25],
+  [1, 1, 0.25],
+];
+
+// Splats each point's weight over a 3×3 neighbourhood of screen-sized cells.
+export function buildDensityGrid<T>(points: WeightedPoint<T>[], zoom: number, cellPx = 24): DensityCell[] {
+  if (points.length === 0) {
+    return [];
+  }
+
+  const size = cellSize(zoom, cellPx, referenceLatitude(points));
+  const totals = new Map<string, { row: number; column: number; value: number }>();
+  for (const point of points) {
+    const row = Math.floor(point.lat / size.lat);
+    const column = Math.floor(point.lon / size.lon);
+    for (const [dRow, dColumn, factor] of KERNEL) {
+      const key = `${row + dRow}:${column + dColumn}`;
+      const cell = totals.get(key) ?? { row: row + dRow, column: column + dColumn, value: 0 };
+      cell.value += point.weight * factor;
+      totals.set(key, cell);
+    }
+  }
+
+  const max = Math.max(...[...totals.values()].map((cell) => cell.value));
+  return [...totals.entries()].map(([key, cell]) => ({
+    id: key,
+    intensity: cell.value / max,
+    bounds: [
+      [cell.row * size.lat, cell.column * size.lon],
+      [(cell.row + 1) * size.lat, (cell.column + 1) * size.lon],
+    ],
+  }));
+}
@@ -0,0 +1,109 @@
+import { type LatLon, haversineKm } from '@/lib/geo';
+import { encodeGooglePolyline } from '@/lib/polyline';
+import { assessRouteHazards, getRoutePath } from '@/lib/route-hazards';
+import type {
+  AltRouteRequest,
+  AltRouteResponse,
+  AvoidArea,
+  MissionOrderStrategy,
+  MissionRouteRequest,
+  MissionRouteResponse,
+  MissionStop,
+  PlannedMissionStop,
+} from '@/types/sar';
+
+// Under `severity`, a severity-100 stop looks this many times closer than its distance, plus one.
+const SEVERITY_PULL = 2;
+
+export const MISSION_ORDER_STRATEGIES: Record<MissionOrderStrategy, { label: string; description: string }> = {
+  nearest: { label: 'Nearest first', description: 'Always head to the closest remaining stop' },
+  severity: { label: 'Severity weighted', description: 'Pull severe incidents forward, even if slightly further' },
+};
+
+// Greedy nearest-neighbour tour from `start`; good enough for the dozen stops a crew can cover.
+export function orderMissionStops<T extends MissionStop>(
+  start: LatLon,
+  stops: T[],
+  strategy: MissionOrderStrategy = 'nearest',
+): T[] {
+  const remaining = [...stops];
+  const ordered: T[] = [];
+  let position = start;
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    let bestCost = Infinity;
+    remaining.forEach((stop, index) => {
+      const pull = strategy === 'severity' ? 1 + (SEVERITY_PULL * (stop.severity ?? 0)) / 100 : 1;
+      const cost = haversineKm(position, stop) / pull;
+      if (cost < bestCost) {
+        bestIndex = index;
+        bestCost = cost;
+      }
+    });
+    const [next] = remaining.splice(bestIndex, 1);
+    ordered.push(next);
+    position = next;
+  }
+  return ordered;
+}
+
+// Orders the stops, routes each leg with `planLeg` and stitches the legs into one mission route.
+export async function planMissionRoute(
+  request: MissionRouteRequest,
+  avoidAreas: AvoidArea[],
+  planLeg: (leg: AltRouteRequest) => Promise<AltRouteResponse>,
+): Promise<MissionRouteResponse> {
+  const start = { lat: request.startLat, lon: request.startLon };
+  const strategy = request.strategy ?? 'nearest';
+  const ordered = orderMissionStops(start, request.stops, strategy);
+
+  // The stops are incidents themselves; never steer around the places the crew is heading to.
+  const stopIds = new Set(ordered.map((stop) => stop.eventId));
+  const legAvoidAreas = avoidAreas.filter((area) => !(area.source === 'event' && stopIds.has(area.sourceId)));
+  const legs = await Promise.all(
+    ordered.map((stop, index) => {
+      const from = index === 0 ? start : ordered[index - 1];
+      return planLeg({
+        originLat: from.lat,
+        originLon: from.lon,
+        destLat: stop.lat,
+        destLon: stop.lon,
+        alternatives: 1,
+        optimize: request.optimize,
+        avoidAreas: legAvoidAreas,
+      });
+    }),
+  );
+
+  const path: LatLon[] = [start];
+  let distanceKm = 0;
+  let arrivalMin = 0;
+  const stops = ordered.map((stop, index): PlannedMissionStop => {
+    const leg = legs[index];
+    const legPath = getRoutePath(leg, index === 0 ? start : ordered[index - 1], stop);
+    path.push(...legPath.slice(1));
+    distanceKm += leg.distanceKm;
+    arrivalMin += leg.etaMin;
+    return {
+      ...stop,
+      order: index + 1,
+      legDistanceKm: leg.distanceKm,
+      legEtaMin: leg.etaMin,
+      arrivalMin,
+      crossesHazard: assessRouteHazards(legPath, legAvoidAreas).crossesHazard,
+    };
+  });
+
+  const { hazards, crossesHazard } = assessRouteHazards(path, legAvoidAreas);
+  return {
+    distanceKm: Number(distanceKm.toFixed(2)),
+    etaMin: arrivalMin,
+    polyline: encodeGooglePolyline(path.map((point) => [point.lat, point.lon])),
+    strategy,
+    stops,
+    hazards,
+    crossesHazard,
+    avoidAreas: legAvoidAreas,
+    engine: legs.some((leg) => leg.engine === 'offline') ? 'offline' : legs[0].engine,
+  };
+}
@@ -40,3 +40,34 @@ function decodeChunk(str: string, startIndex: number) {
   const value = shouldNegate ? ~(result >> 1) : result >> 1;
   return { value, nextIndex: index };
 }
+
+// Inverse of decodeGooglePolyline; accepts [lat, lon] tuples at 1e-5 precision.
+export function encodeGooglePolyline(points: Array<[number, number]>): string {
+  let output = '';
+  let previousLat = 0;
+  let previousLon = 0;
+
+  for (const [lat, lon] of points) {
+    const scaledLat = Math.round(lat * 1e5);
+    const scaledLon = Math.round(lon * 1e5);
+    output += encodeChunk(scaledLat - previousLat);
+    output += encodeChunk(scaledLon - previousLon);
+    previousLat = scaledLat;
+    previousLon = scaledLon;
+  }
+
+  return output;
+}
+
+function encodeChunk(delta: number) {
+  let value = delta < 0 ? ~(delta << 1) : delta << 1;
+  let chunk = '';
+
+  while (value >= 0x20) {
+    chunk += String.fromCharCode((0x20 | (value & 0x1f)) + 63);
+    value >>= 5;
+  }
+
+  chunk += String.fromCharCode(value + 63);
+  return chunk;
+}
@@ -1,7 +1,16 @@
+import type { ListEventsParams } from '@/types/sar';
+
+// Every event-list key starts with `events`, so invalidating `queryKeys.events` refreshes them all.
 export const queryKeys = {
   events: ['events'] as const,
+  eventList: (params: ListEventsParams) => ['events', 'list', params] as const,
+  eventFeed: (params: ListEventsParams) => ['events', 'feed', params] as const,
   event: (eventId: string) => ['event', eventId] as const,
   altRoute: ['alt-route'] as const,
+  savedRoute: (routeId: string) => ['saved-route', routeId] as const,
   geofence: ['geofence'] as const,
+  geofences: ['geofences'] as const,
+  geofenceAlerts: (geofenceId: string) => ['geofences', geofenceId, 'alerts'] as const,
   simulate: ['simulate'] as const,
+  health: ['health'] as const,
 };
@@ -0,0 +1,124 @@
+import { haversineKm, type LatLon } from "@/lib/geo";
+
+import type { RoadGraph } from "./graph";
+
+// Cost of traversing an edge; Infinity blocks it.
+export type EdgeCost = (edgeId: number) => number;
+
+export interface NearestNode {
+  node: number;
+  distanceKm: number;
+}
+
+// Linear scan with a flat-earth distance; only the winner is measured properly.
+export function findNearestNode(graph: RoadGraph, point: LatLon): NearestNode | null {
+  const lonScale = Math.cos((point.lat * Math.PI) / 180) ** 2;
+  let best = -1;
+  let bestScore = Infinity;
+  graph.nodes.forEach((node, index) => {
+    const score = (node.lat - point.lat) ** 2 + (node.lon - point.lon) ** 2 * lonScale;
+    if (score < bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  });
+  return best < 0 ? null : { node: best, distanceKm: haversineKm(point, graph.nodes[best]) };
+}
+
+// A* returning the edge ids of the cheapest path, or null when every path is blocked.
+// `estimate` must never exceed the true remaining cost for the result to be optimal.
+export function findPath(
+  graph: RoadGraph,
+  start: number,
+  goal: number,
+  edgeCost: EdgeCost,
+  estimate: (node: number) => number,
+): number[] | null {
+  const costs = new Float64Array(graph.nodes.length).fill(Infinity);
+  const via = new Int32Array(graph.nodes.length).fill(-1);
+  const queue = new MinHeap();
+  costs[start] = 0;
+  queue.push(start, estimate(start));
+
+  while (queue.size > 0) {
+    const { node, priority } = queue.pop();
+    if (node === goal) {
+      break;
+    }
+    // Stale entry left behind by a later, cheaper push.
+    if (priority > costs[node] + estimate(node)) {
+      continue;
+    }
+    for (const edgeId of graph.adjacency[node]) {
+      const cost = edgeCost(edgeId);
+      if (cost === Infinity) {
+        continue;
+      }
+      const { to } = graph.edges[edgeId];
+      const candidate = costs[node] + cost;
+      if (candidate < costs[to]) {
+        costs[to] = candidate;
+        via[to] = edgeId;
+        queue.push(to, candidate + estimate(to));
+      }
+    }
+  }
+
+  if (start !== goal && via[goal] < 0) {
+    return null;
+  }
+  const path: number[] = [];
+  for (let node = goal; node !== start; node = graph.edges[via[node]].from) {
+    path.push(via[node]);
+  }
+  return path.reverse();
+}
+
+class MinHeap {
+  private readonly items: Array<{ node: number; priority: number }> = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(node: number, priority: number) {
+    const { items } = this;
+    items.push({ node, priority });
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (items[parent].priority <= items[index].priority) {
+        break;
+      }
+      [items[parent], items[index]] = [items[index], items[parent]];
+      index = parent;
+    }
+  }
+
+  pop() {
+    const { items } = this;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < items.length && items[left].priority < items[smallest].priority) {
+          smallest = left;
+        }
+        if (right < items.length && items[right].priority < items[smallest].priority) {
+          smallest = right;
+        }
+        if (smallest === index) {
+          break;
+        }
+        [items[smallest], items[index]] = [items[index], items[smallest]];
+        index = smallest;
+      }
+    }
+    return top;
+  }
+}
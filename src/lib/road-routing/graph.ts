@@ -0,0 +1,288 @@
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+
+import { haversineKm, type LatLon } from "@/lib/geo";
+
+export interface RoadEdge {
+  from: number;
+  to: number;
+  distanceKm: number;
+  speedKmh: number;
+  name?: string;
+}
+
+export interface RoadGraph {
+  nodes: LatLon[];
+  edges: RoadEdge[];
+  // Outgoing edge indexes per node.
+  adjacency: number[][];
+  maxSpeedKmh: number;
+}
+
+type RoadTags = Record<string, string>;
+
+interface RoadVertex {
+  key: string;
+  point: LatLon;
+}
+
+// Typical free-flow speeds per OSM `highway` class; classes missing here (footways, steps…) are not driveable.
+const ROAD_SPEEDS_KMH: Record<string, number> = {
+  motorway: 90,
+  motorway_link: 50,
+  trunk: 80,
+  trunk_link: 40,
+  primary: 60,
+  primary_link: 40,
+  secondary: 50,
+  secondary_link: 35,
+  tertiary: 40,
+  tertiary_link: 30,
+  unclassified: 30,
+  road: 30,
+  residential: 25,
+  living_street: 10,
+  service: 15,
+  track: 10,
+};
+
+// GeoJSON road files do not always carry a `highway` class.
+const DEFAULT_SPEED_KMH = 30;
+const KMH_PER_MPH = 1.609;
+
+const OSM_ELEMENT_PATTERN = /<(node|way)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g;
+const OSM_CHILD_PATTERN = /<(nd|tag)\b([^>]*?)\/>/g;
+const XML_ATTRIBUTE_PATTERN = /([\w:-]+)=(?:"([^"]*)"|'([^']*)')/g;
+
+export class RoadNetworkError extends Error {}
+
+let cached: { file: string; modifiedAt: number; graph: Promise<RoadGraph> } | null = null;
+
+// Parsed once per process and reloaded when the file changes on disk.
+export async function loadRoadGraph(file: string): Promise<RoadGraph> {
+  const resolved = path.resolve(process.cwd(), file);
+  const { mtimeMs } = await stat(resolved);
+  if (cached?.file !== resolved || cached.modifiedAt !== mtimeMs) {
+    const graph = readFile(resolved, "utf8").then((text) => parseRoadNetwork(text, resolved));
+    cached = { file: resolved, modifiedAt: mtimeMs, graph };
+    graph.catch(() => {
+      if (cached?.graph === graph) {
+        cached = null;
+      }
+    });
+  }
+  return cached.graph;
+}
+
+// Accepts a GeoJSON FeatureCollection of LineStrings or an OSM XML extract.
+export function parseRoadNetwork(text: string, file = "road network"): RoadGraph {
+  if (/\.pbf$/i.test(file)) {
+    throw new RoadNetworkError(`${file} is OSM PBF; convert it to XML first, e.g. osmium cat extract.osm.pbf -o extract.osm`);
+  }
+  const builder = new RoadGraphBuilder();
+  if (text.trimStart().startsWith("<")) {
+    parseOsmXml(text, builder);
+  } else {
+    let document: unknown;
+    try {
+      document = JSON.parse(text);
+    } catch {
+      throw new RoadNetworkError(`${file} is neither GeoJSON nor OSM XML`);
+    }
+    parseGeoJsonRoads(document, builder);
+  }
+  if (builder.graph.edges.length === 0) {
+    throw new RoadNetworkError(`${file} contains no driveable roads`);
+  }
+  return builder.graph;
+}
+
+class RoadGraphBuilder {
+  readonly graph: RoadGraph = { nodes: [], edges: [], adjacency: [], maxSpeedKmh: 0 };
+  private readonly nodeIndex = new Map<string, number>();
+
+  addWay(vertices: RoadVertex[], tags: RoadTags) {
+    const profile = getRoadProfile(tags);
+    if (!profile) {
+      return;
+    }
+    const ids = vertices.map((vertex) => this.nodeFor(vertex));
+    for (let index = 1; index < ids.length; index += 1) {
+      const [from, to] = [ids[index - 1], ids[index]];
+      if (from === to) {
+        continue;
+      }
+      const distanceKm = haversineKm(this.graph.nodes[from], this.graph.nodes[to]);
+      if (profile.direction !== "backward") {
+        this.addEdge({ from, to, distanceKm, speedKmh: profile.speedKmh, name: profile.name });
+      }
+      if (profile.direction !== "forward") {
+        this.addEdge({ from: to, to: from, distanceKm, speedKmh: profile.speedKmh, name: profile.name });
+      }
+    }
+  }
+
+  private nodeFor({ key, point }: RoadVertex) {
+    let id = this.nodeIndex.get(key);
+    if (id === undefined) {
+      id = this.graph.nodes.push(point) - 1;
+      this.graph.adjacency.push([]);
+      this.nodeIndex.set(key, id);
+    }
+    return id;
+  }
+
+  private addEdge(edge: RoadEdge) {
+    const id = this.graph.edges.push(edge) - 1;
+    this.graph.adjacency[edge.from].push(id);
+    this.graph.maxSpeedKmh = Math.max(this.graph.maxSpeedKmh, edge.speedKmh);
+  }
+}
+
+// Closed roads never enter the graph; request-time closures are handled by the search instead.
+function getRoadProfile(tags: RoadTags) {
+  if (isYes(tags.blocked) || isYes(tags.closed) || tags.access === "no" || tags.motor_vehicle === "no") {
+    return null;
+  }
+  const classSpeed = tags.highway === undefined ? DEFAULT_SPEED_KMH : ROAD_SPEEDS_KMH[tags.highway];
+  if (classSpeed === undefined) {
+    return null;
+  }
+  return {
+    speedKmh: parseMaxSpeed(tags.maxspeed) ?? classSpeed,
+    name: tags.name || tags.ref || undefined,
+    direction: getTravelDirection(tags),
+  };
+}
+
+function getTravelDirection(tags: RoadTags): "both" | "forward" | "backward" {
+  if (tags.oneway === "-1" || tags.oneway === "reverse") {
+    return "backward";
+  }
+  if (tags.oneway === "no") {
+    return "both";
+  }
+  if (isYes(tags.oneway) || tags.junction === "roundabout" || tags.highway === "motorway") {
+    return "forward";
+  }
+  return "both";
+}
+
+function parseMaxSpeed(value?: string) {
+  const match = value?.match(/^\s*(\d+(?:\.\d+)?)\s*(mph)?/i);
+  if (!match) {
+    return undefined;
+  }
+  const speed = Number(match[1]) * (match[2] ? KMH_PER_MPH : 1);
+  return speed > 0 ? speed : undefined;
+}
+
+function isYes(value?: string) {
+  return value === "yes" || value === "true" || value === "1";
+}
+
+function parseGeoJsonRoads(document: unknown, builder: RoadGraphBuilder) {
+  const root = document as { type?: string; features?: unknown[] };
+  const features = root?.type === "FeatureCollection" && Array.isArray(root.features) ? root.features : [document];
+  for (const feature of features) {
+    const { geometry, properties } = (feature ?? {}) as {
+      geometry?: { type?: string; coordinates?: unknown };
+      properties?: Record<string, unknown> | null;
+    };
+    const lines =
+      geometry?.type === "LineString"
+        ? [geometry.coordinates]
+        : geometry?.type === "MultiLineString" && Array.isArray(geometry.coordinates)
+          ? geometry.coordinates
+          : [];
+    const tags = toRoadTags(properties ?? {});
+    for (const line of lines) {
+      if (Array.isArray(line)) {
+        builder.addWay(line.flatMap(toGeoJsonVertex), tags);
+      }
+    }
+  }
+}
+
+function toGeoJsonVertex(position: unknown): RoadVertex[] {
+  if (!Array.isArray(position)) {
+    return [];
+  }
+  const [lon, lat] = position as unknown[];
+  if (typeof lon !== "number" || typeof lat !== "number" || !Number.isFinite(lon) || !Number.isFinite(lat)) {
+    return [];
+  }
+  // Lines join wherever they share a vertex, to roughly 10 cm.
+  return [{ key: `${lon.toFixed(6)},${lat.toFixed(6)}`, point: { lat, lon } }];
+}
+
+function toRoadTags(properties: Record<string, unknown>): RoadTags {
+  return Object.fromEntries(
+    Object.entries(properties)
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(([key, value]) => [key, String(value)]),
+  );
+}
+
+function parseOsmXml(text: string, builder: RoadGraphBuilder) {
+  const points = new Map<string, LatLon>();
+  for (const [, element, attributeText, body = ""] of text.matchAll(OSM_ELEMENT_PATTERN)) {
+    const attributes = readXmlAttributes(attributeText);
+    if (element === "node") {
+      const lat = Number(attributes.lat);
+      const lon = Number(attributes.lon);
+      if (attributes.id && Number.isFinite(lat) && Number.isFinite(lon)) {
+        points.set(attributes.id, { lat, lon });
+      }
+      continue;
+    }
+
+    const refs: string[] = [];
+    const tags: RoadTags = {};
+    for (const [, child, childAttributeText] of body.matchAll(OSM_CHILD_PATTERN)) {
+      const childAttributes = readXmlAttributes(childAttributeText);
+      if (child === "nd" && childAttributes.ref) {
+        refs.push(childAttributes.ref);
+      } else if (child === "tag" && childAttributes.k) {
+        tags[childAttributes.k] = childAttributes.v ?? "";
+      }
+    }
+    // Other OSM ways (buildings, rivers, boundaries) have no `highway` tag.
+    if (tags.highway) {
+      const vertices = refs.flatMap((ref) => {
+        const point = points.get(ref);
+        return point ? [{ key: ref, point }] : [];
+      });
+      builder.addWay(vertices, tags);
+    }
+  }
+}
+
+function readXmlAttributes(text: string) {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted] of text.matchAll(XML_ATTRIBUTE_PATTERN)) {
+    attributes[name] = decodeXmlEntities(doubleQuoted ?? singleQuoted ?? "");
+  }
+  return attributes;
+}
+
+function decodeXmlEntities(value: string) {
+  return value.replace(/&(#x?[0-9a-f]+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case "amp":
+        return "&";
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+      default: {
+        const point = code[1].toLowerCase() === "x" ? Number.parseInt(code.slice(2), 16) : Number(code.slice(1));
+        return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+      }
+    }
+  });
+}
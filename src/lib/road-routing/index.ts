@@ -0,0 +1,252 @@
+import { getGeofenceBounds, haversineKm, isPointInGeofence, type BoundingBox, type LatLon } from "@/lib/geo";
+import { encodeGooglePolyline } from "@/lib/polyline";
+import { MAX_ROUTE_ALTERNATIVES } from "@/lib/sar-contracts";
+import type { AltRouteOption, AltRouteRequest, AltRouteResponse, AvoidArea, RouteOptimize } from "@/types/sar";
+
+import { findNearestNode, findPath } from "./engine";
+import { loadRoadGraph, type RoadGraph } from "./graph";
+
+export type RoutingMode = "backend" | "fallback" | "offline";
+
+const ROUTING_MODES: RoutingMode[] = ["backend", "fallback", "offline"];
+
+// Origins and destinations further than this from the nearest mapped road are rejected.
+const MAX_SNAP_KM = 5;
+// Speed assumed between the requested point and the road it snaps to.
+const OFF_ROAD_SPEED_KMH = 15;
+// Each found route makes its roads this much dearer, pushing the next search elsewhere.
+const ALTERNATIVE_PENALTY = 1.5;
+const MAX_DETOUR_RATIO = 1.6;
+const MAX_SHARED_RATIO = 0.8;
+
+export class OfflineRoutingError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export function getRoadNetworkFile() {
+  return process.env.SAR_ROAD_NETWORK_FILE || undefined;
+}
+
+// Without an explicit mode, configuring a road network makes it the fallback for the routing backend.
+export function getRoutingMode(): RoutingMode {
+  const mode = process.env.SAR_ROUTING_MODE as RoutingMode | undefined;
+  if (mode && ROUTING_MODES.includes(mode)) {
+    return mode;
+  }
+  return getRoadNetworkFile() ? "fallback" : "backend";
+}
+
+// Outages are worth an offline answer; a request the backend rejected would fail offline too.
+export function isRoutingOutage(status?: number) {
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+}
+
+// Same contract as `/routes/alt`, answered from the road network in SAR_ROAD_NETWORK_FILE.
+// Avoid areas block the roads inside them unless they contain an endpoint; if that leaves
+// no way through, the routes fall back to crossing them and hazard ranking flags it.
+export async function planOfflineRoute(request: AltRouteRequest): Promise<AltRouteResponse> {
+  const coordinates = [request.originLat, request.originLon, request.destLat, request.destLon];
+  if (coordinates.some((value) => typeof value !== "number" || !Number.isFinite(value))) {
+    throw new OfflineRoutingError("originLat, originLon, destLat and destLon are required numbers", 400);
+  }
+  const alternatives = request.alternatives ?? MAX_ROUTE_ALTERNATIVES;
+  if (!Number.isInteger(alternatives) || alternatives < 1 || alternatives > MAX_ROUTE_ALTERNATIVES) {
+    throw new OfflineRoutingError(`alternatives must be an integer between 1 and ${MAX_ROUTE_ALTERNATIVES}`, 400);
+  }
+
+  const graph = await readRoadGraph();
+  const origin = { lat: request.originLat, lon: request.originLon };
+  const destination = { lat: request.destLat, lon: request.destLon };
+  const start = snapToRoad(graph, origin, "Origin");
+  const goal = snapToRoad(graph, destination, "Destination");
+  const optimize = request.optimize ?? "fastest";
+
+  const avoidBlocked = findBlockedEdges(graph, request.avoidAreas ?? [], origin, destination);
+  let paths = findAlternativePaths(graph, start, goal, optimize, avoidBlocked, alternatives);
+  if (paths.length === 0 && avoidBlocked.size > 0) {
+    paths = findAlternativePaths(graph, start, goal, optimize, new Set(), alternatives);
+  }
+  if (paths.length === 0) {
+    throw new OfflineRoutingError("No road connection between origin and destination in the offline road network", 422);
+  }
+
+  const routes = paths
+    .map((path) => describeRoute(graph, path, origin, destination, start, goal))
+    .sort((a, b) => {
+      const byDistance = a.distanceKm - b.distanceKm;
+      const byTime = a.etaMin - b.etaMin;
+      return optimize === "shortest" ? byDistance || byTime : byTime || byDistance;
+    })
+    .map((route, index): AltRouteOption => ({ ...route, routeId: `offline-${index + 1}`, rank: index + 1 }));
+
+  const [recommended] = routes;
+  return {
+    distanceKm: recommended.distanceKm,
+    etaMin: recommended.etaMin,
+    polyline: recommended.polyline,
+    legs: recommended.legs,
+    routes,
+    engine: "offline",
+  };
+}
+
+async function readRoadGraph() {
+  const file = getRoadNetworkFile();
+  if (!file) {
+    throw new OfflineRoutingError("Offline routing needs SAR_ROAD_NETWORK_FILE to point at a road network", 503);
+  }
+  try {
+    return await loadRoadGraph(file);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new OfflineRoutingError(`Road network could not be loaded: ${reason}`, 503);
+  }
+}
+
+function snapToRoad(graph: RoadGraph, point: LatLon, label: string) {
+  const nearest = findNearestNode(graph, point);
+  if (!nearest || nearest.distanceKm > MAX_SNAP_KM) {
+    const distance = nearest ? `${nearest.distanceKm.toFixed(1)} km` : "too far";
+    throw new OfflineRoutingError(`${label} is ${distance} from the nearest mapped road`, 422);
+  }
+  return nearest.node;
+}
+
+function findBlockedEdges(graph: RoadGraph, avoidAreas: AvoidArea[], origin: LatLon, destination: LatLon) {
+  const areas = avoidAreas
+    .map(({ area }) => area)
+    .filter((area) => !isPointInGeofence(origin, area) && !isPointInGeofence(destination, area))
+    .map((area) => ({ area, bounds: getGeofenceBounds(area) }));
+  const blocked = new Set<number>();
+  if (areas.length === 0) {
+    return blocked;
+  }
+  graph.edges.forEach((edge, edgeId) => {
+    const from = graph.nodes[edge.from];
+    const to = graph.nodes[edge.to];
+    const midpoint = { lat: (from.lat + to.lat) / 2, lon: (from.lon + to.lon) / 2 };
+    const crosses = areas.some(
+      ({ area, bounds }) =>
+        (!bounds || overlapsBounds(from, to, bounds)) &&
+        [from, midpoint, to].some((point) => isPointInGeofence(point, area)),
+    );
+    if (crosses) {
+      blocked.add(edgeId);
+    }
+  });
+  return blocked;
+}
+
+function overlapsBounds(from: LatLon, to: LatLon, [minLon, minLat, maxLon, maxLat]: BoundingBox) {
+  return (
+    Math.max(from.lon, to.lon) >= minLon &&
+    Math.min(from.lon, to.lon) <= maxLon &&
+    Math.max(from.lat, to.lat) >= minLat &&
+    Math.min(from.lat, to.lat) <= maxLat
+  );
+}
+
+// Penalty method: rerun the search with used roads made dearer, keeping paths that are
+// neither much longer than the best nor mostly the same roads as one already found.
+function findAlternativePaths(
+  graph: RoadGraph,
+  start: number,
+  goal: number,
+  optimize: RouteOptimize,
+  blocked: Set<number>,
+  alternatives: number,
+) {
+  const baseCost = (edgeId: number) => {
+    const edge = graph.edges[edgeId];
+    return optimize === "shortest" ? edge.distanceKm : (edge.distanceKm / edge.speedKmh) * 60;
+  };
+  const goalPoint = graph.nodes[goal];
+  const estimate = (node: number) => {
+    const remainingKm = haversineKm(graph.nodes[node], goalPoint);
+    return optimize === "shortest" ? remainingKm : (remainingKm / graph.maxSpeedKmh) * 60;
+  };
+  const penalties = new Float64Array(graph.edges.length).fill(1);
+  const pathCost = (path: number[]) => path.reduce((total, edgeId) => total + baseCost(edgeId), 0);
+
+  const paths: number[][] = [];
+  for (let attempt = 0; attempt < alternatives * 3 && paths.length < alternatives; attempt += 1) {
+    const path = findPath(
+      graph,
+      start,
+      goal,
+      (edgeId) => (blocked.has(edgeId) ? Infinity : baseCost(edgeId) * penalties[edgeId]),
+      estimate,
+    );
+    if (!path) {
+      break;
+    }
+    for (const edgeId of path) {
+      penalties[edgeId] *= ALTERNATIVE_PENALTY;
+    }
+    const tooLong = paths.length > 0 && pathCost(path) > pathCost(paths[0]) * MAX_DETOUR_RATIO;
+    if (!tooLong && !paths.some((other) => sharedRatio(graph, path, other) > MAX_SHARED_RATIO)) {
+      paths.push(path);
+    }
+    if (path.length === 0) {
+      break;
+    }
+  }
+  return paths;
+}
+
+function sharedRatio(graph: RoadGraph, path: number[], other: number[]) {
+  const otherEdges = new Set(other);
+  let shared = 0;
+  let total = 0;
+  for (const edgeId of path) {
+    total += graph.edges[edgeId].distanceKm;
+    if (otherEdges.has(edgeId)) {
+      shared += graph.edges[edgeId].distanceKm;
+    }
+  }
+  return total === 0 ? 1 : shared / total;
+}
+
+function describeRoute(
+  graph: RoadGraph,
+  path: number[],
+  origin: LatLon,
+  destination: LatLon,
+  start: number,
+  goal: number,
+): Omit<AltRouteOption, "routeId" | "rank"> {
+  const offRoadKm = haversineKm(origin, graph.nodes[start]) + haversineKm(graph.nodes[goal], destination);
+  let distanceKm = offRoadKm;
+  let hours = offRoadKm / OFF_ROAD_SPEED_KMH;
+  for (const edgeId of path) {
+    const edge = graph.edges[edgeId];
+    distanceKm += edge.distanceKm;
+    hours += edge.distanceKm / edge.speedKmh;
+  }
+
+  const points = [origin, graph.nodes[start], ...path.map((edgeId) => graph.nodes[graph.edges[edgeId].to]), destination];
+  const polyline = encodeGooglePolyline(
+    points
+      .map((point): [number, number] => [point.lat, point.lon])
+      .filter(([lat, lon], index, all) => index === 0 || lat !== all[index - 1][0] || lon !== all[index - 1][1]),
+  );
+
+  return {
+    distanceKm: Number(distanceKm.toFixed(2)),
+    etaMin: Math.max(1, Math.round(hours * 60)),
+    polyline,
+    legs: [
+      {
+        distanceMeters: Math.round(distanceKm * 1000),
+        duration: `${Math.round(hours * 3600)}s`,
+        start: { latitude: origin.lat, longitude: origin.lon },
+        end: { latitude: destination.lat, longitude: destination.lon },
+      },
+    ],
+  };
+}
@@ -0,0 +1,103 @@
+import { escapeXml } from '@/lib/event-export';
+import { getRoutePath } from '@/lib/route-hazards';
+import { getRouteOptionLabel } from '@/lib/routing';
+import type { SaveRouteRequest } from '@/types/sar';
+
+export type RouteExportFormat = 'gpx' | 'geojson';
+
+export const ROUTE_EXPORT_FORMATS: Record<RouteExportFormat, { label: string; contentType: string; extension: string }> = {
+  gpx: { label: 'GPX', contentType: 'application/gpx+xml', extension: 'gpx' },
+  geojson: { label: 'GeoJSON', contentType: 'application/geo+json', extension: 'geojson' },
+};
+
+export type ExportableRoute = Pick<SaveRouteRequest, 'origin' | 'destination' | 'summary' | 'engine'>;
+
+export function getRouteExportFilename(format: RouteExportFormat, generatedAt = Date.now()) {
+  const stamp = new Date(generatedAt).toISOString().slice(0, 16).replace(/[-:]/g, '').replace('T', '-');
+  return `sar-route-${stamp}.${ROUTE_EXPORT_FORMATS[format].extension}`;
+}
+
+export function serializeRoute(route: ExportableRoute, format: RouteExportFormat, generatedAt = Date.now()) {
+  return format === 'gpx' ? toGpx(route, generatedAt) : toGeoJson(route, generatedAt);
+}
+
+function getRouteName(route: ExportableRoute) {
+  return `SAR route · ${getRouteOptionLabel(route.summary)}`;
+}
+
+function getRouteDescription({ summary }: ExportableRoute) {
+  const hazard = summary.crossesHazard ? ' · crosses a hazard zone' : '';
+  return `${summary.distanceKm.toFixed(1)} km · ETA ${summary.etaMin} min${hazard}`;
+}
+
+// Decoded polylines carry float noise (3.0380000000000003); six decimals is ~10 cm.
+function getExportPath({ origin, destination, summary }: ExportableRoute) {
+  return getRoutePath(summary, origin, destination).map((point) => ({
+    lat: Number(point.lat.toFixed(6)),
+    lon: Number(point.lon.toFixed(6)),
+  }));
+}
+
+function toGeoJson(route: ExportableRoute, generatedAt: number) {
+  const { origin, destination, summary } = route;
+  const path = getExportPath(route);
+  const collection = {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        id: summary.routeId,
+        geometry: { type: 'LineString', coordinates: path.map(({ lat, lon }) => [lon, lat]) },
+        properties: {
+          name: getRouteName(route),
+          description: getRouteDescription(route),
+          rank: summary.rank,
+          distanceKm: summary.distanceKm,
+          etaMin: summary.etaMin,
+          crossesHazard: summary.crossesHazard ?? false,
+          engine: route.engine ?? 'backend',
+          generatedAt: new Date(generatedAt).toISOString(),
+        },
+      },
+      ...[
+        { role: 'origin', point: origin },
+        { role: 'destination', point: destination },
+      ].map(({ role, point }) => ({
+        type: 'Feature',
+        id: role,
+        geometry: { type: 'Point', coordinates: [point.lon, point.lat] },
+        properties: { role },
+      })),
+    ],
+  };
+  return JSON.stringify(collection, null, 2);
+}
+
+// GPX 1.1 with the route as a track, which handheld units follow more reliably than a `<rte>`
+// made of hundreds of route points.
+function toGpx(route: ExportableRoute, generatedAt: number) {
+  const { origin, destination } = route;
+  const name = escapeXml(getRouteName(route));
+  const trackPoints = getExportPath(route).map(
+    (point) => `      <trkpt lat="${point.lat}" lon="${point.lon}"/>`,
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="SAR Mission Console" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <metadata>',
+    `    <name>${name}</name>`,
+    `    <time>${new Date(generatedAt).toISOString()}</time>`,
+    '  </metadata>',
+    `  <wpt lat="${origin.lat}" lon="${origin.lon}"><name>Origin</name></wpt>`,
+    `  <wpt lat="${destination.lat}" lon="${destination.lon}"><name>Destination</name></wpt>`,
+    '  <trk>',
+    `    <name>${name}</name>`,
+    `    <desc>${escapeXml(getRouteDescription(route))}</desc>`,
+    '    <trkseg>',
+    ...trackPoints,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,185 @@
+import {
+  type BoundingBox,
+  type LatLon,
+  boundingBoxAround,
+  distanceToSegmentKm,
+  hasCoordinates,
+  haversineKm,
+  isPointInGeofence,
+  isWithinBoundingBox,
+  isZoneGeofence,
+} from '@/lib/geo';
+import { getIncidentStatus, isIncidentOpen } from '@/lib/incident-lifecycle';
+import { decodeGooglePolyline } from '@/lib/polyline';
+import { getRouteOptions } from '@/lib/routing';
+import { MAX_AVOID_AREAS } from '@/lib/sar-contracts';
+import type {
+  AltRouteOption,
+  AltRouteResponse,
+  AvoidArea,
+  Geofence,
+  GeofenceRequest,
+  RouteHazard,
+  SarEvent,
+} from '@/types/sar';
+
+/** Open incidents at or above this severity become avoid areas. */
+export const HAZARD_MIN_SEVERITY = 70;
+
+const EVENT_HAZARD_RADIUS_KM = 0.75;
+// Routes passing within this distance of an area's edge are flagged, even if they do not cross it.
+const HAZARD_BUFFER_KM = 1;
+// Only incidents this close to the box around the waypoints are considered; the rest cannot affect a detour.
+const CORRIDOR_MARGIN_KM = 10;
+const SAMPLE_SPACING_KM = 0.1;
+const UNKNOWN_SEVERITY_WEIGHT = 0.5;
+
+// Open, canonical, high-severity incidents around the trip plus every active geofence.
+export function deriveAvoidAreas(waypoints: LatLon[], events: SarEvent[], geofences: Geofence[]): AvoidArea[] {
+  const corridor = corridorBox(waypoints);
+  const eventAreas = events
+    .filter(
+      (event) =>
+        hasCoordinates(event) &&
+        !event.duplicateOf &&
+        (event.severity ?? 0) >= HAZARD_MIN_SEVERITY &&
+        isIncidentOpen(getIncidentStatus(event)) &&
+        (!corridor || isWithinBoundingBox(event, corridor)),
+    )
+    .sort((a, b) => (b.severity ?? 0) - (a.severity ?? 0))
+    .map(
+      (event): AvoidArea => ({
+        area: { lat: event.lat as number, lon: event.lon as number, radiusKm: EVENT_HAZARD_RADIUS_KM },
+        source: 'event',
+        sourceId: event.eventId,
+        label: event.text.length > 60 ? `${event.text.slice(0, 59)}…` : event.text,
+        severity: event.severity,
+      }),
+    );
+  const geofenceAreas = geofences
+    .filter((geofence) => geofence.active)
+    .map(
+      (geofence): AvoidArea => ({
+        area: geofence.area,
+        source: 'geofence',
+        sourceId: geofence.geofenceId,
+        label: geofence.name,
+      }),
+    );
+  return [...eventAreas, ...geofenceAreas].slice(0, MAX_AVOID_AREAS);
+}
+
+export function assessRouteHazards(path: LatLon[], avoidAreas: AvoidArea[]) {
+  const samples = densifyPath(path);
+  const hazards: RouteHazard[] = [];
+  for (const avoidArea of avoidAreas) {
+    const crosses = samples.some((sample) => isPointInGeofence(sample, avoidArea.area));
+    const distanceKm = crosses ? 0 : distanceToArea(samples, avoidArea.area);
+    if (distanceKm <= HAZARD_BUFFER_KM) {
+      hazards.push({
+        source: avoidArea.source,
+        sourceId: avoidArea.sourceId,
+        label: avoidArea.label ?? (avoidArea.source === 'event' ? 'Incident' : 'Avoid area'),
+        severity: avoidArea.severity,
+        distanceKm: Math.round(distanceKm * 100) / 100,
+        crosses,
+      });
+    }
+  }
+  hazards.sort((a, b) => Number(b.crosses) - Number(a.crosses) || a.distanceKm - b.distanceKm);
+  return {
+    hazards,
+    hazardScore: Math.round(hazards.reduce((total, hazard) => total + hazardWeight(hazard), 0)),
+    crossesHazard: hazards.some((hazard) => hazard.crosses),
+  };
+}
+
+// Scores every option and moves routes that cross a hazard behind the clear ones,
+// keeping the backend's ETA order within each group.
+export function rankRoutesByHazard(
+  response: AltRouteResponse,
+  avoidAreas: AvoidArea[],
+  origin: LatLon,
+  destination: LatLon,
+): AltRouteResponse {
+  const ranked = getRouteOptions(response)
+    .map(
+      (option): AltRouteOption => ({
+        ...option,
+        ...assessRouteHazards(getRoutePath(option, origin, destination), avoidAreas),
+      }),
+    )
+    .sort((a, b) => Number(a.crossesHazard) - Number(b.crossesHazard) || a.rank - b.rank)
+    .map((option, index) => ({ ...option, rank: index + 1 }));
+
+  const [recommended] = ranked;
+  return {
+    ...response,
+    distanceKm: recommended.distanceKm,
+    etaMin: recommended.etaMin,
+    polyline: recommended.polyline,
+    legs: recommended.legs,
+    routes: ranked,
+    crossesHazard: recommended.crossesHazard,
+    avoidAreas,
+  };
+}
+
+// A route without a usable polyline is treated as the straight line between its endpoints.
+export function getRoutePath(route: { polyline?: string }, origin: LatLon, destination: LatLon): LatLon[] {
+  const decoded = route.polyline ? decodeGooglePolyline(route.polyline) : [];
+  return decoded.length >= 2 ? decoded.map(([lat, lon]) => ({ lat, lon })) : [origin, destination];
+}
+
+function corridorBox(waypoints: LatLon[]): BoundingBox | null {
+  const boxes = waypoints.map((waypoint) => boundingBoxAround(waypoint, CORRIDOR_MARGIN_KM));
+  if (boxes.length === 0 || boxes.some((box) => box === null)) {
+    return null;
+  }
+  return (boxes as BoundingBox[]).reduce((a, b) => [
+    Math.min(a[0], b[0]),
+    Math.min(a[1], b[1]),
+    Math.max(a[2], b[2]),
+    Math.max(a[3], b[3]),
+  ]);
+}
+
+// Polylines can have long straight segments; sample them so small areas between vertices are not missed.
+function densifyPath(path: LatLon[]) {
+  const samples: LatLon[] = path.slice(0, 1);
+  for (let index = 1; index < path.length; index += 1) {
+    const start = path[index - 1];
+    const end = path[index];
+    const steps = Math.max(1, Math.ceil(haversineKm(start, end) / SAMPLE_SPACING_KM));
+    for (let step = 1; step <= steps; step += 1) {
+      const t = step / steps;
+      samples.push({ lat: start.lat + (end.lat - start.lat) * t, lon: start.lon + (end.lon - start.lon) * t });
+    }
+  }
+  return samples;
+}
+
+function distanceToArea(samples: LatLon[], area: GeofenceRequest) {
+  if (!isZoneGeofence(area)) {
+    return Math.max(0, Math.min(...samples.map((sample) => haversineKm(sample, area))) - area.radiusKm);
+  }
+  const polygons = area.geometry.type === 'Polygon' ? [area.geometry.coordinates] : area.geometry.coordinates;
+  let closest = Infinity;
+  for (const ring of polygons.flat()) {
+    for (let index = 1; index < ring.length; index += 1) {
+      const start = { lon: ring[index - 1][0], lat: ring[index - 1][1] };
+      const end = { lon: ring[index][0], lat: ring[index][1] };
+      for (const sample of samples) {
+        closest = Math.min(closest, distanceToSegmentKm(sample, start, end));
+      }
+    }
+  }
+  return closest;
+}
+
+// A crossing counts in full; a near miss fades out linearly across the buffer.
+function hazardWeight(hazard: RouteHazard) {
+  const severity = hazard.severity !== undefined ? hazard.severity / 100 : UNKNOWN_SEVERITY_WEIGHT;
+  const proximity = hazard.crosses ? 1 : 0.5 * (1 - hazard.distanceKm / HAZARD_BUFFER_KM);
+  return 100 * severity * proximity;
+}
@@ -0,0 +1,51 @@
+import type { LatLon } from '@/lib/geo';
+import { getRoutingMode, planOfflineRoute } from '@/lib/road-routing';
+import { deriveAvoidAreas } from '@/lib/route-hazards';
+import type { AltRouteRequest, AltRouteResponse, AvoidArea, Geofence, SarEvent } from '@/types/sar';
+
+// How the Next.js routes and the MCP server reach their backend. Both plan routes through this
+// module so hazard sourcing and the offline fallback behave the same everywhere.
+export interface RoutingBackend {
+  /** `POST /routes/alt` on the configured backend. */
+  requestRoute(request: AltRouteRequest): Promise<AltRouteResponse>;
+  /** Whether a `requestRoute` failure is an outage worth an offline answer rather than a rejected request. */
+  isOutage(error: unknown): boolean;
+  listEvents(): Promise<SarEvent[]>;
+  /** Omitted when the backend has no geofence registry. */
+  listGeofences?(): Promise<Geofence[]>;
+}
+
+// SAR_ROUTING_MODE picks the backend, the offline road graph, or the backend with the graph as a fallback.
+export async function planRoute(request: AltRouteRequest, backend: RoutingBackend): Promise<AltRouteResponse> {
+  const mode = getRoutingMode();
+  if (mode === 'offline') {
+    return planOfflineRoute(request);
+  }
+  try {
+    const data = await backend.requestRoute(request);
+    return { ...data, engine: data.engine ?? 'backend' };
+  } catch (error) {
+    if (mode !== 'fallback' || !backend.isOutage(error)) {
+      throw error;
+    }
+    console.warn('[routing] backend unavailable, using the offline road graph', error);
+    return planOfflineRoute(request);
+  }
+}
+
+// Hazards improve the answer but are not required for one; route without them if either lookup fails.
+export async function loadHazardAreas(waypoints: LatLon[], backend: RoutingBackend): Promise<AvoidArea[]> {
+  const [events, geofences] = await Promise.all([
+    backend.listEvents().catch((error: unknown) => {
+      console.warn('[routing] routing without incident hazards', error);
+      return [];
+    }),
+    backend.listGeofences
+      ? backend.listGeofences().catch((error: unknown) => {
+          console.warn('[routing] routing without geofence hazards', error);
+          return [];
+        })
+      : [],
+  ]);
+  return deriveAvoidAreas(waypoints, events, geofences);
+}
@@ -0,0 +1,26 @@
+import { getCachedEvents } from "./backend-cache";
+import { BackendRequestError, callBackendJson, isBackendPathSupported } from "./server-api";
+import type { LatLon } from "./geo";
+import { isRoutingOutage } from "./road-routing";
+import { loadHazardAreas as loadRouteHazards, planRoute as planSharedRoute, type RoutingBackend } from "./route-planning";
+import type { AltRouteRequest, AltRouteResponse, ListGeofencesResponse } from "@/types/sar";
+
+// The Next.js side of `route-planning`: reads go through the shared cache, and the AWS backend
+// has no geofence registry to look up.
+const backend: RoutingBackend = {
+  requestRoute: (request) =>
+    callBackendJson<AltRouteResponse>("routes/alt", { method: "POST", body: JSON.stringify(request) }),
+  isOutage: (error) => isRoutingOutage(error instanceof BackendRequestError ? error.status : undefined),
+  listEvents: async () => (await getCachedEvents()).events,
+  listGeofences: isBackendPathSupported("geofences")
+    ? async () => (await callBackendJson<ListGeofencesResponse>("geofences")).geofences
+    : undefined,
+};
+
+export function planRoute(request: AltRouteRequest) {
+  return planSharedRoute(request, backend);
+}
+
+export function loadHazardAreas(waypoints: LatLon[]) {
+  return loadRouteHazards(waypoints, backend);
+}
@@ -0,0 +1,44 @@
+import type { AltRouteLeg, AltRouteOption, AltRouteResponse } from '@/types/sar';
+
+export interface RouteOptionStyle {
+  color: string;
+  dashArray?: string;
+}
+
+// Indexed by rank - 1. Dash patterns keep the options apart for colour-blind operators too.
+export const ROUTE_OPTION_STYLES: RouteOptionStyle[] = [
+  { color: '#22d3ee' },
+  { color: '#f59e0b', dashArray: '10 8' },
+  { color: '#a3e635', dashArray: '2 8' },
+];
+
+export function getRouteOptionStyle(rank: number): RouteOptionStyle {
+  return ROUTE_OPTION_STYLES[(Math.max(1, rank) - 1) % ROUTE_OPTION_STYLES.length];
+}
+
+// Backends without alternatives only fill the top-level fields; treat those as a single option.
+export function getRouteOptions(response: AltRouteResponse): AltRouteOption[] {
+  if (response.routes?.length) {
+    return [...response.routes].sort((a, b) => a.rank - b.rank);
+  }
+  return [
+    {
+      routeId: 'primary',
+      rank: 1,
+      distanceKm: response.distanceKm,
+      etaMin: response.etaMin,
+      polyline: response.polyline,
+      legs: response.legs,
+    },
+  ];
+}
+
+export function getRouteOptionLabel(option: AltRouteOption) {
+  return option.label ?? (option.rank === 1 ? 'Recommended' : `Alternative ${option.rank - 1}`);
+}
+
+// Leg durations follow the Google Routes format, e.g. "754s".
+export function getLegDurationMin(leg: AltRouteLeg) {
+  const seconds = Number.parseFloat(leg.duration ?? '');
+  return Number.isFinite(seconds) ? Math.max(1, Math.round(seconds / 60)) : undefined;
+}
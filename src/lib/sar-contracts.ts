@@ -0,0 +1,435 @@
+import { z } from 'zod';
+
+// Request and response shapes shared by the API client, the Next routes and the MCP tools.
+// `@/types/sar` re-exports the inferred types, so a change here is type-checked everywhere.
+
+export const INCIDENT_STATUS_VALUES = ['reported', 'triaged', 'dispatched', 'on-scene', 'resolved', 'false-alarm'] as const;
+
+export const incidentStatusSchema = z.enum(INCIDENT_STATUS_VALUES);
+
+export const latitudeSchema = z.number().min(-90, 'Latitude must be ≥ -90').max(90, 'Latitude must be ≤ 90');
+
+export const longitudeSchema = z.number().min(-180, 'Longitude must be ≥ -180').max(180, 'Longitude must be ≤ 180');
+
+export const incidentStatusChangeSchema = z.object({
+  from: incidentStatusSchema,
+  to: incidentStatusSchema,
+  actor: z.string(),
+  at: z.number(),
+  note: z.string().optional(),
+});
+
+export const sarEventSchema = z.object({
+  eventId: z.string(),
+  text: z.string(),
+  lat: z.number().optional(),
+  lon: z.number().optional(),
+  createdAt: z.number().optional(),
+  mediaUrl: z.string().optional(),
+  severity: z.number().optional(),
+  trust: z.number().optional(),
+  rationale: z.string().optional(),
+  status: incidentStatusSchema.optional(),
+  statusUpdatedAt: z.number().optional(),
+  statusUpdatedBy: z.string().optional(),
+  statusHistory: z.array(incidentStatusChangeSchema).optional(),
+  duplicateOf: z
+    .string()
+    .optional()
+    .describe('Set on reports folded into an earlier incident; they are hidden from lists by default'),
+  duplicateScore: z.number().optional(),
+  corroboratingEventIds: z.array(z.string()).optional().describe('Reports linked to this canonical incident as duplicates'),
+});
+
+export const listEventsResponseSchema = z.object({
+  events: z.array(sarEventSchema),
+  nextCursor: z.string().optional().describe('Present when more events match beyond this page'),
+  total: z.number().optional().describe('Number of events matching the filters across all pages'),
+});
+
+export const ingestEventRequestSchema = z.object({
+  text: z.string().min(3, 'Add a short summary of the incident (at least 3 characters)'),
+  lat: latitudeSchema.optional(),
+  lon: longitudeSchema.optional(),
+  mediaUrl: z.string().url('Provide a valid URL').optional(),
+});
+
+export const ingestEventResponseSchema = z.object({
+  eventId: z.string(),
+  duplicateOf: z
+    .string()
+    .optional()
+    .describe('Canonical incident the report was linked to, when it was detected as a duplicate'),
+});
+
+export const eventImportFormatSchema = z.enum(['geojson', 'csv', 'cap']);
+
+export const csvColumnMappingSchema = z
+  .object({
+    text: z.string(),
+    lat: z.string().optional(),
+    lon: z.string().optional(),
+    mediaUrl: z.string().optional(),
+  })
+  .describe('CSV header names to read each ingest field from');
+
+export const MAX_IMPORT_CONTENT_LENGTH = 2_000_000;
+
+export const bulkImportRequestSchema = z.object({
+  format: eventImportFormatSchema,
+  content: z
+    .string()
+    .min(1, 'content is required')
+    .max(MAX_IMPORT_CONTENT_LENGTH, `content must be at most ${MAX_IMPORT_CONTENT_LENGTH} characters`)
+    .describe('Raw file contents'),
+  mapping: csvColumnMappingSchema.optional(),
+  dryRun: z.boolean().optional().describe('Validate and report without ingesting anything'),
+});
+
+export const bulkImportRowResultSchema = z.object({
+  row: z.number().describe('1-based position in the source file (data rows for CSV, features or alerts otherwise)'),
+  status: z.enum(['valid', 'imported', 'invalid', 'failed']),
+  eventId: z.string().optional(),
+  duplicateOf: z.string().optional(),
+  errors: z.array(z.string()).optional(),
+});
+
+export const bulkImportResponseSchema = z.object({
+  format: eventImportFormatSchema,
+  total: z.number(),
+  imported: z.number(),
+  failed: z.number(),
+  results: z.array(bulkImportRowResultSchema),
+});
+
+export const transitionEventStatusRequestSchema = z.object({
+  status: incidentStatusSchema,
+  actor: z.string().min(1, 'actor is required'),
+  note: z.string().optional(),
+});
+
+export const transitionEventStatusResponseSchema = z.object({
+  event: sarEventSchema,
+});
+
+export const explainEventRequestSchema = z.object({
+  eventId: z.string().min(1, 'eventId is required'),
+});
+
+export const explainEventResponseSchema = z.object({
+  eventId: z.string(),
+  rationale: z.string(),
+  cues: z.array(z.string()).optional(),
+  trustScore: z.number().optional(),
+  trace: z.array(z.object({ tool: z.string(), ms: z.number() })).optional(),
+});
+
+// GeoJSON positions are [longitude, latitude], optionally followed by altitude.
+export const geoJsonPositionSchema = z.tuple([z.number(), z.number()], z.number());
+
+const geoJsonLinearRingSchema = z
+  .array(geoJsonPositionSchema)
+  .min(4, 'A ring needs at least 4 positions')
+  .refine(isClosedRing, 'A ring must be closed (first position equal to the last)');
+
+function isClosedRing(ring: unknown[][]) {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  // Short rings and malformed positions already have their own issues.
+  return !Array.isArray(first) || !Array.isArray(last) || (first[0] === last[0] && first[1] === last[1]);
+}
+
+const geoJsonPolygonCoordinatesSchema = z.array(geoJsonLinearRingSchema).min(1, 'A polygon needs at least one ring');
+
+export const geoJsonPolygonSchema = z.object({
+  type: z.literal('Polygon'),
+  coordinates: geoJsonPolygonCoordinatesSchema,
+});
+
+export const geoJsonMultiPolygonSchema = z.object({
+  type: z.literal('MultiPolygon'),
+  coordinates: z.array(geoJsonPolygonCoordinatesSchema).min(1, 'A MultiPolygon needs at least one polygon'),
+});
+
+export const geofenceGeometrySchema = z.union([geoJsonPolygonSchema, geoJsonMultiPolygonSchema]);
+
+export const circleGeofenceRequestSchema = z.object({
+  lat: latitudeSchema,
+  lon: longitudeSchema,
+  radiusKm: z.number().positive('radiusKm must be greater than 0'),
+});
+
+export const zoneGeofenceRequestSchema = z.object({
+  geometry: geofenceGeometrySchema,
+  label: z.string().trim().optional(),
+});
+
+export const geofenceRequestSchema = z.union([circleGeofenceRequestSchema, zoneGeofenceRequestSchema]);
+
+export const MAX_ROUTE_ALTERNATIVES = 3;
+
+export const MAX_AVOID_AREAS = 50;
+
+export const hazardSourceSchema = z.enum(['event', 'geofence', 'manual']);
+
+export const routeOptimizeSchema = z.enum(['fastest', 'shortest']);
+
+export const routeEngineSchema = z.enum(['backend', 'offline']);
+
+export const avoidAreaSchema = z.object({
+  area: geofenceRequestSchema,
+  source: hazardSourceSchema,
+  sourceId: z.string().optional().describe('eventId or geofenceId the area was derived from'),
+  label: z.string().optional(),
+  severity: z.number().optional(),
+});
+
+export const altRouteRequestSchema = z.object({
+  originLat: latitudeSchema,
+  originLon: longitudeSchema,
+  destLat: latitudeSchema,
+  destLon: longitudeSchema,
+  alternatives: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_ROUTE_ALTERNATIVES)
+    .optional()
+    .describe(`How many ranked routes to return (default ${MAX_ROUTE_ALTERNATIVES})`),
+  avoidAreas: z
+    .array(avoidAreaSchema)
+    .max(MAX_AVOID_AREAS)
+    .optional()
+    .describe('Areas routes should stay clear of, on top of the open incidents and active geofences added automatically'),
+  avoidHazards: z
+    .boolean()
+    .optional()
+    .describe('Set false to skip the automatic incident and geofence avoid areas'),
+  optimize: routeOptimizeSchema
+    .optional()
+    .describe('Rank by travel time (default) or distance; honoured by the offline road graph'),
+});
+
+const routePointSchema = z.object({ latitude: z.number().optional(), longitude: z.number().optional() });
+
+export const altRouteLegSchema = z.object({
+  distanceMeters: z.number().optional(),
+  duration: z.string().optional(),
+  start: routePointSchema.optional(),
+  end: routePointSchema.optional(),
+});
+
+export const routeHazardSchema = z.object({
+  source: hazardSourceSchema,
+  sourceId: z.string().optional(),
+  label: z.string(),
+  severity: z.number().optional(),
+  distanceKm: z.number().describe('Closest approach to the edge of the area; 0 when the route crosses it'),
+  crosses: z.boolean(),
+});
+
+export const altRouteOptionSchema = z.object({
+  routeId: z.string(),
+  rank: z.number().describe('1 is the recommended route'),
+  label: z.string().optional(),
+  distanceKm: z.number(),
+  etaMin: z.number(),
+  polyline: z.string().optional(),
+  legs: z.array(altRouteLegSchema).optional(),
+  hazards: z.array(routeHazardSchema).optional().describe('Avoid areas the route crosses or passes close to'),
+  hazardScore: z.number().optional().describe('0 when clear; grows with severity and proximity of nearby hazards'),
+  crossesHazard: z.boolean().optional(),
+});
+
+// The top-level fields describe the recommended route so single-route clients keep working.
+export const altRouteResponseSchema = z.object({
+  distanceKm: z.number(),
+  etaMin: z.number(),
+  polyline: z.string().optional(),
+  legs: z.array(altRouteLegSchema).optional(),
+  routes: z.array(altRouteOptionSchema).optional().describe('Ranked alternatives, recommended first'),
+  crossesHazard: z.boolean().optional(),
+  avoidAreas: z.array(avoidAreaSchema).optional().describe('Every avoid area the routes were scored against'),
+  engine: routeEngineSchema.optional().describe('offline when the routes came from the local road graph'),
+});
+
+export const MAX_MISSION_STOPS = 12;
+
+export const missionOrderStrategySchema = z.enum(['nearest', 'severity']);
+
+export const missionStopSchema = z.object({
+  eventId: z.string().optional(),
+  lat: latitudeSchema,
+  lon: longitudeSchema,
+  label: z.string().optional(),
+  severity: z.number().min(0).max(100).optional(),
+});
+
+export const missionRouteRequestSchema = z.object({
+  startLat: latitudeSchema,
+  startLon: longitudeSchema,
+  stops: z
+    .array(missionStopSchema)
+    .min(1, 'Add at least one stop')
+    .max(MAX_MISSION_STOPS, `A mission can visit at most ${MAX_MISSION_STOPS} stops`),
+  strategy: missionOrderStrategySchema
+    .optional()
+    .describe('nearest (default) always visits the closest stop next; severity pulls severe incidents forward'),
+  optimize: routeOptimizeSchema.optional(),
+  avoidHazards: z
+    .boolean()
+    .optional()
+    .describe('Set false to skip the automatic incident and geofence avoid areas'),
+});
+
+export const plannedMissionStopSchema = missionStopSchema.extend({
+  order: z.number().describe('1 is the first stop visited'),
+  legDistanceKm: z.number().describe('Distance from the previous stop, or from the start for the first'),
+  legEtaMin: z.number(),
+  arrivalMin: z.number().describe('Minutes from departure until arrival at this stop'),
+  crossesHazard: z.boolean().optional(),
+});
+
+export const missionRouteResponseSchema = z.object({
+  distanceKm: z.number(),
+  etaMin: z.number().describe('Minutes from departure until arrival at the last stop'),
+  polyline: z.string().optional(),
+  strategy: missionOrderStrategySchema,
+  stops: z.array(plannedMissionStopSchema).describe('Stops in visiting order'),
+  hazards: z.array(routeHazardSchema).optional(),
+  crossesHazard: z.boolean().optional(),
+  avoidAreas: z.array(avoidAreaSchema).optional(),
+  engine: routeEngineSchema.optional(),
+});
+
+const latLonSchema = z.object({ lat: latitudeSchema, lon: longitudeSchema });
+
+export const saveRouteRequestSchema = z.object({
+  origin: latLonSchema,
+  destination: latLonSchema,
+  summary: altRouteOptionSchema.describe('The route option the operator committed'),
+  avoidAreas: z.array(avoidAreaSchema).max(MAX_AVOID_AREAS).optional(),
+  engine: routeEngineSchema.optional(),
+});
+
+export const savedRouteSchema = saveRouteRequestSchema.extend({
+  routeId: z.string(),
+  createdAt: z.number(),
+});
+
+export const savedRouteResponseSchema = z.object({
+  route: savedRouteSchema,
+});
+
+export const geofenceResponseSchema = z.object({
+  delivered: z.number(),
+});
+
+export const geofenceSchema = z.object({
+  geofenceId: z.string(),
+  name: z.string(),
+  area: geofenceRequestSchema,
+  minSeverity: z.number().describe('Ingested events at or above this severity raise an alert automatically'),
+  active: z.boolean(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  hitCount: z.number(),
+  lastHitAt: z.number().optional(),
+});
+
+export const geofenceAlertRecordSchema = z.object({
+  alertId: z.string(),
+  geofenceId: z.string(),
+  eventId: z.string(),
+  severity: z.number(),
+  delivered: z.number(),
+  createdAt: z.number(),
+});
+
+export const MAX_GEOFENCE_NAME_LENGTH = 80;
+
+export const createGeofenceRequestSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'name is required')
+    .max(MAX_GEOFENCE_NAME_LENGTH, `name must be at most ${MAX_GEOFENCE_NAME_LENGTH} characters`),
+  area: geofenceRequestSchema,
+  minSeverity: z.number().min(0).max(100).optional(),
+  active: z.boolean().optional(),
+});
+
+// Refined, so extend `createGeofenceRequestSchema.partial()` rather than this when adding fields.
+export const updateGeofenceRequestSchema = createGeofenceRequestSchema
+  .partial()
+  .refine(
+    (update) => Object.values(update).some((value) => value !== undefined),
+    'Provide at least one of name, area, minSeverity or active',
+  );
+
+export const saveGeofenceResponseSchema = z.object({
+  geofence: geofenceSchema,
+});
+
+export const listGeofencesResponseSchema = z.object({
+  geofences: z.array(geofenceSchema),
+});
+
+export const deleteGeofenceResponseSchema = z.object({
+  geofenceId: z.string(),
+  deleted: z.boolean(),
+});
+
+export const listGeofenceAlertsResponseSchema = z.object({
+  alerts: z.array(geofenceAlertRecordSchema),
+});
+
+export const simulateReplayResponseSchema = z.object({
+  started: z.boolean(),
+  count: z.number(),
+});
+
+export const circuitStateSchema = z.enum(['closed', 'open', 'half-open']);
+
+export const backendHealthResponseSchema = z.object({
+  status: z.enum(['ok', 'degraded', 'down']),
+  backend: z.object({
+    mode: z.enum(['remote', 'local']),
+    configured: z.boolean(),
+    circuit: z.object({
+      state: circuitStateSchema,
+      consecutiveFailures: z.number(),
+      openedAt: z.number().optional(),
+      retryAt: z.number().optional().describe('When an open circuit lets its next trial request through'),
+    }),
+  }),
+  checkedAt: z.number(),
+});
+
+// Backend ids are opaque (UUIDs, ULIDs, `evt#…` keys), so only reject what cannot be one path segment.
+const resourceIdSchema = (label: string) =>
+  z
+    .string()
+    .min(1, `${label} is required`)
+    .max(256, `${label} must be at most 256 characters`)
+    .regex(/^[^/\\\p{Cc}]+$/u, `${label} must not contain slashes or control characters`);
+
+export const eventParamsSchema = z.object({ eventId: resourceIdSchema('eventId') });
+
+export const geofenceParamsSchema = z.object({ geofenceId: resourceIdSchema('geofenceId') });
+
+export const savedRouteParamsSchema = z.object({ routeId: resourceIdSchema('routeId') });
+
+export const fieldErrorSchema = z.object({
+  path: z.string().describe('Dot-separated location of the offending field, e.g. "stops.0.lat"; empty for the whole body'),
+  message: z.string(),
+});
+
+// RFC 9457 body of every error response from the Next API routes.
+export const problemDetailsSchema = z.object({
+  type: z.string(),
+  title: z.string(),
+  status: z.number(),
+  detail: z.string().optional(),
+  errors: z.array(fieldErrorSchema).optional(),
+});
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+import { saveRouteRequestSchema } from '@/lib/sar-contracts';
+import type { SaveRouteRequest } from '@/types/sar';
+
+// Query parameter the dashboard reads to re-open a saved route, e.g. `/?route=<routeId>`.
+export const SHARED_ROUTE_PARAM = 'route';
+
+export const MAX_SAVED_ROUTES = 500;
+
+export class SavedRouteInputError extends Error {}
+
+export function parseSaveRouteRequest(payload: unknown): SaveRouteRequest {
+  const parsed = saveRouteRequestSchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new SavedRouteInputError(z.prettifyError(parsed.error));
+  }
+  return parsed.data;
+}
+
+export function getRouteShareUrl(routeId: string, origin: string) {
+  const url = new URL('/', origin);
+  url.searchParams.set(SHARED_ROUTE_PARAM, routeId);
+  return url.toString();
+}
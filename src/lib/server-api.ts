@@ -1,12 +1,43 @@
 import "server-only";
 
+import { LOCAL_BACKEND_BASE_URL, handleLocalBackendRequest, isLocalBackendEnabled } from "./local-backend";
+import type { BackendHealthResponse, CircuitState } from "@/types/sar";
+
 const SAR_API_BASE = process.env.SAR_API_BASE;
+const useLocalBackend = isLocalBackendEnabled();
 
-if (!SAR_API_BASE) {
+if (useLocalBackend) {
+  console.info("[server-api] SAR_BACKEND_MODE=local — serving API routes from the built-in local backend.");
+} else if (!SAR_API_BASE) {
   console.warn("[server-api] SAR_API_BASE env var is not set. API routes will fail until it is configured.");
 }
 
-const baseUrl = SAR_API_BASE?.endsWith("/") ? SAR_API_BASE : SAR_API_BASE ? `${SAR_API_BASE}/` : undefined;
+const remoteBaseUrl = SAR_API_BASE?.endsWith("/") ? SAR_API_BASE : SAR_API_BASE ? `${SAR_API_BASE}/` : undefined;
+const baseUrl = useLocalBackend ? LOCAL_BACKEND_BASE_URL : remoteBaseUrl;
+
+const EXPLAIN_PATH = /^events\/[^/]+\/explain$/;
+
+// Contracts only the built-in local backend serves: the AWS API has no resources for the
+// watched-zone registry (and the alerts it raises on ingest), status changes or saved routes.
+const LOCAL_ONLY_PATHS = [/^geofences(\/|$)/, /^events\/[^/]+\/status$/, /^routes\/saved(\/|$)/];
+
+const DEFAULT_TIMEOUT_MS = Number(process.env.SAR_BACKEND_TIMEOUT_MS ?? 10_000);
+// First match wins. Explanations wait on Bedrock, routing on the Google Routes API and
+// replays ingest a batch, so each gets more room than a plain read.
+const ENDPOINT_TIMEOUTS_MS: Array<[RegExp, number]> = [
+  [EXPLAIN_PATH, 30_000],
+  [/^routes\/alt$/, 20_000],
+  [/^simulate\/replay$/, 30_000],
+];
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 250;
+const RETRY_MAX_DELAY_MS = 4_000;
+// Cold starts and throttling clear up on their own; a plain 500 usually does not.
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_COOLDOWN_MS = Number(process.env.SAR_CIRCUIT_COOLDOWN_MS ?? 30_000);
 
 export class BackendRequestError extends Error {
   readonly status: number;
@@ -19,35 +50,101 @@ export class BackendRequestError extends Error {
   }
 }
 
+// Consecutive transport failures and 5xx responses open the circuit; while open, calls fail
+// fast with a 503 instead of piling onto a struggling backend. After the cooldown a single
+// trial request is let through and its outcome closes or re-opens the circuit.
+class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt: number | undefined;
+  private trialInFlight = false;
+
+  tryAcquire() {
+    if (this.state === "open") {
+      if (Date.now() - (this.openedAt ?? 0) < CIRCUIT_COOLDOWN_MS) {
+        return false;
+      }
+      this.state = "half-open";
+    }
+    if (this.state === "half-open") {
+      if (this.trialInFlight) {
+        return false;
+      }
+      this.trialInFlight = true;
+    }
+    return true;
+  }
+
+  recordSuccess() {
+    if (this.state !== "closed") {
+      console.info("[server-api] backend recovered; circuit closed.");
+    }
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  recordFailure() {
+    this.consecutiveFailures += 1;
+    this.trialInFlight = false;
+    if (this.state === "half-open" || (this.state === "closed" && this.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD)) {
+      console.warn(`[server-api] circuit opened after ${this.consecutiveFailures} consecutive backend failures.`);
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+
+  // The caller gave up; the attempt says nothing about the backend.
+  release() {
+    this.trialInFlight = false;
+  }
+
+  snapshot(): BackendHealthResponse["backend"]["circuit"] {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt,
+      retryAt: this.openedAt === undefined ? undefined : this.openedAt + CIRCUIT_COOLDOWN_MS,
+    };
+  }
+}
+
+// Route handlers can be bundled separately in dev, so keep a single breaker per process.
+const globalForCircuit = globalThis as typeof globalThis & { __sarBackendCircuit?: CircuitBreaker };
+const circuit = (globalForCircuit.__sarBackendCircuit ??= new CircuitBreaker());
+
 interface BackendRequestInit extends RequestInit {
   searchParams?: Record<string, string | number | undefined>;
+  /** Overrides the per-endpoint timeout for each attempt. */
+  timeoutMs?: number;
 }
 
 export async function callBackend(path: string, init: BackendRequestInit = {}): Promise<Response> {
   if (!baseUrl) {
-    throw new BackendRequestError("SAR_API_BASE is not configured", 500, "Missing SAR_API_BASE env var");
+    throw new BackendRequestError("SAR_API_BASE is not configured", 500, "Missing SAR_API_BASE env var (or set SAR_BACKEND_MODE=local)");
   }
 
+  const { searchParams, timeoutMs, ...requestInit } = init;
   const trimmedPath = path.startsWith("/") ? path.slice(1) : path;
+  assertBackendPathSupported(trimmedPath);
   const url = new URL(trimmedPath, baseUrl);
 
-  if (init.searchParams) {
-    const entries = Object.entries(init.searchParams).filter(([, value]) => value !== undefined);
+  if (searchParams) {
+    const entries = Object.entries(searchParams).filter(([, value]) => value !== undefined);
     for (const [key, value] of entries) {
       url.searchParams.set(key, String(value));
     }
   }
 
-  const headers = new Headers(init.headers);
-  if (init.body && !headers.has("content-type")) {
+  const headers = new Headers(requestInit.headers);
+  if (requestInit.body && !headers.has("content-type")) {
     headers.set("content-type", "application/json");
   }
 
-  const response = await fetch(url, {
-    ...init,
-    headers,
-    cache: "no-store",
-  });
+  const response = useLocalBackend
+    ? await handleLocalBackendRequest(new Request(url, { ...requestInit, headers }))
+    : await fetchWithRetries(url, trimmedPath, { ...requestInit, headers }, timeoutMs ?? getEndpointTimeout(trimmedPath));
 
   if (!response.ok) {
     const text = await response.text();
@@ -65,3 +162,122 @@ export async function callBackendJson<T>(path: string, init: BackendRequestInit
   const response = await callBackend(path, init);
   return (await response.json()) as T;
 }
+
+// False for the local-only contracts while talking to the AWS backend, so callers can skip them.
+export function isBackendPathSupported(path: string) {
+  const trimmedPath = path.startsWith("/") ? path.slice(1) : path;
+  return useLocalBackend || !LOCAL_ONLY_PATHS.some((pattern) => pattern.test(trimmedPath));
+}
+
+// Throws the 501 `callBackend` answers for a local-only contract, for routes that want to fail before other work.
+export function assertBackendPathSupported(path: string) {
+  if (!isBackendPathSupported(path)) {
+    const trimmedPath = path.startsWith("/") ? path.slice(1) : path;
+    throw new BackendRequestError(
+      `Backend path /${trimmedPath} is only served in local mode`,
+      501,
+      JSON.stringify({ message: `/${trimmedPath} is only available with SAR_BACKEND_MODE=local; the AWS backend does not implement it` }),
+    );
+  }
+}
+
+export function getBackendHealth(): BackendHealthResponse {
+  const configured = Boolean(baseUrl);
+  // The in-process backend never goes through the breaker.
+  const snapshot = useLocalBackend ? { state: "closed" as const, consecutiveFailures: 0 } : circuit.snapshot();
+  return {
+    status: !configured || snapshot.state === "open" ? "down" : snapshot.state === "half-open" ? "degraded" : "ok",
+    backend: {
+      mode: useLocalBackend ? "local" : "remote",
+      configured,
+      circuit: snapshot,
+    },
+    checkedAt: Date.now(),
+  };
+}
+
+function getEndpointTimeout(path: string) {
+  return ENDPOINT_TIMEOUTS_MS.find(([pattern]) => pattern.test(path))?.[1] ?? DEFAULT_TIMEOUT_MS;
+}
+
+// Only requests that are safe to repeat are retried: reads, explanations (which only
+// refresh a stored rationale) and writes that carry an Idempotency-Key.
+function isRetryable(method: string, path: string, headers: Headers) {
+  return (
+    method === "GET" ||
+    method === "HEAD" ||
+    EXPLAIN_PATH.test(path) ||
+    headers.has("idempotency-key")
+  );
+}
+
+async function fetchWithRetries(url: URL, path: string, init: RequestInit & { headers: Headers }, timeoutMs: number) {
+  const method = (init.method ?? "GET").toUpperCase();
+  const maxAttempts = isRetryable(method, path, init.headers) ? MAX_ATTEMPTS : 1;
+
+  for (let attempt = 1; ; attempt += 1) {
+    if (!circuit.tryAcquire()) {
+      throw new BackendRequestError(
+        `Backend circuit is open; skipped ${method} ${url.pathname}`,
+        503,
+        JSON.stringify({ message: "The SAR backend is failing repeatedly; requests are paused while it recovers" }),
+      );
+    }
+
+    // Only the wait for response headers is timed. The caller streams the body at its own pace,
+    // so a slow read is neither a timeout nor a backend failure.
+    const timeout = new AbortController();
+    const timer = setTimeout(() => timeout.abort(), timeoutMs);
+    let response: Response | undefined;
+    let failure: BackendRequestError | undefined;
+    try {
+      response = await fetch(url, {
+        ...init,
+        cache: "no-store",
+        signal: init.signal ? AbortSignal.any([init.signal, timeout.signal]) : timeout.signal,
+      });
+    } catch (error) {
+      if (init.signal?.aborted) {
+        circuit.release();
+        throw error;
+      }
+      failure = timeout.signal.aborted
+        ? new BackendRequestError(`Backend request to ${url.pathname} timed out after ${timeoutMs} ms`, 504, "")
+        : new BackendRequestError(
+            `Backend request to ${url.pathname} could not be sent`,
+            502,
+            error instanceof Error ? error.message : String(error),
+          );
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response && response.status < 500) {
+      circuit.recordSuccess();
+    } else {
+      circuit.recordFailure();
+    }
+
+    const retry = attempt < maxAttempts && (failure !== undefined || RETRYABLE_STATUSES.has(response!.status));
+    if (!retry) {
+      if (failure) {
+        throw failure;
+      }
+      return response!;
+    }
+
+    await response?.body?.cancel();
+    const delayMs = getRetryDelay(attempt, response);
+    console.warn(`[server-api] retrying ${method} ${url.pathname} in ${delayMs} ms (attempt ${attempt} of ${maxAttempts} failed)`);
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+  }
+}
+
+// Exponential backoff with full jitter, or the server's Retry-After when it sends one.
+function getRetryDelay(attempt: number, response?: Response) {
+  const retryAfterSeconds = Number(response?.headers.get("retry-after"));
+  if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0) {
+    return Math.min(RETRY_MAX_DELAY_MS, retryAfterSeconds * 1000);
+  }
+  return Math.round(Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)));
+}
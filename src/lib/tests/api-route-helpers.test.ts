@@ -0,0 +1,161 @@
+import { describe, expect, spyOn, test } from 'bun:test';
+
+import {
+  PROBLEM_CONTENT_TYPE,
+  RequestValidationError,
+  backendErrorResponse,
+  jsonWithETag,
+  problemResponse,
+  readJsonBody,
+  readParams,
+} from '@/lib/api-route-helpers';
+import { createGeofenceRequestSchema, eventParamsSchema, missionRouteRequestSchema } from '@/lib/sar-contracts';
+import { BackendRequestError } from '@/lib/server-api';
+
+function jsonRequest(body: unknown) {
+  return new Request('http://localhost/api/test', {
+    method: 'POST',
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+async function readError(promise: Promise<unknown>) {
+  const error = await promise.then(
+    () => null,
+    (reason: unknown) => reason,
+  );
+  expect(error).toBeInstanceOf(RequestValidationError);
+  return error as RequestValidationError;
+}
+
+const openRing = [
+  [101.4, 3.0],
+  [101.5, 3.0],
+  [101.5, 3.1],
+  [101.4, 3.1],
+];
+
+describe('problemResponse', () => {
+  test('answers with an RFC 9457 body and content type', async () => {
+    const response = problemResponse(404, 'Event not found', { detail: 'No event evt-1' });
+    expect(response.status).toBe(404);
+    expect(response.headers.get('content-type')).toBe(PROBLEM_CONTENT_TYPE);
+    expect(await response.json()).toEqual({
+      type: 'about:blank',
+      title: 'Event not found',
+      status: 404,
+      detail: 'No event evt-1',
+    });
+  });
+});
+
+describe('jsonWithETag', () => {
+  const body = { events: [{ eventId: 'evt-1' }], total: 1 };
+  const get = (ifNoneMatch?: string) =>
+    new Request('http://localhost/api/events', { headers: ifNoneMatch ? { 'if-none-match': ifNoneMatch } : {} });
+
+  test('sends the body with a strong ETag that clients must revalidate', async () => {
+    const response = jsonWithETag(get(), body);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('etag')).toMatch(/^"[\w-]+"$/);
+    expect(response.headers.get('cache-control')).toBe('private, no-cache');
+    expect(await response.json()).toEqual(body);
+    expect(jsonWithETag(get(), { ...body, total: 2 }).headers.get('etag')).not.toBe(response.headers.get('etag'));
+  });
+
+  test.each([(etag: string) => etag, (etag: string) => `W/${etag}`, (etag: string) => `"other", ${etag}`, () => '*'])(
+    'answers a matching If-None-Match with an empty 304 (%#)',
+    async (ifNoneMatch) => {
+      const etag = jsonWithETag(get(), body).headers.get('etag')!;
+      const response = jsonWithETag(get(ifNoneMatch(etag)), body);
+      expect(response.status).toBe(304);
+      expect(response.headers.get('etag')).toBe(etag);
+      expect(await response.text()).toBe('');
+    },
+  );
+
+  test('sends the new body when the ETag is stale', async () => {
+    const etag = jsonWithETag(get(), body).headers.get('etag')!;
+    const response = jsonWithETag(get(etag), { ...body, total: 2 });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ...body, total: 2 });
+  });
+});
+
+describe('readJsonBody', () => {
+  test('returns the parsed body when it matches the schema', async () => {
+    const body = { name: '  Klang basin ', area: { lat: 3.04, lon: 101.45, radiusKm: 2 } };
+    expect(await readJsonBody(jsonRequest(body), createGeofenceRequestSchema)).toEqual({
+      ...body,
+      name: 'Klang basin',
+    });
+  });
+
+  test('rejects malformed JSON without field errors', async () => {
+    const error = await readError(readJsonBody(jsonRequest('{"name":'), createGeofenceRequestSchema));
+    expect(error.message).toBe('Request body must be valid JSON');
+    expect(error.errors).toEqual([]);
+  });
+
+  test('reports dotted paths for nested fields', async () => {
+    const body = { startLat: 3, startLon: 101, stops: [{ eventId: 'evt-1', lat: 120, lon: 101 }] };
+    const error = await readError(readJsonBody(jsonRequest(body), missionRouteRequestSchema));
+    expect(error.errors).toEqual([{ path: 'stops.0.lat', message: 'Latitude must be ≤ 90' }]);
+    expect(error.message).toBe('stops.0.lat: Latitude must be ≤ 90');
+  });
+
+  test('reports only the union branch closest to the payload', async () => {
+    const circle = { name: 'Zone', area: { lat: 95, lon: 101.45, radiusKm: 2 } };
+    expect((await readError(readJsonBody(jsonRequest(circle), createGeofenceRequestSchema))).errors).toEqual([
+      { path: 'area.lat', message: 'Latitude must be ≤ 90' },
+    ]);
+
+    const zone = { name: 'Zone', area: { geometry: { type: 'Polygon', coordinates: [openRing] } } };
+    expect((await readError(readJsonBody(jsonRequest(zone), createGeofenceRequestSchema))).errors).toEqual([
+      { path: 'area.geometry.coordinates.0', message: 'A ring must be closed (first position equal to the last)' },
+    ]);
+  });
+});
+
+describe('readParams', () => {
+  test('accepts opaque backend ids', async () => {
+    for (const eventId of ['evt-1', '01J9Z8K4M2', 'evt#2024-10-19T08:00:00Z', 'a b']) {
+      expect(await readParams(Promise.resolve({ eventId }), eventParamsSchema)).toEqual({ eventId });
+    }
+  });
+
+  test('rejects ids that are not a single path segment', async () => {
+    const error = await readError(readParams(Promise.resolve({ eventId: 'evt/1' }), eventParamsSchema));
+    expect(error.errors).toEqual([{ path: 'eventId', message: 'eventId must not contain slashes or control characters' }]);
+  });
+});
+
+describe('backendErrorResponse', () => {
+  test('maps validation errors to a 400 problem with field errors', async () => {
+    const errors = [{ path: 'text', message: 'text is required' }];
+    const response = backendErrorResponse(new RequestValidationError('text: text is required', errors), 'Failed');
+    expect(response.status).toBe(400);
+    expect(response.headers.get('content-type')).toBe(PROBLEM_CONTENT_TYPE);
+    expect(await response.json()).toMatchObject({ title: 'Invalid request', detail: 'text: text is required', errors });
+  });
+
+  test('keeps the backend status and surfaces its message as detail', async () => {
+    const error = new BackendRequestError('Backend 409', 409, JSON.stringify({ message: 'Already resolved' }));
+    const response = backendErrorResponse(error, 'Failed to update status');
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({
+      type: 'about:blank',
+      title: 'Failed to update status',
+      status: 409,
+      detail: 'Already resolved',
+    });
+  });
+
+  test('hides unexpected errors behind a 500', async () => {
+    const logged = spyOn(console, 'error').mockImplementation(() => {});
+    const response = backendErrorResponse(new Error('secret stack detail'), 'Failed to load events');
+    logged.mockRestore();
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ type: 'about:blank', title: 'Failed to load events', status: 500 });
+  });
+});
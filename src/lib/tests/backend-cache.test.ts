@@ -0,0 +1,82 @@
+import { describe, expect, mock, test } from 'bun:test';
+
+import { BackendCache } from '@/lib/backend-cache';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((done, fail) => {
+    resolve = done;
+    reject = fail;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('BackendCache', () => {
+  test('serves repeat reads from the cache until the entry expires', async () => {
+    const cache = new BackendCache();
+    let calls = 0;
+    const load = mock(async () => ({ call: (calls += 1) }));
+
+    expect(await cache.get('events', 30, load)).toEqual({ call: 1 });
+    expect(await cache.get('events', 30, load)).toEqual({ call: 1 });
+    expect(load).toHaveBeenCalledTimes(1);
+
+    await Bun.sleep(40);
+    expect(await cache.get('events', 30, load)).toEqual({ call: 2 });
+  });
+
+  test('coalesces concurrent misses into one load', async () => {
+    const cache = new BackendCache();
+    const pending = deferred<{ events: string[] }>();
+    const load = mock(() => pending.promise);
+
+    const reads = [cache.get('events', 1_000, load), cache.get('events', 1_000, load), cache.get('events', 1_000, load)];
+    pending.resolve({ events: ['evt-1'] });
+    const [first, ...rest] = await Promise.all(reads);
+
+    expect(load).toHaveBeenCalledTimes(1);
+    for (const value of rest) {
+      expect(value).toBe(first);
+    }
+  });
+
+  test('does not store a load that was running when the cache was cleared', async () => {
+    const cache = new BackendCache();
+    const stale = deferred<string>();
+    const staleRead = cache.get('events', 1_000, () => stale.promise);
+
+    cache.clear();
+    const fresh = mock(async () => 'after write');
+    const freshRead = cache.get('events', 1_000, fresh);
+    stale.resolve('before write');
+
+    expect(await staleRead).toBe('before write');
+    expect(await freshRead).toBe('after write');
+    expect(await cache.get('events', 1_000, async () => 'reloaded')).toBe('after write');
+    expect(fresh).toHaveBeenCalledTimes(1);
+  });
+
+  test('keeps the stale load from overwriting the entry stored after the clear', async () => {
+    const cache = new BackendCache();
+    const stale = deferred<string>();
+    const staleRead = cache.get('events', 1_000, () => stale.promise);
+
+    cache.clear();
+    expect(await cache.get('events', 1_000, async () => 'after write')).toBe('after write');
+    stale.resolve('before write');
+    await staleRead;
+
+    expect(await cache.get('events', 1_000, async () => 'reloaded')).toBe('after write');
+  });
+
+  test('does not cache failures', async () => {
+    const cache = new BackendCache();
+    const failed = deferred<string>();
+    const read = cache.get('events', 1_000, () => failed.promise);
+    failed.reject(new Error('backend down'));
+
+    await expect(read).rejects.toThrow('backend down');
+    expect(await cache.get('events', 1_000, async () => 'recovered')).toBe('recovered');
+  });
+});
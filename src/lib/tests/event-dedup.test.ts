@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'bun:test';
+
+import {
+  DUPLICATE_RADIUS_KM,
+  DUPLICATE_THRESHOLD,
+  DUPLICATE_WINDOW_MS,
+  findDuplicateOf,
+  scoreDuplicate,
+  textSimilarity,
+} from '@/lib/event-dedup';
+import type { SarEvent } from '@/types/sar';
+
+const MINUTE = 60_000;
+
+const incident: SarEvent = {
+  eventId: 'evt-klang',
+  text: 'Flash flood near Klang river, cars stranded on Jalan Kota',
+  lat: 3.038,
+  lon: 101.446,
+  createdAt: 0,
+  status: 'reported',
+};
+
+describe('textSimilarity', () => {
+  test('folds BM vocabulary onto English', () => {
+    expect(textSimilarity('Banjir kilat di Klang', 'Flash flood in Klang')).toBe(1);
+  });
+
+  test('ignores stopwords and plurals', () => {
+    expect(textSimilarity('Cars stranded near the river', 'car stranded river')).toBe(1);
+  });
+
+  test('is zero for unrelated or empty reports', () => {
+    expect(textSimilarity('Tree down across the road', 'Gas leak at petrol station')).toBe(0);
+    expect(textSimilarity('', incident.text)).toBe(0);
+  });
+});
+
+describe('scoreDuplicate', () => {
+  test('scores a reworded report from the same spot above the threshold', () => {
+    const score = scoreDuplicate(
+      { text: 'Cars stranded in flash flood by Klang river', lat: 3.0385, lon: 101.4462 },
+      10 * MINUTE,
+      incident,
+    );
+    expect(score).toBeGreaterThanOrEqual(DUPLICATE_THRESHOLD);
+  });
+
+  test.each([0, MINUTE, 10 * MINUTE])('never links unrelated wording at the same place %d ms later', (elapsed) => {
+    const report = { text: 'Gas leak reported at petrol station', lat: incident.lat, lon: incident.lon };
+    expect(scoreDuplicate(report, elapsed, incident)).toBe(0);
+  });
+
+  test('drops candidates outside the time window or radius', () => {
+    const report = { text: incident.text, lat: incident.lat, lon: incident.lon };
+    expect(scoreDuplicate(report, DUPLICATE_WINDOW_MS + 1, incident)).toBe(0);
+    // ~2.2 km north, beyond the radius.
+    expect(DUPLICATE_RADIUS_KM).toBeLessThan(2.2);
+    expect(scoreDuplicate({ ...report, lat: incident.lat! + 0.02 }, MINUTE, incident)).toBe(0);
+  });
+
+  test('leans on wording when either side has no coordinates', () => {
+    expect(scoreDuplicate({ text: 'Flash flood Klang river cars stranded' }, MINUTE, incident)).toBeGreaterThanOrEqual(
+      DUPLICATE_THRESHOLD,
+    );
+    expect(scoreDuplicate({ text: 'Flooding somewhere in Klang' }, MINUTE, incident)).toBeLessThan(DUPLICATE_THRESHOLD);
+  });
+});
+
+describe('findDuplicateOf', () => {
+  const report = { text: 'Cars stranded in flash flood by Klang river', lat: 3.0385, lon: 101.4462 };
+
+  test('links to the best-scoring open canonical incident', () => {
+    const weaker: SarEvent = { ...incident, eventId: 'evt-weaker', lat: 3.045, createdAt: -60 * MINUTE };
+    expect(findDuplicateOf(report, MINUTE, [weaker, incident])?.event.eventId).toBe('evt-klang');
+  });
+
+  test('skips resolved incidents and reports that are already duplicates', () => {
+    const candidates: SarEvent[] = [
+      { ...incident, eventId: 'evt-resolved', status: 'resolved' },
+      { ...incident, eventId: 'evt-copy', duplicateOf: 'evt-other' },
+    ];
+    expect(findDuplicateOf(report, MINUTE, candidates)).toBeNull();
+  });
+});
@@ -0,0 +1,16 @@
+import { describe, expect, test } from 'bun:test';
+
+import { EVENT_EXPORT_FORMATS, isEventExportFormat } from '@/lib/event-export';
+
+describe('isEventExportFormat', () => {
+  test.each(Object.keys(EVENT_EXPORT_FORMATS))('accepts %s', (format) => {
+    expect(isEventExportFormat(format)).toBe(true);
+  });
+
+  test.each(['toString', 'constructor', '__proto__', 'hasOwnProperty', 'GeoJSON', 'shapefile', ''])(
+    'rejects %p',
+    (format) => {
+      expect(isEventExportFormat(format)).toBe(false);
+    },
+  );
+});
@@ -0,0 +1,254 @@
+import { describe, expect, test } from 'bun:test';
+
+import {
+  EventImportError,
+  MAX_IMPORT_ROWS,
+  parseCsv,
+  parseImport,
+  runBulkImport,
+  validateImportCandidates,
+} from '@/lib/event-import';
+import { bulkImportRequestSchema, MAX_IMPORT_CONTENT_LENGTH } from '@/lib/sar-contracts';
+import type { CsvColumnMapping, EventImportFormat } from '@/types/sar';
+
+function validate(content: string, format: EventImportFormat, mapping?: CsvColumnMapping) {
+  return validateImportCandidates(parseImport(content, format, mapping));
+}
+
+describe('parseCsv', () => {
+  test('keeps commas, doubled quotes and line breaks inside quoted fields', () => {
+    const rows = parseCsv('text,lat\n"Flood, near ""Jalan Kota""",3.04\n"Line one\nline two",3.1\n');
+
+    expect(rows).toEqual([
+      ['text', 'lat'],
+      ['Flood, near "Jalan Kota"', '3.04'],
+      ['Line one\nline two', '3.1'],
+    ]);
+  });
+
+  test('accepts CRLF line endings, a byte order mark and a missing final newline', () => {
+    expect(parseCsv('\uFEFFtext,lat\r\nRoad closed,3.04')).toEqual([
+      ['text', 'lat'],
+      ['Road closed', '3.04'],
+    ]);
+  });
+});
+
+describe('CSV import', () => {
+  test('guesses the column mapping from common headers', () => {
+    const [row] = validate(
+      'Description,Latitude,Longitude,Photo\nRiver overflowing,3.038,101.446,https://example.org/a.jpg\n',
+      'csv',
+    );
+
+    expect(row).toEqual({
+      row: 1,
+      ok: true,
+      request: { text: 'River overflowing', lat: 3.038, lon: 101.446, mediaUrl: 'https://example.org/a.jpg' },
+    });
+  });
+
+  test('reports malformed rows with their data-row number and keeps the valid ones', () => {
+    const rows = validate(
+      [
+        'report,y,x',
+        'Landslide blocking the road,3.15,101.76',
+        ',3.1,101.7',
+        'Trapped residents,abc,101.7',
+        '',
+        'Tree down,3.12,',
+        'Power lines down,95,101.7',
+      ].join('\n'),
+      'csv',
+    );
+
+    expect(rows.map((row) => [row.row, row.ok])).toEqual([
+      [1, true],
+      [2, false],
+      [3, false],
+      [5, false],
+      [6, false],
+    ]);
+    const errors = Object.fromEntries(rows.flatMap((row) => (row.ok ? [] : [[row.row, row.errors]])));
+    expect(errors[2]).toEqual([expect.stringMatching(/^text: /)]);
+    expect(errors[3]).toEqual([expect.stringMatching(/^lat: /)]);
+    expect(errors[5]).toEqual(['lat: Provide both latitude and longitude, or neither']);
+    expect(errors[6]).toEqual(['lat: Latitude must be ≤ 90']);
+  });
+
+  test('reads quoted fields through the mapping the user picked', () => {
+    const [row] = validate('Notes,Where\n"Bridge out, use detour",unknown\n', 'csv', { text: 'Notes' });
+
+    expect(row).toMatchObject({ ok: true, request: { text: 'Bridge out, use detour' } });
+  });
+
+  test('rejects a mapping that names a missing column or no text column', () => {
+    expect(() => parseImport('Notes,lat\nBridge out,3\n', 'csv', { text: 'Report' })).toThrow(
+      'CSV has no column named "Report"',
+    );
+    expect(() => parseImport('lat,lon\n3,101\n', 'csv')).toThrow('Choose which CSV column holds the report text');
+  });
+
+  test('treats a file with only a header as empty', () => {
+    expect(() => parseImport('text,lat,lon\n', 'csv')).toThrow('No events found in the file');
+  });
+});
+
+describe('row limit', () => {
+  const csvWithRows = (count: number) =>
+    ['text', ...Array.from({ length: count }, (_, index) => `Report ${index + 1}`)].join('\n');
+
+  test(`accepts exactly ${MAX_IMPORT_ROWS} rows`, () => {
+    expect(parseImport(csvWithRows(MAX_IMPORT_ROWS), 'csv')).toHaveLength(MAX_IMPORT_ROWS);
+  });
+
+  test('rejects one row more', () => {
+    expect(() => parseImport(csvWithRows(MAX_IMPORT_ROWS + 1), 'csv')).toThrow(EventImportError);
+  });
+
+  test('bounds the request content size', () => {
+    const oversized = { format: 'csv', content: 'x'.repeat(MAX_IMPORT_CONTENT_LENGTH + 1) };
+
+    expect(bulkImportRequestSchema.safeParse(oversized).success).toBe(false);
+    expect(bulkImportRequestSchema.safeParse({ ...oversized, content: 'text\nok' }).success).toBe(true);
+  });
+});
+
+describe('GeoJSON import', () => {
+  test('reads points directly and polygons from the mean of their outer ring', () => {
+    const rows = validate(
+      JSON.stringify({
+        type: 'FeatureCollection',
+        features: [
+          {
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: [101.446, 3.038] },
+            properties: { text: 'Flood' },
+          },
+          {
+            type: 'Feature',
+            geometry: {
+              type: 'Polygon',
+              coordinates: [
+                [
+                  [101, 3],
+                  [102, 3],
+                  [102, 4],
+                  [101, 4],
+                ],
+              ],
+            },
+            properties: { description: 'Evacuation zone' },
+          },
+          { type: 'Feature', geometry: null, properties: { name: 'No location yet' } },
+        ],
+      }),
+      'geojson',
+    );
+
+    expect(rows).toEqual([
+      { row: 1, ok: true, request: { text: 'Flood', lat: 3.038, lon: 101.446, mediaUrl: undefined } },
+      { row: 2, ok: true, request: { text: 'Evacuation zone', lat: 3.5, lon: 101.5, mediaUrl: undefined } },
+      { row: 3, ok: true, request: { text: 'No location yet', lat: undefined, lon: undefined, mediaUrl: undefined } },
+    ]);
+  });
+
+  test('rejects invalid JSON and documents that are not features', () => {
+    expect(() => parseImport('{"type":', 'geojson')).toThrow('File is not valid JSON');
+    expect(() => parseImport('{"type":"Point","coordinates":[0,0]}', 'geojson')).toThrow(
+      'GeoJSON must be a Feature or FeatureCollection',
+    );
+  });
+});
+
+describe('CAP import', () => {
+  const feed = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <entry>
+    <cap:alert xmlns:cap="urn:oasis:names:tc:emergency:cap:1.2">
+      <cap:info>
+        <cap:headline>Flash flood</cap:headline>
+        <cap:description>Water rising at Klang &amp; Shah Alam</cap:description>
+        <cap:resource>
+          <cap:mimeType>image/jpeg</cap:mimeType>
+          <cap:uri>https://example.org/klang.jpg</cap:uri>
+        </cap:resource>
+        <cap:area><cap:circle>3.038,101.446 0.5</cap:circle></cap:area>
+      </cap:info>
+    </cap:alert>
+  </entry>
+  <entry>
+    <alert xmlns="urn:oasis:names:tc:emergency:cap:1.2">
+      <info>
+        <headline><![CDATA[Landslide <Ampang>]]></headline>
+        <resource><mimeType>application/pdf</mimeType><uri>https://example.org/report.pdf</uri></resource>
+        <area><polygon>3,101 3,102 4,102 4,101 3,101</polygon></area>
+      </info>
+    </alert>
+  </entry>
+</feed>`;
+
+  test('reads every alert in a feed, with or without a namespace prefix', () => {
+    const rows = validate(feed, 'cap');
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toEqual({
+      row: 1,
+      ok: true,
+      request: {
+        text: 'Water rising at Klang & Shah Alam',
+        lat: 3.038,
+        lon: 101.446,
+        mediaUrl: 'https://example.org/klang.jpg',
+      },
+    });
+    // Falls back to the headline, and only images or video count as media.
+    expect(rows[1]).toMatchObject({ row: 2, ok: true, request: { text: 'Landslide <Ampang>', mediaUrl: undefined } });
+    if (rows[1].ok) {
+      expect(rows[1].request.lat).toBeCloseTo(3.4, 10);
+      expect(rows[1].request.lon).toBeCloseTo(101.4, 10);
+    }
+  });
+
+  test('reports an alert without text as an invalid row', () => {
+    const rows = validate('<alert><info><area><circle>3.1,101.7 1</circle></area></info></alert>', 'cap');
+
+    expect(rows).toEqual([
+      { row: 1, ok: false, values: expect.any(Object), errors: [expect.stringMatching(/^text: /)] },
+    ]);
+  });
+
+  test('rejects files that are not XML', () => {
+    expect(() => parseImport('text,lat\nFlood,3', 'cap')).toThrow('File is not CAP XML');
+    expect(() => parseImport('<feed></feed>', 'cap')).toThrow('No events found in the file');
+  });
+});
+
+describe('runBulkImport', () => {
+  test('reports invalid, failed and imported rows separately', async () => {
+    const rows = validate('text,lat,lon\nFlood,3.04,101.45\n,3,101\nFire,3.1,101.6\n', 'csv');
+    const response = await runBulkImport('csv', rows, async (request) => {
+      if (request.text === 'Fire') {
+        throw new Error('Backend unavailable');
+      }
+      return { eventId: 'evt-flood', duplicateOf: 'evt-earlier' };
+    });
+
+    expect(response).toMatchObject({ format: 'csv', total: 3, imported: 1, failed: 2 });
+    expect(response.results).toEqual([
+      { row: 1, status: 'imported', eventId: 'evt-flood', duplicateOf: 'evt-earlier' },
+      { row: 2, status: 'invalid', errors: [expect.stringMatching(/^text: /)] },
+      { row: 3, status: 'failed', errors: ['Backend unavailable'] },
+    ]);
+  });
+
+  test('only validates on a dry run', async () => {
+    const rows = validate('text\nFlood\n', 'csv');
+
+    expect(await runBulkImport('csv', rows, null)).toMatchObject({
+      imported: 0,
+      failed: 0,
+      results: [{ row: 1, status: 'valid' }],
+    });
+  });
+});
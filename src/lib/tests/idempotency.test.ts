@@ -0,0 +1,130 @@
+import { describe, expect, mock, test } from 'bun:test';
+import { NextResponse } from 'next/server';
+
+import { RequestValidationError } from '@/lib/api-route-helpers';
+import { IDEMPOTENCY_KEY_HEADER, IDEMPOTENT_REPLAY_HEADER, withIdempotency } from '@/lib/idempotency';
+
+// Mirrors MAX_STORED_KEYS in idempotency.ts.
+const STORE_CAP = 5_000;
+
+let scopeCount = 0;
+// Every test gets its own scope; the key store is shared by the whole process.
+const nextScope = () => `test-${(scopeCount += 1)}`;
+
+function request(key?: string) {
+  return new Request('http://localhost/api/ingest', {
+    method: 'POST',
+    headers: key ? { [IDEMPOTENCY_KEY_HEADER]: key } : {},
+  });
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => (resolve = done));
+  return { promise, resolve };
+}
+
+describe('withIdempotency', () => {
+  test('runs every request without a key', async () => {
+    const scope = nextScope();
+    const handler = mock(async () => NextResponse.json({ ok: true }));
+    await withIdempotency(request(), scope, { text: 'a' }, handler);
+    await withIdempotency(request(), scope, { text: 'a' }, handler);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  test('replays the stored response for a repeated key', async () => {
+    const scope = nextScope();
+    const handler = mock(async () => NextResponse.json({ eventId: 'evt-1' }, { status: 201 }));
+    const first = await withIdempotency(request('key-00000001'), scope, { text: 'a' }, handler);
+    const replay = await withIdempotency(request('key-00000001'), scope, { text: 'a' }, handler);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(first.headers.get(IDEMPOTENT_REPLAY_HEADER)).toBeNull();
+    expect(replay.status).toBe(201);
+    expect(replay.headers.get(IDEMPOTENT_REPLAY_HEADER)).toBe('true');
+    expect(await replay.json()).toEqual({ eventId: 'evt-1' });
+  });
+
+  test('keeps keys apart per scope', async () => {
+    const handler = mock(async () => NextResponse.json({ ok: true }));
+    await withIdempotency(request('key-00000001'), nextScope(), { text: 'a' }, handler);
+    await withIdempotency(request('key-00000001'), nextScope(), { text: 'a' }, handler);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  test('answers 422 when a key is reused for a different payload', async () => {
+    const scope = nextScope();
+    const handler = mock(async () => NextResponse.json({ ok: true }));
+    await withIdempotency(request('key-00000001'), scope, { text: 'a' }, handler);
+    const reused = await withIdempotency(request('key-00000001'), scope, { text: 'b' }, handler);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(reused.status).toBe(422);
+    expect(await reused.json()).toMatchObject({ title: 'Idempotency key reused' });
+  });
+
+  test('makes a concurrent repeat wait for the first request', async () => {
+    const scope = nextScope();
+    const gate = deferred<void>();
+    const handler = mock(async () => {
+      await gate.promise;
+      return NextResponse.json({ eventId: 'evt-1' });
+    });
+
+    const first = withIdempotency(request('key-00000001'), scope, { text: 'a' }, handler);
+    const second = withIdempotency(request('key-00000001'), scope, { text: 'a' }, handler);
+    gate.resolve();
+    const responses = await Promise.all([first, second]);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(await Promise.all(responses.map((response) => response.json()))).toEqual([
+      { eventId: 'evt-1' },
+      { eventId: 'evt-1' },
+    ]);
+    expect(responses[1].headers.get(IDEMPOTENT_REPLAY_HEADER)).toBe('true');
+  });
+
+  test('releases the key when the first attempt fails', async () => {
+    const scope = nextScope();
+    const failing = mock(async () => NextResponse.json({ message: 'backend down' }, { status: 503 }));
+    const throwing = mock(async (): Promise<NextResponse> => {
+      throw new Error('socket hang up');
+    });
+    const succeeding = mock(async () => NextResponse.json({ ok: true }));
+
+    expect((await withIdempotency(request('key-00000001'), scope, { text: 'a' }, failing)).status).toBe(503);
+    await expect(withIdempotency(request('key-00000001'), scope, { text: 'a' }, throwing)).rejects.toThrow('socket hang up');
+    const retried = await withIdempotency(request('key-00000001'), scope, { text: 'a' }, succeeding);
+
+    expect(succeeding).toHaveBeenCalledTimes(1);
+    expect(retried.headers.get(IDEMPOTENT_REPLAY_HEADER)).toBeNull();
+  });
+
+  test('rejects malformed keys', async () => {
+    const handler = mock(async () => NextResponse.json({ ok: true }));
+    await expect(withIdempotency(request('short'), nextScope(), {}, handler)).rejects.toBeInstanceOf(RequestValidationError);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  test('never evicts a key whose first request is still running', async () => {
+    const scope = nextScope();
+    const gate = deferred<void>();
+    const slow = mock(async () => {
+      await gate.promise;
+      return NextResponse.json({ eventId: 'evt-slow' });
+    });
+    const first = withIdempotency(request('key-inflight'), scope, { text: 'slow' }, slow);
+
+    const quick = async () => NextResponse.json({ ok: true });
+    for (let i = 0; i <= STORE_CAP; i += 1) {
+      await withIdempotency(request(`key-${String(i).padStart(8, '0')}`), scope, { i }, quick);
+    }
+
+    const retry = withIdempotency(request('key-inflight'), scope, { text: 'slow' }, slow);
+    gate.resolve();
+    await first;
+    expect(await (await retry).json()).toEqual({ eventId: 'evt-slow' });
+    expect(slow).toHaveBeenCalledTimes(1);
+  });
+});
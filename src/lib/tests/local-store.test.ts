@@ -0,0 +1,86 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { readDatabase, updateDatabase } from '@/lib/local-backend/store';
+import type { SarEvent } from '@/types/sar';
+
+// A second module instance has its own in-process write queue, like the MCP server
+// running next to the dashboard, so only the lock file keeps the two in order.
+const otherProcessSpecifier = '@/lib/local-backend/store?other-process';
+
+function makeEvent(eventId: string): SarEvent {
+  return { eventId, text: 'Flooding on the main road', lat: 3.04, lon: 101.45, severity: 50, createdAt: 0 };
+}
+
+describe('local backend store', () => {
+  let dataDir: string;
+  let dataFile: string;
+  const previousDataFile = process.env.SAR_LOCAL_DATA_FILE;
+
+  beforeAll(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'sar-local-store-'));
+    dataFile = path.join(dataDir, 'db.json');
+    process.env.SAR_LOCAL_DATA_FILE = dataFile;
+  });
+
+  afterAll(async () => {
+    if (previousDataFile === undefined) {
+      delete process.env.SAR_LOCAL_DATA_FILE;
+    } else {
+      process.env.SAR_LOCAL_DATA_FILE = previousDataFile;
+    }
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  test('keeps every write when two writers share the file', async () => {
+    const other = (await import(otherProcessSpecifier)) as typeof import('@/lib/local-backend/store');
+    const append = (store: { updateDatabase: typeof updateDatabase }, eventId: string) =>
+      store.updateDatabase(async (database) => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        database.events.push(makeEvent(eventId));
+      });
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, index) => [
+        append({ updateDatabase }, `evt-dashboard-${index}`),
+        append(other, `evt-mcp-${index}`),
+      ]).flat(),
+    );
+
+    const { events } = await readDatabase();
+    expect(events).toHaveLength(20);
+    expect(await stat(`${dataFile}.lock`).catch(() => null)).toBeNull();
+  });
+
+  test('waits for a lock held elsewhere', async () => {
+    await writeFile(`${dataFile}.lock`, '1');
+    let done = false;
+    const write = updateDatabase((database) => {
+      database.events.push(makeEvent('evt-after-lock'));
+    }).then(() => {
+      done = true;
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(done).toBe(false);
+
+    await rm(`${dataFile}.lock`);
+    await write;
+    const { events } = await readDatabase();
+    expect(events.map((event) => event.eventId)).toContain('evt-after-lock');
+  });
+
+  test('breaks a lock left behind by a crashed writer', async () => {
+    await writeFile(`${dataFile}.lock`, '1');
+    const longAgo = new Date(Date.now() - 60_000);
+    await utimes(`${dataFile}.lock`, longAgo, longAgo);
+
+    await updateDatabase((database) => {
+      database.events.push(makeEvent('evt-after-stale-lock'));
+    });
+    const { events } = await readDatabase();
+    expect(events.map((event) => event.eventId)).toContain('evt-after-stale-lock');
+  });
+});
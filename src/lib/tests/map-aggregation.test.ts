@@ -0,0 +1,118 @@
+import { describe, expect, test } from 'bun:test';
+
+import { buildDensityGrid, clusterPoints, severityWeight, type WeightedPoint } from '@/lib/map-aggregation';
+
+// Cell width in degrees of longitude for the default 56px clusters at zoom 10.
+const CLUSTER_CELL_DEG = (360 / (256 * 2 ** 10)) * 56;
+
+function point(id: string, lat: number, lon: number, weight = 1): WeightedPoint<string> {
+  return { lat, lon, weight, item: id };
+}
+
+describe('severityWeight', () => {
+  test('maps severity onto 0.25–1 and clamps out-of-range scores', () => {
+    expect(severityWeight(undefined)).toBe(0.25);
+    expect(severityWeight(0)).toBe(0.25);
+    expect(severityWeight(100)).toBe(1);
+    expect(severityWeight(50)).toBe(0.625);
+    expect(severityWeight(-20)).toBe(0.25);
+    expect(severityWeight(150)).toBe(1);
+  });
+});
+
+describe('clusterPoints', () => {
+  test('returns nothing for no points', () => {
+    expect(clusterPoints([], 10)).toEqual([]);
+  });
+
+  test('groups points in the same cell with their count, weight and bounds', () => {
+    const [cluster, ...rest] = clusterPoints(
+      [point('a', 0.01, 0.01, 1), point('b', 0.02, 0.03, 3), point('c', 0.015, 0.02, 0.5)],
+      10,
+    );
+
+    expect(rest).toHaveLength(0);
+    expect(cluster.items).toEqual(['a', 'b', 'c']);
+    expect(cluster.weight).toBe(4.5);
+    expect(cluster.bounds).toEqual([
+      [0.01, 0.01],
+      [0.02, 0.03],
+    ]);
+    // The marker sits at the weighted centroid, pulled towards the heavier point.
+    expect(cluster.lat).toBeCloseTo((0.01 + 0.06 + 0.0075) / 4.5, 10);
+    expect(cluster.lon).toBeCloseTo((0.01 + 0.09 + 0.01) / 4.5, 10);
+  });
+
+  test('splits points that straddle a cell edge', () => {
+    const clusters = clusterPoints(
+      [point('west', 0.01, CLUSTER_CELL_DEG - 1e-6), point('east', 0.01, CLUSTER_CELL_DEG + 1e-6)],
+      10,
+    );
+
+    expect(clusters.map((cluster) => cluster.items)).toEqual([['west'], ['east']]);
+    expect(clusters.every((cluster) => cluster.weight === 1)).toBe(true);
+  });
+
+  test('keeps a lone point as its own cluster with zero-size bounds', () => {
+    const [cluster] = clusterPoints([point('solo', 3.04, 101.45, 0.5)], 12);
+    expect(cluster).toMatchObject({ items: ['solo'], weight: 0.5, lat: 3.04, lon: 101.45 });
+    expect(cluster.bounds).toEqual([
+      [3.04, 101.45],
+      [3.04, 101.45],
+    ]);
+  });
+
+  test('merges clusters as the map zooms out', () => {
+    const points = [point('klang', 3.038, 101.446), point('ampang', 3.15, 101.76), point('kampung-baru', 3.163, 101.708)];
+
+    expect(clusterPoints(points, 14)).toHaveLength(3);
+    const [merged, ...rest] = clusterPoints(points, 6);
+    expect(rest).toHaveLength(0);
+    expect(merged.items).toHaveLength(3);
+    expect(merged.bounds).toEqual([
+      [3.038, 101.446],
+      [3.163, 101.76],
+    ]);
+  });
+});
+
+describe('buildDensityGrid', () => {
+  test('returns nothing for no points', () => {
+    expect(buildDensityGrid([], 10)).toEqual([]);
+  });
+
+  test('spreads a point over its 3×3 neighbourhood', () => {
+    const cells = buildDensityGrid([point('a', 0.01, 0.01)], 10);
+    const byId = new Map(cells.map((cell) => [cell.id, cell.intensity]));
+
+    expect(cells).toHaveLength(9);
+    expect(byId.get('0:0')).toBe(1);
+    expect(byId.get('0:1')).toBe(0.5);
+    expect(byId.get('-1:0')).toBe(0.5);
+    expect(byId.get('1:1')).toBe(0.25);
+    expect(byId.get('-1:-1')).toBe(0.25);
+  });
+
+  test('normalises intensity to the densest cell', () => {
+    const cells = buildDensityGrid([point('a', 0.01, 0.01, 1), point('b', 0.01, 0.011, 1), point('c', 1, 1, 1)], 10);
+    const intensities = cells.map((cell) => cell.intensity);
+
+    expect(Math.max(...intensities)).toBe(1);
+    expect(cells.find((cell) => cell.id === '0:0')?.intensity).toBe(1);
+    // The lone point far away only reaches half the stacked pair's peak.
+    const farCell = cells.find(
+      ({ bounds: [[south, west], [north, east]] }) => south <= 1 && 1 < north && west <= 1 && 1 < east,
+    );
+    expect(farCell?.intensity).toBe(0.5);
+  });
+
+  test('gives each cell bounds that tile the grid', () => {
+    const cells = buildDensityGrid([point('a', 0.01, 0.01)], 10);
+    const centre = cells.find((cell) => cell.id === '0:0');
+    const east = cells.find((cell) => cell.id === '0:1');
+
+    expect(centre?.bounds[0]).toEqual([0, 0]);
+    expect(east?.bounds[0][1]).toBeCloseTo(centre?.bounds[1][1] ?? NaN, 12);
+    expect(east?.bounds[0][0]).toBe(0);
+  });
+});
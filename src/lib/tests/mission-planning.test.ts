@@ -0,0 +1,176 @@
+import { describe, expect, test } from 'bun:test';
+
+import { orderMissionStops, planMissionRoute } from '@/lib/mission-planning';
+import { decodeGooglePolyline } from '@/lib/polyline';
+import type { AltRouteRequest, AltRouteResponse, AvoidArea, MissionStop, RouteEngine } from '@/types/sar';
+
+// Roughly one kilometre of latitude.
+const KM = 1 / 111.195;
+
+const start = { lat: 3.0, lon: 101.5 };
+// A minor incident a kilometre north and a severe one two and a half kilometres south.
+const minorNorth: MissionStop = { eventId: 'evt-minor', lat: 3.0 + KM, lon: 101.5, severity: 0 };
+const severeSouth: MissionStop = { eventId: 'evt-severe', lat: 3.0 - 2.5 * KM, lon: 101.5, severity: 100 };
+
+function ids(stops: MissionStop[]) {
+  return stops.map((stop) => stop.eventId);
+}
+
+function eventArea(sourceId: string, lat: number, lon: number): AvoidArea {
+  return { area: { lat, lon, radiusKm: 0.2 }, source: 'event', sourceId, severity: 90 };
+}
+
+// Answers every leg with a fixed distance and ETA per destination, recording what was asked.
+function stubLegs(answers: Record<string, { distanceKm: number; etaMin: number; engine?: RouteEngine }>) {
+  const calls: AltRouteRequest[] = [];
+  const planLeg = async (leg: AltRouteRequest): Promise<AltRouteResponse> => {
+    calls.push(leg);
+    return answers[`${leg.destLat},${leg.destLon}`];
+  };
+  return { calls, planLeg };
+}
+
+describe('orderMissionStops', () => {
+  test('visits the closest remaining stop next under nearest', () => {
+    const further = { eventId: 'evt-further', lat: 3.0 + 3 * KM, lon: 101.5, severity: 50 };
+
+    expect(ids(orderMissionStops(start, [further, severeSouth, minorNorth], 'nearest'))).toEqual([
+      'evt-minor',
+      'evt-further',
+      'evt-severe',
+    ]);
+  });
+
+  test('defaults to nearest', () => {
+    expect(ids(orderMissionStops(start, [severeSouth, minorNorth]))).toEqual([
+      'evt-minor',
+      'evt-severe',
+    ]);
+  });
+
+  test('pulls a severe stop ahead of a closer minor one under severity', () => {
+    expect(ids(orderMissionStops(start, [minorNorth, severeSouth], 'severity'))).toEqual([
+      'evt-severe',
+      'evt-minor',
+    ]);
+  });
+
+  test('still prefers a much closer stop over a severe one far away', () => {
+    const severeFar = { ...severeSouth, lat: 3.0 - 10 * KM };
+
+    expect(ids(orderMissionStops(start, [severeFar, minorNorth], 'severity'))).toEqual([
+      'evt-minor',
+      'evt-severe',
+    ]);
+  });
+
+  test('leaves the input untouched', () => {
+    const stops = [severeSouth, minorNorth];
+    orderMissionStops(start, stops);
+
+    expect(stops).toEqual([severeSouth, minorNorth]);
+  });
+});
+
+describe('planMissionRoute', () => {
+  const north = `${minorNorth.lat},${minorNorth.lon}`;
+  const south = `${severeSouth.lat},${severeSouth.lon}`;
+
+  test('routes each leg from the previous stop and accumulates distance and arrival times', async () => {
+    const { calls, planLeg } = stubLegs({
+      [north]: { distanceKm: 1.2, etaMin: 4 },
+      [south]: { distanceKm: 3.71, etaMin: 9 },
+    });
+    const response = await planMissionRoute(
+      { startLat: 3.0, startLon: 101.5, stops: [severeSouth, minorNorth] },
+      [],
+      planLeg,
+    );
+
+    expect(calls.map((leg) => [leg.originLat, leg.destLat, leg.alternatives])).toEqual([
+      [3.0, minorNorth.lat, 1],
+      [minorNorth.lat, severeSouth.lat, 1],
+    ]);
+    const timeline = response.stops.map((stop) => [
+      stop.eventId,
+      stop.order,
+      stop.legDistanceKm,
+      stop.legEtaMin,
+      stop.arrivalMin,
+    ]);
+    expect(timeline).toEqual([
+      ['evt-minor', 1, 1.2, 4, 4],
+      ['evt-severe', 2, 3.71, 9, 13],
+    ]);
+    expect(response).toMatchObject({ strategy: 'nearest', distanceKm: 4.91, etaMin: 13 });
+    // Legs without a polyline are stitched as straight lines through every stop.
+    const path = decodeGooglePolyline(response.polyline ?? '');
+    const round = (value: number) => Number(value.toFixed(5));
+    expect(path.map(([lat]) => round(lat))).toEqual([3.0, round(minorNorth.lat), round(severeSouth.lat)]);
+  });
+
+  test('never avoids the incidents it is heading to', async () => {
+    const { calls, planLeg } = stubLegs({
+      [north]: { distanceKm: 1, etaMin: 3 },
+      [south]: { distanceKm: 3.5, etaMin: 8 },
+    });
+    const elsewhere = eventArea('evt-elsewhere', 3.2, 101.7);
+    const geofenceOnStop: AvoidArea = {
+      area: { lat: minorNorth.lat, lon: 101.5, radiusKm: 0.2 },
+      source: 'geofence',
+      sourceId: 'evt-minor',
+    };
+    const response = await planMissionRoute(
+      { startLat: 3.0, startLon: 101.5, stops: [minorNorth, severeSouth] },
+      [
+        eventArea('evt-minor', minorNorth.lat, 101.5),
+        eventArea('evt-severe', severeSouth.lat, 101.5),
+        elsewhere,
+        geofenceOnStop,
+      ],
+      planLeg,
+    );
+
+    // Only event areas are matched by id; a geofence keeps applying even if its id collides.
+    for (const leg of calls) {
+      expect(leg.avoidAreas).toEqual([elsewhere, geofenceOnStop]);
+    }
+    expect(response.avoidAreas).toEqual([elsewhere, geofenceOnStop]);
+    expect(response.stops[0].crossesHazard).toBe(true);
+    expect(response.stops[1].crossesHazard).toBe(true);
+  });
+
+  test('flags only the legs that cross an avoid area', async () => {
+    const { planLeg } = stubLegs({
+      [north]: { distanceKm: 1, etaMin: 3 },
+      [south]: { distanceKm: 3.5, etaMin: 8 },
+    });
+    // Between the two stops, south of the start: only the second leg passes through it.
+    const bridge = eventArea('evt-bridge', 3.0 - KM, 101.5);
+    const response = await planMissionRoute(
+      { startLat: 3.0, startLon: 101.5, stops: [minorNorth, severeSouth] },
+      [bridge],
+      planLeg,
+    );
+
+    expect(response.stops.map((stop) => stop.crossesHazard)).toEqual([false, true]);
+    expect(response.crossesHazard).toBe(true);
+    expect(response.hazards?.map((hazard) => hazard.sourceId)).toEqual(['evt-bridge']);
+  });
+
+  test('reports the offline engine when any leg was routed offline', async () => {
+    const mixed = stubLegs({
+      [north]: { distanceKm: 1, etaMin: 3, engine: 'backend' },
+      [south]: { distanceKm: 3.5, etaMin: 8, engine: 'offline' },
+    });
+    const request = { startLat: 3.0, startLon: 101.5, stops: [minorNorth, severeSouth] };
+
+    expect((await planMissionRoute(request, [], mixed.planLeg)).engine).toBe('offline');
+
+    const backendOnly = stubLegs({
+      [north]: { distanceKm: 1, etaMin: 3, engine: 'backend' },
+      [south]: { distanceKm: 3.5, etaMin: 8, engine: 'backend' },
+    });
+    expect((await planMissionRoute(request, [], backendOnly.planLeg)).engine).toBe('backend');
+  });
+});
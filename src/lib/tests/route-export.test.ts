@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'bun:test';
+
+import { encodeGooglePolyline } from '@/lib/polyline';
+import { type ExportableRoute, getRouteExportFilename, serializeRoute } from '@/lib/route-export';
+
+const GENERATED_AT = Date.UTC(2024, 11, 10, 8, 30);
+
+const route: ExportableRoute = {
+  origin: { lat: 3.043, lon: 101.449 },
+  destination: { lat: 3.081, lon: 101.532 },
+  summary: {
+    routeId: 'route-1',
+    rank: 1,
+    distanceKm: 11.26,
+    etaMin: 19,
+    polyline: encodeGooglePolyline([
+      [3.043, 101.449],
+      [3.06, 101.49],
+      [3.081, 101.532],
+    ]),
+    crossesHazard: true,
+  },
+  engine: 'offline',
+};
+
+describe('serializeRoute', () => {
+  test('writes GeoJSON with the route line and both endpoints', () => {
+    const collection = JSON.parse(serializeRoute(route, 'geojson', GENERATED_AT));
+    expect(collection.type).toBe('FeatureCollection');
+
+    const [line, origin, destination] = collection.features;
+    expect(line).toMatchObject({
+      id: 'route-1',
+      geometry: {
+        type: 'LineString',
+        coordinates: [
+          [101.449, 3.043],
+          [101.49, 3.06],
+          [101.532, 3.081],
+        ],
+      },
+      properties: {
+        name: 'SAR route · Recommended',
+        description: '11.3 km · ETA 19 min · crosses a hazard zone',
+        rank: 1,
+        crossesHazard: true,
+        engine: 'offline',
+        generatedAt: '2024-12-10T08:30:00.000Z',
+      },
+    });
+    expect(origin).toMatchObject({ geometry: { type: 'Point', coordinates: [101.449, 3.043] }, properties: { role: 'origin' } });
+    expect(destination).toMatchObject({ geometry: { coordinates: [101.532, 3.081] }, properties: { role: 'destination' } });
+  });
+
+  test('writes a GPX 1.1 track with origin and destination waypoints', () => {
+    const gpx = serializeRoute(route, 'gpx', GENERATED_AT);
+    expect(gpx).toStartWith('<?xml version="1.0" encoding="UTF-8"?>\n<gpx version="1.1"');
+    expect(gpx).toContain('<time>2024-12-10T08:30:00.000Z</time>');
+    expect(gpx).toContain('<wpt lat="3.043" lon="101.449"><name>Origin</name></wpt>');
+    expect(gpx).toContain('<wpt lat="3.081" lon="101.532"><name>Destination</name></wpt>');
+    expect(gpx.match(/<trkpt /g)).toHaveLength(3);
+    expect(gpx).toContain('<trkpt lat="3.06" lon="101.49"/>');
+  });
+
+  test('escapes labels in GPX', () => {
+    const gpx = serializeRoute({ ...route, summary: { ...route.summary, label: 'Via <Jalan> & "Kota"' } }, 'gpx');
+    expect(gpx).toContain('<name>SAR route · Via &lt;Jalan&gt; &amp; &quot;Kota&quot;</name>');
+  });
+
+  test('falls back to a straight line without a polyline', () => {
+    const collection = JSON.parse(serializeRoute({ ...route, summary: { ...route.summary, polyline: undefined } }, 'geojson'));
+    expect(collection.features[0].geometry.coordinates).toEqual([
+      [101.449, 3.043],
+      [101.532, 3.081],
+    ]);
+  });
+});
+
+describe('getRouteExportFilename', () => {
+  test('stamps the file with the UTC minute and the format extension', () => {
+    expect(getRouteExportFilename('gpx', GENERATED_AT)).toBe('sar-route-20241210-0830.gpx');
+    expect(getRouteExportFilename('geojson', GENERATED_AT)).toBe('sar-route-20241210-0830.geojson');
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, expect, test } from 'bun:test';
+
+import { encodeGooglePolyline } from '@/lib/polyline';
+import { assessRouteHazards, deriveAvoidAreas, HAZARD_MIN_SEVERITY, rankRoutesByHazard } from '@/lib/route-hazards';
+import type { AltRouteOption, AvoidArea, Geofence, SarEvent } from '@/types/sar';
+
+// Roughly one kilometre of latitude.
+const KM = 1 / 111.195;
+
+// Along Jalan Kota, west to east (about 5.8 km).
+const origin = { lat: 3.038, lon: 101.42 };
+const destination = { lat: 3.038, lon: 101.472 };
+const straightPath = [origin, destination];
+
+function event(eventId: string, lat: number, lon: number, overrides: Partial<SarEvent> = {}): SarEvent {
+  return { eventId, text: `Flooding reported (${eventId})`, lat, lon, severity: 80, ...overrides };
+}
+
+function circleArea(sourceId: string, lat: number, severity?: number): AvoidArea {
+  return { area: { lat, lon: 101.446, radiusKm: 0.75 }, source: 'event', sourceId, severity };
+}
+
+function geofence(geofenceId: string, active: boolean): Geofence {
+  return {
+    geofenceId,
+    name: `Zone ${geofenceId}`,
+    area: { lat: 3.05, lon: 101.45, radiusKm: 1 },
+    minSeverity: 50,
+    active,
+    createdAt: 0,
+    updatedAt: 0,
+    hitCount: 0,
+  };
+}
+
+describe('deriveAvoidAreas', () => {
+  test('keeps open, canonical incidents at or above the hazard severity, most severe first', () => {
+    const areas = deriveAvoidAreas(
+      straightPath,
+      [
+        event('evt-minor', 3.04, 101.44, { severity: HAZARD_MIN_SEVERITY - 1 }),
+        event('evt-threshold', 3.04, 101.45, { severity: HAZARD_MIN_SEVERITY }),
+        event('evt-severe', 3.03, 101.46, { severity: 95 }),
+        event('evt-duplicate', 3.04, 101.45, { duplicateOf: 'evt-severe' }),
+        event('evt-resolved', 3.04, 101.45, { status: 'resolved' }),
+        event('evt-false-alarm', 3.04, 101.45, { status: 'false-alarm' }),
+        { eventId: 'evt-no-location', text: 'Somewhere nearby', severity: 90 },
+      ],
+      [],
+    );
+
+    expect(areas.map((area) => area.sourceId)).toEqual(['evt-severe', 'evt-threshold']);
+    expect(areas[0]).toEqual({
+      area: { lat: 3.03, lon: 101.46, radiusKm: 0.75 },
+      source: 'event',
+      sourceId: 'evt-severe',
+      label: 'Flooding reported (evt-severe)',
+      severity: 95,
+    });
+  });
+
+  test('drops incidents outside the corridor around the waypoints', () => {
+    const areas = deriveAvoidAreas(
+      straightPath,
+      [event('evt-inside', 3.038 + 9 * KM, 101.446), event('evt-outside', 3.038 + 11 * KM, 101.446)],
+      [],
+    );
+
+    expect(areas.map((area) => area.sourceId)).toEqual(['evt-inside']);
+  });
+
+  test('widens the corridor to cover every waypoint', () => {
+    const far = event('evt-far', 3.3, 101.446);
+
+    expect(deriveAvoidAreas(straightPath, [far], [])).toEqual([]);
+    expect(deriveAvoidAreas([...straightPath, { lat: 3.29, lon: 101.45 }], [far], [])).toHaveLength(1);
+  });
+
+  test('adds every active geofence after the incidents, wherever it is', () => {
+    const areas = deriveAvoidAreas(straightPath, [event('evt-flood', 3.04, 101.45)], [
+      geofence('geo-inactive', false),
+      geofence('geo-active', true),
+    ]);
+
+    expect(areas.map((area) => [area.source, area.sourceId, area.label])).toEqual([
+      ['event', 'evt-flood', 'Flooding reported (evt-flood)'],
+      ['geofence', 'geo-active', 'Zone geo-active'],
+    ]);
+  });
+
+  test('shortens long incident text for the label', () => {
+    const [area] = deriveAvoidAreas(straightPath, [event('evt-long', 3.04, 101.45, { text: 'x'.repeat(80) })], []);
+
+    expect(area.label).toHaveLength(60);
+    expect(area.label?.endsWith('…')).toBe(true);
+  });
+});
+
+describe('assessRouteHazards', () => {
+  test('scores a crossing in full by severity', () => {
+    const result = assessRouteHazards(straightPath, [circleArea('evt-on-road', 3.038, 80)]);
+
+    expect(result).toEqual({
+      hazards: [
+        { source: 'event', sourceId: 'evt-on-road', label: 'Incident', severity: 80, distanceKm: 0, crosses: true },
+      ],
+      hazardScore: 80,
+      crossesHazard: true,
+    });
+  });
+
+  test('scores a near miss by how close the route passes, fading out across the buffer', () => {
+    // The circle's edge sits half a kilometre north of the road.
+    const result = assessRouteHazards(straightPath, [circleArea('evt-near', 3.038 + 1.25 * KM, 80)]);
+
+    expect(result.crossesHazard).toBe(false);
+    expect(result.hazards).toEqual([expect.objectContaining({ crosses: false, distanceKm: 0.5 })]);
+    expect(result.hazardScore).toBe(20);
+  });
+
+  test('ignores areas beyond the buffer', () => {
+    expect(assessRouteHazards(straightPath, [circleArea('evt-far', 3.038 + 2 * KM, 80)])).toEqual({
+      hazards: [],
+      hazardScore: 0,
+      crossesHazard: false,
+    });
+  });
+
+  test('catches a small area between two distant vertices', () => {
+    const small: AvoidArea = { area: { lat: 3.038, lon: 101.45, radiusKm: 0.1 }, source: 'geofence', sourceId: 'geo' };
+
+    expect(assessRouteHazards(straightPath, [small]).crossesHazard).toBe(true);
+  });
+
+  test('measures near misses to the edge of a drawn zone', () => {
+    const south = 3.038 + 0.5 * KM;
+    const zone: AvoidArea = {
+      area: {
+        geometry: {
+          type: 'Polygon',
+          coordinates: [
+            [
+              [101.44, south],
+              [101.45, south],
+              [101.45, south + 0.01],
+              [101.44, south + 0.01],
+              [101.44, south],
+            ],
+          ],
+        },
+      },
+      source: 'geofence',
+      sourceId: 'geo-zone',
+      label: 'Evacuation zone',
+    };
+
+    const [hazard] = assessRouteHazards(straightPath, [zone]).hazards;
+    expect(hazard).toMatchObject({ label: 'Evacuation zone', crosses: false });
+    expect(hazard.distanceKm).toBeCloseTo(0.5, 1);
+  });
+
+  test('lists crossings before near misses, then by distance', () => {
+    const { hazards } = assessRouteHazards(straightPath, [
+      circleArea('evt-near', 3.038 + 1.5 * KM),
+      circleArea('evt-nearer', 3.038 + 1.1 * KM),
+      circleArea('evt-on-road', 3.038),
+    ]);
+
+    expect(hazards.map((hazard) => hazard.sourceId)).toEqual(['evt-on-road', 'evt-nearer', 'evt-near']);
+  });
+});
+
+describe('rankRoutesByHazard', () => {
+  const flood = circleArea('evt-flood', 3.038, 90);
+  // Straight through the flood, or around it along Jalan Utara.
+  const direct = encodeGooglePolyline([
+    [3.038, 101.42],
+    [3.038, 101.472],
+  ]);
+  const detour = encodeGooglePolyline([
+    [3.038, 101.42],
+    [3.056, 101.42],
+    [3.056, 101.472],
+    [3.038, 101.472],
+  ]);
+
+  function option(routeId: string, rank: number, polyline: string, etaMin: number): AltRouteOption {
+    return { routeId, rank, polyline, etaMin, distanceKm: etaMin };
+  }
+
+  test('moves routes that cross a hazard behind the clear ones and re-ranks them', () => {
+    const response = rankRoutesByHazard(
+      {
+        distanceKm: 6,
+        etaMin: 6,
+        polyline: direct,
+        routes: [option('direct', 1, direct, 6), option('detour', 2, detour, 10), option('direct-2', 3, direct, 7)],
+      },
+      [flood],
+      origin,
+      destination,
+    );
+
+    expect(response.routes?.map((route) => [route.routeId, route.rank, route.crossesHazard])).toEqual([
+      ['detour', 1, false],
+      ['direct', 2, true],
+      ['direct-2', 3, true],
+    ]);
+    // The top-level fields follow the new recommendation.
+    expect(response).toMatchObject({ distanceKm: 10, etaMin: 10, polyline: detour, crossesHazard: false });
+    expect(response.avoidAreas).toEqual([flood]);
+  });
+
+  test('keeps the backend order when every route is clear', () => {
+    const response = rankRoutesByHazard(
+      { distanceKm: 6, etaMin: 6, routes: [option('fast', 1, direct, 6), option('slow', 2, detour, 10)] },
+      [],
+      origin,
+      destination,
+    );
+
+    expect(response.routes?.map((route) => [route.routeId, route.hazardScore])).toEqual([
+      ['fast', 0],
+      ['slow', 0],
+    ]);
+  });
+
+  test('recommends a crossing route when nothing is clear, and says so', () => {
+    const response = rankRoutesByHazard({ distanceKm: 6, etaMin: 6, polyline: direct }, [flood], origin, destination);
+
+    expect(response.routes).toHaveLength(1);
+    expect(response).toMatchObject({ crossesHazard: true, routes: [{ routeId: 'primary', rank: 1, hazardScore: 90 }] });
+  });
+
+  test('treats a route without a polyline as the straight line between its endpoints', () => {
+    const response = rankRoutesByHazard({ distanceKm: 6, etaMin: 6 }, [flood], origin, destination);
+
+    expect(response.crossesHazard).toBe(true);
+  });
+});
@@ -0,0 +1,202 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from 'bun:test';
+
+import { decodeGooglePolyline } from '@/lib/polyline';
+import { isRoutingOutage, OfflineRoutingError, planOfflineRoute } from '@/lib/road-routing';
+import { assessRouteHazards } from '@/lib/route-hazards';
+import { loadHazardAreas, planRoute, type RoutingBackend } from '@/lib/route-planning';
+import type { AltRouteRequest, AltRouteResponse, AvoidArea } from '@/types/sar';
+
+const ROAD_NETWORK_FILE = new URL('../../../mcp/tests/fixtures/roads.geojson', import.meta.url).pathname;
+
+// Along Jalan Kota in the fixture grid, through the flood at its middle junction.
+const request: AltRouteRequest = { originLat: 3.038, originLon: 101.42, destLat: 3.038, destLon: 101.472 };
+const flood: AvoidArea = {
+  area: { lat: 3.038, lon: 101.446, radiusKm: 0.75 },
+  source: 'event',
+  sourceId: 'evt-flood',
+  severity: 90,
+};
+
+class StubBackendError extends Error {
+  constructor(readonly status: number) {
+    super(`backend answered ${status}`);
+  }
+}
+
+function stubBackend(answer: AltRouteResponse | StubBackendError): RoutingBackend & { calls: number } {
+  return {
+    calls: 0,
+    async requestRoute() {
+      this.calls += 1;
+      if (answer instanceof Error) {
+        throw answer;
+      }
+      return answer;
+    },
+    isOutage: (error) => isRoutingOutage(error instanceof StubBackendError ? error.status : undefined),
+    listEvents: async () => [],
+  };
+}
+
+function routePath(polyline?: string) {
+  return decodeGooglePolyline(polyline ?? '').map(([lat, lon]) => ({ lat, lon }));
+}
+
+describe('route planning', () => {
+  const previousEnv = {
+    SAR_ROUTING_MODE: process.env.SAR_ROUTING_MODE,
+    SAR_ROAD_NETWORK_FILE: process.env.SAR_ROAD_NETWORK_FILE,
+  };
+
+  beforeAll(() => {
+    process.env.SAR_ROAD_NETWORK_FILE = ROAD_NETWORK_FILE;
+  });
+
+  afterAll(() => {
+    for (const [key, value] of Object.entries(previousEnv)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  });
+
+  function withRoutingMode(mode: string | undefined) {
+    if (mode === undefined) {
+      delete process.env.SAR_ROUTING_MODE;
+    } else {
+      process.env.SAR_ROUTING_MODE = mode;
+    }
+  }
+
+  describe('planRoute', () => {
+    test('uses the backend while it answers', async () => {
+      withRoutingMode('fallback');
+      const backend = stubBackend({ distanceKm: 12.5, etaMin: 20 });
+
+      expect(await planRoute(request, backend)).toEqual({ distanceKm: 12.5, etaMin: 20, engine: 'backend' });
+    });
+
+    test('falls back to the offline road graph when the backend has an outage', async () => {
+      withRoutingMode('fallback');
+      const warn = spyOn(console, 'warn').mockImplementation(() => {});
+      try {
+        const response = await planRoute({ ...request, avoidAreas: [flood] }, stubBackend(new StubBackendError(503)));
+
+        expect(response.engine).toBe('offline');
+        expect(response.routes?.length).toBeGreaterThan(0);
+        expect(warn).toHaveBeenCalledTimes(1);
+      } finally {
+        warn.mockRestore();
+      }
+    });
+
+    test('falls back by default once a road network is configured', async () => {
+      withRoutingMode(undefined);
+      const warn = spyOn(console, 'warn').mockImplementation(() => {});
+      try {
+        expect(await planRoute(request, stubBackend(new StubBackendError(502)))).toMatchObject({ engine: 'offline' });
+      } finally {
+        warn.mockRestore();
+      }
+    });
+
+    test('passes on requests the backend rejected instead of answering them offline', async () => {
+      withRoutingMode('fallback');
+      const rejection = new StubBackendError(400);
+
+      await expect(planRoute(request, stubBackend(rejection))).rejects.toBe(rejection);
+    });
+
+    test('never falls back in backend mode', async () => {
+      withRoutingMode('backend');
+      const outage = new StubBackendError(503);
+
+      await expect(planRoute(request, stubBackend(outage))).rejects.toBe(outage);
+    });
+
+    test('skips the backend entirely in offline mode', async () => {
+      withRoutingMode('offline');
+      const backend = stubBackend({ distanceKm: 1, etaMin: 1 });
+
+      expect(await planRoute(request, backend)).toMatchObject({ engine: 'offline' });
+      expect(backend.calls).toBe(0);
+    });
+  });
+
+  describe('planOfflineRoute', () => {
+    test('takes the direct road when nothing blocks it', async () => {
+      const response = await planOfflineRoute({ ...request, optimize: 'shortest' });
+
+      expect(response).toMatchObject({ engine: 'offline', distanceKm: 5.77 });
+      expect(response.routes?.[0]).toMatchObject({ routeId: 'offline-1', rank: 1 });
+    });
+
+    test('detours around avoid areas, starting and ending at the requested points', async () => {
+      const response = await planOfflineRoute({ ...request, avoidAreas: [flood] });
+
+      expect(response.routes?.length).toBeGreaterThan(0);
+      for (const route of response.routes ?? []) {
+        const path = routePath(route.polyline);
+        expect(assessRouteHazards(path, [flood]).crossesHazard).toBe(false);
+        expect(path[0]).toEqual({ lat: expect.closeTo(3.038, 5), lon: expect.closeTo(101.42, 5) });
+        expect(path.at(-1)).toEqual({ lat: expect.closeTo(3.038, 5), lon: expect.closeTo(101.472, 5) });
+      }
+    });
+
+    test('does not block an avoid area that contains an endpoint', async () => {
+      const aroundOrigin: AvoidArea = { area: { lat: 3.038, lon: 101.42, radiusKm: 0.5 }, source: 'geofence' };
+      const response = await planOfflineRoute({ ...request, optimize: 'shortest', avoidAreas: [aroundOrigin] });
+
+      expect(response.distanceKm).toBe(5.77);
+    });
+
+    test('rejects points far from any mapped road', async () => {
+      const promise = planOfflineRoute({ ...request, destLat: 3.5, destLon: 101.9 });
+
+      await expect(promise).rejects.toBeInstanceOf(OfflineRoutingError);
+      await expect(promise).rejects.toMatchObject({ status: 422 });
+    });
+
+    test('reports a missing road network as unavailable', async () => {
+      delete process.env.SAR_ROAD_NETWORK_FILE;
+      try {
+        await expect(planOfflineRoute(request)).rejects.toMatchObject({ status: 503 });
+      } finally {
+        process.env.SAR_ROAD_NETWORK_FILE = ROAD_NETWORK_FILE;
+      }
+    });
+  });
+
+  describe('loadHazardAreas', () => {
+    test('routes with the geofences when the incident lookup fails', async () => {
+      const warn = spyOn(console, 'warn').mockImplementation(() => {});
+      try {
+        const areas = await loadHazardAreas([{ lat: 3.038, lon: 101.42 }], {
+          ...stubBackend({ distanceKm: 1, etaMin: 1 }),
+          listEvents: async () => {
+            throw new Error('events unavailable');
+          },
+          listGeofences: async () => [
+            {
+              geofenceId: 'geo-1',
+              name: 'School',
+              area: { lat: 3.04, lon: 101.43, radiusKm: 0.3 },
+              minSeverity: 50,
+              active: true,
+              createdAt: 0,
+              updatedAt: 0,
+              hitCount: 0,
+            },
+          ],
+        });
+
+        expect(areas.map((area) => [area.source, area.sourceId])).toEqual([['geofence', 'geo-1']]);
+        expect(warn).toHaveBeenCalledTimes(1);
+      } finally {
+        warn.mockRestore();
+      }
+    });
+  });
+});
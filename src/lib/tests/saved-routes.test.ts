@@ -0,0 +1,81 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { LOCAL_BACKEND_BASE_URL, handleLocalBackendRequest } from '@/lib/local-backend';
+import { getRouteShareUrl, parseSaveRouteRequest, SavedRouteInputError } from '@/lib/saved-routes';
+import type { SaveRouteRequest, SavedRouteResponse } from '@/types/sar';
+
+const request: SaveRouteRequest = {
+  origin: { lat: 3.043, lon: 101.449 },
+  destination: { lat: 3.081, lon: 101.532 },
+  summary: { routeId: 'route-1', rank: 1, distanceKm: 11.2, etaMin: 19, polyline: '_p~iF~ps|U_ulLnnqC' },
+  avoidAreas: [{ area: { lat: 3.06, lon: 101.49, radiusKm: 0.75 }, source: 'event', sourceId: 'evt-flood' }],
+  engine: 'offline',
+};
+
+function callLocalBackend(pathname: string, init?: RequestInit) {
+  return handleLocalBackendRequest(new Request(new URL(pathname, LOCAL_BACKEND_BASE_URL), init));
+}
+
+describe('saved routes in the local backend', () => {
+  let dataDir: string;
+  const previousDataFile = process.env.SAR_LOCAL_DATA_FILE;
+
+  beforeAll(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'sar-saved-routes-'));
+    process.env.SAR_LOCAL_DATA_FILE = path.join(dataDir, 'db.json');
+  });
+
+  afterAll(async () => {
+    if (previousDataFile === undefined) {
+      delete process.env.SAR_LOCAL_DATA_FILE;
+    } else {
+      process.env.SAR_LOCAL_DATA_FILE = previousDataFile;
+    }
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  test('loads a saved route back unchanged', async () => {
+    const saved = await callLocalBackend('routes/saved', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+    expect(saved.status).toBe(201);
+    const { route } = (await saved.json()) as SavedRouteResponse;
+    expect(route).toMatchObject(request);
+    expect(route.routeId).toBeString();
+
+    const loaded = await callLocalBackend(`routes/saved/${route.routeId}`);
+    expect(loaded.status).toBe(200);
+    expect(await loaded.json()).toEqual({ route });
+  });
+
+  test('answers 404 for an unknown route id', async () => {
+    const response = await callLocalBackend('routes/saved/route-that-was-never-saved');
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ message: 'Saved route route-that-was-never-saved not found' });
+  });
+
+  test('rejects a route without a summary', async () => {
+    const response = await callLocalBackend('routes/saved', {
+      method: 'POST',
+      body: JSON.stringify({ origin: request.origin, destination: request.destination }),
+    });
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('parseSaveRouteRequest', () => {
+  test('throws SavedRouteInputError for invalid coordinates', () => {
+    expect(() => parseSaveRouteRequest({ ...request, origin: { lat: 91, lon: 101 } })).toThrow(SavedRouteInputError);
+  });
+});
+
+describe('getRouteShareUrl', () => {
+  test('points the dashboard at the saved route', () => {
+    expect(getRouteShareUrl('abc 123', 'https://sar.example.org/ops')).toBe('https://sar.example.org/?route=abc+123');
+  });
+});
@@ -0,0 +1,235 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from 'bun:test';
+
+type ServerApi = typeof import('@/lib/server-api');
+
+const BACKEND = 'http://sar-backend.test/';
+const TIMEOUT_MS = 50;
+const COOLDOWN_MS = 100;
+
+// server-api reads its configuration at import, so load a private copy against a fake remote backend.
+async function loadServerApi() {
+  const env = { SAR_API_BASE: BACKEND, SAR_BACKEND_TIMEOUT_MS: String(TIMEOUT_MS), SAR_CIRCUIT_COOLDOWN_MS: String(COOLDOWN_MS) };
+  const previous = Object.fromEntries(Object.keys(env).map((key) => [key, process.env[key]]));
+  Object.assign(process.env, env);
+  delete process.env.SAR_BACKEND_MODE;
+  const specifier = '@/lib/server-api?remote';
+  try {
+    return (await import(specifier)) as ServerApi;
+  } finally {
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  }
+}
+
+const { BackendRequestError, callBackend, callBackendJson, getBackendHealth } = await loadServerApi();
+
+type FetchArgs = [URL, RequestInit];
+let fetchMock: ReturnType<typeof mock<(...args: FetchArgs) => Promise<Response>>>;
+let warnings: string[];
+
+function respondWith(...responses: Array<Response | Error | (() => Promise<Response>)>) {
+  let call = 0;
+  fetchMock = mock(async () => {
+    const next = responses[Math.min(call, responses.length - 1)];
+    call += 1;
+    if (next instanceof Error) {
+      throw next;
+    }
+    return typeof next === 'function' ? next() : next.clone();
+  });
+  globalThis.fetch = fetchMock as unknown as typeof fetch;
+}
+
+// Resolves after `ms` unless the request is aborted first, like a real fetch.
+function delayedFetch(ms: number, response: () => Response) {
+  fetchMock = mock(
+    (_url: URL, init: RequestInit) =>
+      new Promise<Response>((resolve, reject) => {
+        const timer = setTimeout(() => resolve(response()), ms);
+        init.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(init.signal?.reason);
+        });
+      }),
+  );
+  globalThis.fetch = fetchMock as unknown as typeof fetch;
+}
+
+async function rejection(promise: Promise<unknown>) {
+  const error = await promise.then(
+    () => null,
+    (reason: unknown) => reason,
+  );
+  expect(error).toBeInstanceOf(BackendRequestError);
+  return error as InstanceType<typeof BackendRequestError>;
+}
+
+// Five non-retryable 500s open the circuit.
+async function openCircuit() {
+  respondWith(new Response('boom', { status: 500 }));
+  for (let i = 0; i < 5; i += 1) {
+    await rejection(callBackend('ingest', { method: 'POST', body: '{}' }));
+  }
+}
+
+async function closeCircuit() {
+  if (getBackendHealth().backend.circuit.state === 'open') {
+    await Bun.sleep(COOLDOWN_MS + 10);
+  }
+  respondWith(Response.json({ events: [] }));
+  await callBackend('events');
+}
+
+const originalFetch = globalThis.fetch;
+
+beforeEach(async () => {
+  warnings = [];
+  spyOn(console, 'warn').mockImplementation((message: string) => warnings.push(message));
+  spyOn(console, 'info').mockImplementation(() => {});
+  await closeCircuit();
+  warnings = [];
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+  mock.restore();
+});
+
+describe('callBackend retries', () => {
+  test('retries a GET that hits a retryable status', async () => {
+    respondWith(new Response('cold start', { status: 503, headers: { 'retry-after': '0.01' } }), Response.json({ ok: 1 }));
+    expect(await callBackendJson('events')).toEqual({ ok: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(String(fetchMock.mock.calls[0][0])).toBe(`${BACKEND}events`);
+  });
+
+  test('gives up after three attempts and reports the last status', async () => {
+    respondWith(new Response('throttled', { status: 429, headers: { 'retry-after': '0.01' } }));
+    const error = await rejection(callBackend('events'));
+    expect(error.status).toBe(429);
+    expect(error.payload).toBe('throttled');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  test('retries network errors but not a plain 500', async () => {
+    respondWith(new TypeError('ECONNRESET'), Response.json({ ok: 1 }));
+    expect(await callBackendJson('events')).toEqual({ ok: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    respondWith(new Response('bug', { status: 500 }));
+    expect((await rejection(callBackend('events'))).status).toBe(500);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('retries writes only when they carry an Idempotency-Key', async () => {
+    respondWith(new Response('unavailable', { status: 503, headers: { 'retry-after': '0.01' } }), Response.json({ ok: 1 }));
+    expect((await rejection(callBackend('ingest', { method: 'POST', body: '{}' }))).status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    respondWith(new Response('unavailable', { status: 503, headers: { 'retry-after': '0.01' } }), Response.json({ ok: 1 }));
+    const headers = { 'idempotency-key': 'key-12345678' };
+    expect(await callBackendJson('ingest', { method: 'POST', body: '{}', headers })).toEqual({ ok: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test('backs off exponentially with jitter unless the backend sends Retry-After', async () => {
+    spyOn(Math, 'random').mockReturnValue(0.2);
+    respondWith(new Response('unavailable', { status: 503 }));
+    await rejection(callBackend('events'));
+    expect(warnings.map((message) => message.match(/in (\d+) ms/)?.[1])).toEqual(['50', '100']);
+
+    warnings = [];
+    respondWith(new Response('slow down', { status: 429, headers: { 'retry-after': '0.03' } }), Response.json({}));
+    await callBackend('events');
+    expect(warnings[0]).toContain('in 30 ms');
+  });
+});
+
+describe('callBackend timeouts', () => {
+  test('fails with a 504 when headers take longer than the endpoint timeout', async () => {
+    delayedFetch(TIMEOUT_MS * 4, () => Response.json({}));
+    const error = await rejection(callBackend('ingest', { method: 'POST', body: '{}' }));
+    expect(error.status).toBe(504);
+    expect(error.message).toContain(`timed out after ${TIMEOUT_MS} ms`);
+  });
+
+  test('gives slow endpoints their own budget', async () => {
+    delayedFetch(TIMEOUT_MS * 2, () => Response.json({ routes: [] }));
+    expect(await callBackendJson('routes/alt', { method: 'POST', body: '{}' })).toEqual({ routes: [] });
+    expect(await callBackendJson('ingest', { method: 'POST', body: '{}', timeoutMs: TIMEOUT_MS * 4 })).toEqual({
+      routes: [],
+    });
+  });
+
+  test('does not time the body once headers have arrived', async () => {
+    // Like a real fetch, aborting the request signal also fails the body mid-read.
+    fetchMock = mock(async (_url: URL, init: RequestInit) => {
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          init.signal?.addEventListener('abort', () => controller.error(init.signal?.reason));
+          await Bun.sleep(TIMEOUT_MS * 3);
+          if (!init.signal?.aborted) {
+            controller.enqueue(new TextEncoder().encode('{"events":[]}'));
+            controller.close();
+          }
+        },
+      });
+      return new Response(body, { headers: { 'content-type': 'application/json' } });
+    });
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    expect(await callBackendJson('events')).toEqual({ events: [] });
+    expect(getBackendHealth().backend.circuit.consecutiveFailures).toBe(0);
+  });
+});
+
+describe('circuit breaker', () => {
+  test('opens after five consecutive failures and then fails fast', async () => {
+    await openCircuit();
+    const health = getBackendHealth();
+    expect(health.status).toBe('down');
+    expect(health.backend.circuit).toMatchObject({ state: 'open', consecutiveFailures: 5 });
+    expect(health.backend.circuit.retryAt).toBe(health.backend.circuit.openedAt! + COOLDOWN_MS);
+
+    respondWith(Response.json({ events: [] }));
+    expect((await rejection(callBackend('events'))).status).toBe(503);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test('lets one trial through after the cooldown and closes when it succeeds', async () => {
+    await openCircuit();
+    await Bun.sleep(COOLDOWN_MS + 10);
+
+    let release!: () => void;
+    respondWith(() => new Promise<Response>((resolve) => (release = () => resolve(Response.json({ ok: 1 })))));
+    const trial = callBackendJson('events');
+    await Bun.sleep(0);
+    expect(getBackendHealth().backend.circuit.state).toBe('half-open');
+    expect((await rejection(callBackend('events'))).status).toBe(503);
+
+    release();
+    expect(await trial).toEqual({ ok: 1 });
+    expect(getBackendHealth()).toMatchObject({ status: 'ok', backend: { circuit: { state: 'closed', consecutiveFailures: 0 } } });
+  });
+
+  test('re-opens when the trial fails', async () => {
+    await openCircuit();
+    await Bun.sleep(COOLDOWN_MS + 10);
+    respondWith(new Response('still down', { status: 500 }));
+    await rejection(callBackend('ingest', { method: 'POST', body: '{}' }));
+    expect(getBackendHealth().backend.circuit.state).toBe('open');
+  });
+
+  test('does not count client errors against the backend', async () => {
+    respondWith(new Response('not found', { status: 404 }));
+    for (let i = 0; i < 6; i += 1) {
+      expect((await rejection(callBackend('events/missing'))).status).toBe(404);
+    }
+    expect(getBackendHealth().backend.circuit).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+});
@@ -0,0 +1,4 @@
+import { mock } from 'bun:test';
+
+// `server-only` resolves only inside a Next.js build; under bun the server modules are plain imports.
+mock.module('server-only', () => ({}));
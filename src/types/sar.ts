@@ -1,75 +1,149 @@
-export interface SarEvent {
-  eventId: string;
-  text: string;
-  lat?: number;
-  lon?: number;
-  createdAt?: number;
-  mediaUrl?: string;
-  severity?: number;
-  trust?: number;
-  rationale?: string;
-}
+import type { z } from "zod";
 
-export interface ListEventsResponse {
-  events: SarEvent[];
-}
+import type {
+  altRouteLegSchema,
+  altRouteOptionSchema,
+  altRouteRequestSchema,
+  altRouteResponseSchema,
+  avoidAreaSchema,
+  backendHealthResponseSchema,
+  bulkImportRequestSchema,
+  bulkImportResponseSchema,
+  bulkImportRowResultSchema,
+  circuitStateSchema,
+  circleGeofenceRequestSchema,
+  createGeofenceRequestSchema,
+  csvColumnMappingSchema,
+  deleteGeofenceResponseSchema,
+  eventImportFormatSchema,
+  explainEventResponseSchema,
+  fieldErrorSchema,
+  geoJsonMultiPolygonSchema,
+  geoJsonPolygonSchema,
+  geoJsonPositionSchema,
+  geofenceAlertRecordSchema,
+  geofenceGeometrySchema,
+  geofenceRequestSchema,
+  geofenceResponseSchema,
+  geofenceSchema,
+  hazardSourceSchema,
+  incidentStatusChangeSchema,
+  incidentStatusSchema,
+  ingestEventRequestSchema,
+  ingestEventResponseSchema,
+  listEventsResponseSchema,
+  listGeofenceAlertsResponseSchema,
+  listGeofencesResponseSchema,
+  missionOrderStrategySchema,
+  missionRouteRequestSchema,
+  missionRouteResponseSchema,
+  missionStopSchema,
+  plannedMissionStopSchema,
+  problemDetailsSchema,
+  routeEngineSchema,
+  routeHazardSchema,
+  routeOptimizeSchema,
+  sarEventSchema,
+  saveGeofenceResponseSchema,
+  saveRouteRequestSchema,
+  savedRouteResponseSchema,
+  savedRouteSchema,
+  simulateReplayResponseSchema,
+  transitionEventStatusRequestSchema,
+  transitionEventStatusResponseSchema,
+  updateGeofenceRequestSchema,
+  zoneGeofenceRequestSchema,
+} from "@/lib/sar-contracts";
 
-export interface IngestEventRequest {
-  text: string;
-  lat?: number;
-  lon?: number;
-  mediaUrl?: string;
-}
+// Wire contracts are defined once as zod schemas in `@/lib/sar-contracts`; these are their inferred types.
+export type IncidentStatus = z.infer<typeof incidentStatusSchema>;
+export type IncidentStatusChange = z.infer<typeof incidentStatusChangeSchema>;
+export type SarEvent = z.infer<typeof sarEventSchema>;
+export type ListEventsResponse = z.infer<typeof listEventsResponseSchema>;
+export type IngestEventRequest = z.infer<typeof ingestEventRequestSchema>;
+export type IngestEventResponse = z.infer<typeof ingestEventResponseSchema>;
+export type EventImportFormat = z.infer<typeof eventImportFormatSchema>;
+export type CsvColumnMapping = z.infer<typeof csvColumnMappingSchema>;
+export type BulkImportRequest = z.infer<typeof bulkImportRequestSchema>;
+export type BulkImportRowResult = z.infer<typeof bulkImportRowResultSchema>;
+export type BulkImportResponse = z.infer<typeof bulkImportResponseSchema>;
+export type TransitionEventStatusRequest = z.infer<typeof transitionEventStatusRequestSchema>;
+export type TransitionEventStatusResponse = z.infer<typeof transitionEventStatusResponseSchema>;
+export type ExplainEventResponse = z.infer<typeof explainEventResponseSchema>;
+export type AltRouteRequest = z.infer<typeof altRouteRequestSchema>;
+export type AltRouteLeg = z.infer<typeof altRouteLegSchema>;
+export type AltRouteOption = z.infer<typeof altRouteOptionSchema>;
+export type AltRouteResponse = z.infer<typeof altRouteResponseSchema>;
+export type HazardSource = z.infer<typeof hazardSourceSchema>;
+export type AvoidArea = z.infer<typeof avoidAreaSchema>;
+export type RouteHazard = z.infer<typeof routeHazardSchema>;
+export type RouteOptimize = z.infer<typeof routeOptimizeSchema>;
+export type RouteEngine = z.infer<typeof routeEngineSchema>;
+export type MissionOrderStrategy = z.infer<typeof missionOrderStrategySchema>;
+export type MissionStop = z.infer<typeof missionStopSchema>;
+export type MissionRouteRequest = z.infer<typeof missionRouteRequestSchema>;
+export type PlannedMissionStop = z.infer<typeof plannedMissionStopSchema>;
+export type MissionRouteResponse = z.infer<typeof missionRouteResponseSchema>;
+export type SaveRouteRequest = z.infer<typeof saveRouteRequestSchema>;
+export type SavedRoute = z.infer<typeof savedRouteSchema>;
+export type SavedRouteResponse = z.infer<typeof savedRouteResponseSchema>;
+export type GeoJsonPosition = z.infer<typeof geoJsonPositionSchema>;
+export type GeoJsonPolygon = z.infer<typeof geoJsonPolygonSchema>;
+export type GeoJsonMultiPolygon = z.infer<typeof geoJsonMultiPolygonSchema>;
+export type GeofenceGeometry = z.infer<typeof geofenceGeometrySchema>;
+export type CircleGeofenceRequest = z.infer<typeof circleGeofenceRequestSchema>;
+export type ZoneGeofenceRequest = z.infer<typeof zoneGeofenceRequestSchema>;
+export type GeofenceRequest = z.infer<typeof geofenceRequestSchema>;
+export type GeofenceResponse = z.infer<typeof geofenceResponseSchema>;
+export type Geofence = z.infer<typeof geofenceSchema>;
+export type GeofenceAlertRecord = z.infer<typeof geofenceAlertRecordSchema>;
+export type CreateGeofenceRequest = z.infer<typeof createGeofenceRequestSchema>;
+export type UpdateGeofenceRequest = z.infer<typeof updateGeofenceRequestSchema>;
+export type SaveGeofenceResponse = z.infer<typeof saveGeofenceResponseSchema>;
+export type ListGeofencesResponse = z.infer<typeof listGeofencesResponseSchema>;
+export type DeleteGeofenceResponse = z.infer<typeof deleteGeofenceResponseSchema>;
+export type ListGeofenceAlertsResponse = z.infer<typeof listGeofenceAlertsResponseSchema>;
+export type SimulateReplayResponse = z.infer<typeof simulateReplayResponseSchema>;
+export type FieldError = z.infer<typeof fieldErrorSchema>;
+export type ProblemDetails = z.infer<typeof problemDetailsSchema>;
+export type CircuitState = z.infer<typeof circuitStateSchema>;
+export type BackendHealthResponse = z.infer<typeof backendHealthResponseSchema>;
 
-export interface IngestEventResponse {
-  eventId: string;
-}
+export type EventSortField = "createdAt" | "severity" | "trust";
 
-export interface ExplainEventResponse {
-  eventId: string;
-  rationale: string;
-  cues?: string[];
-  trustScore?: number;
-  trace?: Array<{
-    tool: string;
-    ms: number;
-  }>;
+export interface ListEventsParams {
+  /** Epoch ms; only events created at or after this instant. */
+  since?: number;
+  /** Epoch ms; only events created before this instant. */
+  until?: number;
+  /** Inclusive lower bound; events without a score count as 0. */
+  minSeverity?: number;
+  /** Exclusive upper bound, so adjacent bands do not overlap. */
+  maxSeverity?: number;
+  minTrust?: number;
+  /** [minLon, minLat, maxLon, maxLat]; events without coordinates are excluded. */
+  bbox?: [number, number, number, number];
+  status?: IncidentStatus[];
+  q?: string;
+  sort?: EventSortField;
+  order?: "asc" | "desc";
+  limit?: number;
+  /** Opaque token from a previous page's `nextCursor`. */
+  cursor?: string;
+  /** Include reports linked to another incident via `duplicateOf`. */
+  includeDuplicates?: boolean;
 }
 
-export interface AltRouteRequest {
-  originLat: number;
-  originLon: number;
-  destLat: number;
-  destLon: number;
-}
-
-export interface AltRouteLeg {
-  distanceMeters?: number;
-  duration?: string;
-  start?: { latitude?: number; longitude?: number };
-  end?: { latitude?: number; longitude?: number };
-}
-
-export interface AltRouteResponse {
-  distanceKm: number;
-  etaMin: number;
-  polyline?: string;
-  legs?: AltRouteLeg[];
-}
-
-export interface GeofenceRequest {
-  lat: number;
-  lon: number;
-  radiusKm: number;
-}
-
-export interface GeofenceResponse {
-  delivered: number;
-}
+export type SarEventDelta =
+  | { type: "created"; event: SarEvent }
+  | { type: "updated"; event: SarEvent }
+  | { type: "deleted"; eventId: string };
 
-export interface SimulateReplayResponse {
-  started: boolean;
-  count: number;
+// Payloads carried by the `/api/events/stream` server-sent events, keyed by SSE event name.
+export interface EventStreamMessages {
+  snapshot: ListEventsResponse;
+  delta: { deltas: SarEventDelta[] };
+  error: { message: string };
 }
 
 export type ExplainTraceStep = ExplainEventResponse["trace"] extends Array<infer Step>
@@ -5,14 +5,18 @@ set -euo pipefail
 # MCP Server Test Script
 # Ensure API_BASE is exported, e.g.:
 # export API_BASE=https://YOUR-API-ID.execute-api.REGION.amazonaws.com/prod
+# or run offline against the built-in backend:
+# export SAR_BACKEND_MODE=local
 
 echo "🧪 Testing MCP Server..."
 echo "API_BASE: ${API_BASE:-<unset>}"
+echo "SAR_BACKEND_MODE: ${SAR_BACKEND_MODE:-<unset>}"
 echo
 
-if [ -z "${API_BASE:-}" ]; then
+if [ -z "${API_BASE:-}" ] && [ "${SAR_BACKEND_MODE:-}" != "local" ]; then
   echo "❌ Error: API_BASE environment variable is not set!"
   echo "Please run: export API_BASE=https://YOUR-API-ID.execute-api.REGION.amazonaws.com/prod"
+  echo "Or use the local backend: export SAR_BACKEND_MODE=local"
   exit 1
 fi
 
@@ -30,7 +34,7 @@ fi
 
 run_mcp() {
   local payload="$1"
-  printf '%s\n' "$payload" | bun run mcp/server.mjs
+  printf '%s\n' "$payload" | bun run mcp/server.ts
 }
 
 pretty() {